@@ -0,0 +1,112 @@
+import { ApuestaLineaNode, NumeroNode, ParNode } from './types';
+
+/**
+ * Lecturas alternativas de líneas ambiguas.
+ *
+ * La lectura literal es la que el parser aplica por defecto; las demás solo se
+ * usan si cuadran con el total declarado de la jugada.
+ */
+
+/** Verosimilitud a priori de cada lectura */
+export const AMBIGUITY_WEIGHTS = {
+  literal: 0.6,
+  lastNumberAmount: 0.4,
+  centenaAsParle: 0.3,
+} as const;
+
+/** Máximo de combinaciones de lecturas que se prueban para cuadrar un total */
+export const MAX_COMBINACIONES = 256;
+
+/** Una forma de leer una línea de apuestas */
+export interface LecturaLinea {
+  /** LITERAL, LAST_NUMBER_AMOUNT o CENTENA_AS_PARLE */
+  codigo: string;
+  descripcion: string;
+  peso: number;
+  /** La línea reescrita según esta lectura */
+  linea: ApuestaLineaNode;
+}
+
+/**
+ * Lecturas posibles de una línea; la primera es siempre la literal
+ */
+export function leerLinea(linea: ApuestaLineaNode): LecturaLinea[] {
+  const w = AMBIGUITY_WEIGHTS;
+  const lecturas: LecturaLinea[] = [
+    { codigo: 'LITERAL', descripcion: 'Lectura literal', peso: w.literal, linea },
+  ];
+  if (linea.parle || linea.candado || linea.todasLasCentenas || linea.pares.length > 0) {
+    return lecturas;
+  }
+
+  // "05 10 15 20 30": sin "con", el último número puede ser el monto
+  const ultimo = linea.numeros[linea.numeros.length - 1];
+  const elementos = linea.numeros.length + linea.patrones.length;
+  if (
+    linea.montos.length === 0 &&
+    ultimo &&
+    elementos >= 2 &&
+    /^[1-9]\d*$/.test(ultimo.value) &&
+    linea.patrones.every(p => p.span.end <= ultimo.span.start)
+  ) {
+    lecturas.push({
+      codigo: 'LAST_NUMBER_AMOUNT',
+      descripcion: `${ultimo.value} es el monto`,
+      peso: w.lastNumberAmount,
+      linea: {
+        ...linea,
+        numeros: linea.numeros.slice(0, -1),
+        montos: [{ kind: 'monto', value: parseInt(ultimo.value, 10), span: ultimo.span }],
+      },
+    });
+  }
+
+  // "325 con 10": un número de tres cifras puede ser un parle (03*25)
+  if (
+    linea.montos.length > 0 &&
+    linea.patrones.length === 0 &&
+    linea.numeros.length > 0 &&
+    linea.numeros.every(n => n.value.length === 3)
+  ) {
+    lecturas.push({
+      codigo: 'CENTENA_AS_PARLE',
+      descripcion: `${linea.numeros.map(n => parDeCentena(n).numeros.join('*')).join(', ')} es parle`,
+      peso: w.centenaAsParle,
+      linea: { ...linea, numeros: [], pares: linea.numeros.map(parDeCentena) },
+    });
+  }
+
+  return lecturas;
+}
+
+/**
+ * Combinaciones de lecturas de varias líneas, de la más a la menos probable
+ * (primero las que cambian menos líneas), sin la que es toda literal.
+ * @param opciones cantidad de lecturas de cada línea
+ */
+export function combinarLecturas(opciones: number[]): number[][] {
+  const total = opciones.reduce((producto, n) => producto * n, 1);
+  const combinaciones: number[][] =
+    total <= MAX_COMBINACIONES + 1
+      ? opciones.reduce<number[][]>(
+          (parciales, n) =>
+            parciales.flatMap(parcial => Array.from({ length: n }, (_, i) => [...parcial, i])),
+          [[]]
+        )
+      : // Demasiadas: solo se cambia una línea cada vez
+        opciones.flatMap((n, linea) =>
+          Array.from({ length: n }, (_, i) => opciones.map((_, j) => (j === linea ? i : 0)))
+        );
+
+  const cambios = (c: number[]): number => c.filter(i => i > 0).length;
+  const suma = (c: number[]): number => c.reduce((s, i) => s + i, 0);
+  return combinaciones
+    .filter(c => cambios(c) > 0)
+    .sort((a, b) => cambios(a) - cambios(b) || suma(a) - suma(b))
+    .slice(0, MAX_COMBINACIONES);
+}
+
+function parDeCentena(numero: NumeroNode): ParNode {
+  const [a, b] = [numero.value.slice(0, 1), numero.value.slice(1)];
+  return { kind: 'par', numeros: [a.padStart(2, '0'), b], span: numero.span };
+}
@@ -0,0 +1,270 @@
+import {
+  ParserConfig,
+  Token,
+  BloqueNode,
+  LineaNode,
+  ApuestaLineaNode,
+  MontoNode,
+  ModificadorNode,
+  NumeroNode,
+  ParNode,
+  PatronNode,
+  PatternType,
+} from './types';
+import { Lexer } from './lexer';
+import { PatternExpander } from './pattern-expander';
+import { Deadline } from './utils/deadline';
+
+/**
+ * Construye el AST tipado de bloques y líneas de jugadas a partir de los tokens del Lexer
+ */
+export class AstBuilder {
+  private lexer = new Lexer();
+  private expander: PatternExpander;
+
+  constructor(private config: ParserConfig) {
+    this.expander = new PatternExpander(config);
+  }
+
+  /**
+   * Construye el AST de un bloque (un jugador)
+   * @param offset posición del bloque dentro del texto completo
+   * @param deadline se consulta en cada línea y expansión
+   */
+  parseBloque(text: string, offset = 0, deadline = Deadline.NONE): BloqueNode {
+    const lineas: LineaNode[] = [];
+    let lineStart = 0;
+
+    for (const line of text.split('\n')) {
+      if (line.trim()) {
+        const leading = line.length - line.trimStart().length;
+        deadline.check();
+        lineas.push(
+          this.parseLinea(line.trim(), lineas.length, offset + lineStart + leading, deadline)
+        );
+      }
+      lineStart += line.length + 1;
+    }
+
+    const primera = lineas[0];
+    const total = lineas.find(l => l.kind === 'total' && l.monto !== null);
+
+    return {
+      kind: 'bloque',
+      jugador: primera?.kind === 'nombre' ? primera.nombre : null,
+      totalDeclarado: total?.kind === 'total' && total.monto ? total.monto.value : null,
+      lineas,
+      span: { start: offset, end: offset + text.length },
+    };
+  }
+
+  /**
+   * Construye el AST de una línea
+   * @param index índice de la línea dentro del bloque
+   * @param offset posición de la línea dentro del texto completo
+   */
+  parseLinea(text: string, index = 0, offset = 0, deadline = Deadline.NONE): LineaNode {
+    const tokens = this.lexer.tokenize(text, offset).filter(t => t.type !== 'NEWLINE');
+    const base = { index, text, tokens, span: { start: offset, end: offset + text.length } };
+    const first = tokens[0];
+
+    if (first?.type === 'NAME') {
+      return { ...base, kind: 'nombre', nombre: first.value };
+    }
+
+    if (first?.type === 'TOTAL') {
+      const amount = tokens.find(t => t.type === 'AMOUNT' || t.type === 'NUMBER');
+      return { ...base, kind: 'total', monto: amount ? this.monto(amount) : null };
+    }
+
+    const apuesta = this.buildApuesta(base, tokens, deadline);
+    const isEmpty =
+      apuesta.numeros.length === 0 &&
+      apuesta.pares.length === 0 &&
+      apuesta.patrones.length === 0 &&
+      apuesta.montos.length === 0 &&
+      !apuesta.parle &&
+      !apuesta.candado &&
+      !apuesta.todasLasCentenas;
+
+    return isEmpty ? { ...base, kind: 'desconocida' } : apuesta;
+  }
+
+  private buildApuesta(
+    base: Pick<ApuestaLineaNode, 'index' | 'text' | 'tokens' | 'span'>,
+    tokens: Token[],
+    deadline: Deadline
+  ): ApuestaLineaNode {
+    const node: ApuestaLineaNode = {
+      ...base,
+      kind: 'apuesta',
+      numeros: [],
+      pares: [],
+      patrones: [],
+      montos: [],
+      parle: null,
+      candado: null,
+      todasLasCentenas: false,
+      desconocidos: [],
+    };
+
+    let i = 0;
+    const peek = (n: number): Token | undefined => tokens[i + n];
+
+    while (i < tokens.length) {
+      const token = tokens[i];
+      deadline.check();
+
+      switch (token.type) {
+        case 'NUMBER': {
+          const next = peek(1);
+          const after = peek(2);
+
+          if (next?.type === 'TIMES' && after?.type === 'NUMBER') {
+            node.pares.push(this.par(token, after));
+            i += 3;
+          } else if (next?.type === 'VOLTEO_SUFFIX') {
+            node.patrones.push(
+              this.patron('volteo', token, next, this.expander.expandVolteo(token.value), base)
+            );
+            i += 2;
+          } else if (
+            next?.type === 'RANGE_AL' &&
+            after?.type === 'NUMBER' &&
+            // Como en el preprocesador, los rangos van entre números de dos cifras
+            token.value.length <= 2 &&
+            after.value.length <= 2
+          ) {
+            const numeros = this.expander.expandRango(
+              parseInt(token.value, 10),
+              parseInt(after.value, 10)
+            );
+            node.patrones.push(this.patron('rango', token, after, numeros, base));
+            i += 3;
+          } else if (next?.type === 'PARES_RELATIVOS' && after?.type === 'NUMBER') {
+            const numeros = this.expander.expandParesRelativos(
+              token.value,
+              parseInt(after.value, 10)
+            );
+            node.patrones.push(this.patron('pares_relativos', token, after, numeros, base));
+            i += 3;
+          } else {
+            node.numeros.push(this.numero(token));
+            i++;
+          }
+          break;
+        }
+
+        case 'DECENA':
+        case 'TERMINAL': {
+          const next = peek(1);
+          if (next?.type === 'NUMBER') {
+            const valor = parseInt(next.value, 10);
+            const numeros =
+              token.type === 'DECENA'
+                ? this.expander.expandDecena(valor)
+                : this.expander.expandTerminal(valor);
+            const type: PatternType = token.type === 'DECENA' ? 'decena' : 'terminal';
+            node.patrones.push(this.patron(type, token, next, numeros, base));
+            i += 2;
+          } else {
+            node.desconocidos.push(token);
+            i++;
+          }
+          break;
+        }
+
+        case 'CON': {
+          // Solo el primer grupo "con A y B y C" define los montos de la línea
+          const montos: MontoNode[] = [];
+          let j = i + 1;
+          while (tokens[j]?.type === 'AMOUNT') {
+            montos.push(this.monto(tokens[j]));
+            j += tokens[j + 1]?.type === 'Y' && tokens[j + 2]?.type === 'AMOUNT' ? 2 : 1;
+          }
+          if (node.montos.length === 0) {
+            node.montos = montos;
+          }
+          i = j;
+          break;
+        }
+
+        case 'PARLE':
+        case 'PARLE_INLINE':
+        case 'CANDADO': {
+          let j = i + 1;
+          if (tokens[j]?.type === 'CON') j++;
+          const amount = tokens[j]?.type === 'AMOUNT' ? tokens[j] : undefined;
+          const end = amount ?? tokens[j - 1];
+
+          const modificador: ModificadorNode = {
+            kind: token.type === 'CANDADO' ? 'candado' : 'parle',
+            monto: amount ? this.monto(amount) : null,
+            inline: token.type === 'PARLE_INLINE',
+            span: { start: token.start, end: end.end },
+          };
+
+          if (modificador.kind === 'candado') {
+            node.candado = modificador;
+          } else {
+            node.parle = modificador;
+          }
+          i = amount ? j + 1 : j;
+          break;
+        }
+
+        case 'CENTENAS_TODAS':
+          node.todasLasCentenas = true;
+          i++;
+          break;
+
+        case 'Y':
+          // Conector entre números ("10v y d0")
+          i++;
+          break;
+
+        default:
+          node.desconocidos.push(token);
+          i++;
+      }
+    }
+
+    return node;
+  }
+
+  private numero(token: Token): NumeroNode {
+    return { kind: 'numero', value: token.value, span: { start: token.start, end: token.end } };
+  }
+
+  private par(first: Token, second: Token): ParNode {
+    return {
+      kind: 'par',
+      numeros: [first.value.padStart(2, '0'), second.value.padStart(2, '0')],
+      span: { start: first.start, end: second.end },
+    };
+  }
+
+  private monto(token: Token): MontoNode {
+    return {
+      kind: 'monto',
+      value: parseFloat(token.value.replace(',', '.')),
+      span: { start: token.start, end: token.end },
+    };
+  }
+
+  private patron(
+    type: PatternType,
+    first: Token,
+    last: Token,
+    numeros: string[],
+    linea: Pick<ApuestaLineaNode, 'text' | 'span'>
+  ): PatronNode {
+    return {
+      kind: 'patron',
+      type,
+      raw: linea.text.slice(first.start - linea.span.start, last.end - linea.span.start),
+      numeros,
+      span: { start: first.start, end: last.end },
+    };
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Precio de las apuestas de una línea. Lo comparten el parser y los plugins de
+ * extracción para que una misma línea valga lo mismo por los dos caminos.
+ */
+import Decimal from 'decimal.js';
+import { DetalleApuesta, ReglasCasa, TipoApuesta } from './types';
+
+/**
+ * Detalle con el monto unitario por cada número
+ */
+export function crearDetalle(
+  tipo: TipoApuesta,
+  numeros: string[],
+  montoUnitario: number,
+  lineaOriginal: string,
+  lineaNumero?: number,
+  extras?: Partial<DetalleApuesta>
+): DetalleApuesta {
+  return {
+    tipo,
+    numeros,
+    monto: new Decimal(montoUnitario).times(numeros.length).toNumber(),
+    montoUnitario,
+    lineaOriginal,
+    lineaNumero,
+    ...extras,
+  };
+}
+
+/**
+ * Número de combinaciones de dos elementos entre n números
+ */
+export function calcularCombinaciones(n: number): number {
+  if (n < 2) return 0;
+  return (n * (n - 1)) / 2;
+}
+
+/**
+ * Parlé de pares explícitos ("25*33", "2533"): el monto es por par
+ */
+export function detalleParlePares(
+  pares: [string, string][],
+  montoPar: number,
+  lineaOriginal: string,
+  lineaNumero?: number,
+  extras?: Partial<DetalleApuesta>
+): DetalleApuesta {
+  return crearDetalle('parle', [...new Set(pares.flat())], montoPar, lineaOriginal, lineaNumero, {
+    pares,
+    combinaciones: pares.length,
+    monto: new Decimal(montoPar).times(pares.length).toNumber(),
+    ...extras,
+  });
+}
+
+/**
+ * Parlé entre números sueltos ("25 33 47 p5"): el monto es por cada combinación de dos
+ */
+export function detalleParle(
+  numeros: string[],
+  montoParle: number,
+  lineaOriginal: string,
+  lineaNumero?: number,
+  extras?: Partial<DetalleApuesta>
+): DetalleApuesta {
+  const combinaciones = calcularCombinaciones(numeros.length);
+  return crearDetalle('parle', numeros, montoParle, lineaOriginal, lineaNumero, {
+    combinaciones,
+    monto: new Decimal(montoParle).times(combinaciones).toNumber(),
+    ...extras,
+  });
+}
+
+/**
+ * Candado entre los números: según la casa, el monto se reparte entre las
+ * combinaciones (`candadoRepartido`) o es por cada combinación
+ */
+export function detalleCandado(
+  numeros: string[],
+  montoCandado: number,
+  reglas: ReglasCasa,
+  lineaOriginal: string,
+  lineaNumero?: number,
+  extras?: Partial<DetalleApuesta>
+): DetalleApuesta {
+  const combinaciones = calcularCombinaciones(numeros.length);
+  const montoUnitario = reglas.candadoRepartido
+    ? new Decimal(montoCandado).dividedBy(combinaciones).toNumber()
+    : montoCandado;
+  return crearDetalle('candado', numeros, 0, lineaOriginal, lineaNumero, {
+    combinaciones,
+    montoUnitario,
+    monto: reglas.candadoRepartido
+      ? montoCandado
+      : new Decimal(montoCandado).times(combinaciones).toNumber(),
+    ...extras,
+  });
+}
+
+/**
+ * Centenas con "con C y F y R": centena C, y fijo F y corrido R sobre las dos
+ * últimas cifras (corrido y fijo con `centenaCompuesta: 'corrido-fijo'`).
+ * `extras` recibe la posición del monto de cada detalle (0 la centena).
+ */
+export function detallesCentena(
+  centenas: string[],
+  montos: number[],
+  reglas: ReglasCasa,
+  lineaOriginal: string,
+  lineaNumero?: number,
+  extras: (indiceMonto: number) => Partial<DetalleApuesta> = () => ({})
+): DetalleApuesta[] {
+  const fijos = centenas.map(c => c.slice(-2));
+  const [indiceFijo, indiceCorrido] = reglas.centenaCompuesta === 'corrido-fijo' ? [2, 1] : [1, 2];
+  const detalles: DetalleApuesta[] = [];
+
+  const montoCentena = montos[0] ?? 0;
+  if (montoCentena > 0) {
+    detalles.push(
+      crearDetalle('centena', centenas, montoCentena, lineaOriginal, lineaNumero, extras(0))
+    );
+  }
+  const montoFijo = montos[indiceFijo] ?? 0;
+  if (montoFijo > 0) {
+    detalles.push(
+      crearDetalle('fijo', fijos, montoFijo, lineaOriginal, lineaNumero, extras(indiceFijo))
+    );
+  }
+  const montoCorrido = montos[indiceCorrido] ?? 0;
+  if (montoCorrido > 0) {
+    detalles.push(
+      crearDetalle(
+        'corrido',
+        fijos,
+        montoCorrido,
+        lineaOriginal,
+        lineaNumero,
+        extras(indiceCorrido)
+      )
+    );
+  }
+
+  return detalles;
+}
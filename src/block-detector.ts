@@ -0,0 +1,65 @@
+import { Lexer } from './lexer';
+
+/** Qué hacer con una línea al separar el texto en bloques */
+export interface BlockStep {
+  /** La línea cierra el bloque abierto antes de procesarse */
+  closeBefore: boolean;
+
+  /** La línea forma parte de un bloque (abre uno si no hay ninguno abierto) */
+  include: boolean;
+
+  /** La línea cierra su bloque */
+  closeAfter: boolean;
+}
+
+/**
+ * Reglas de separación en bloques (uno por jugador), compartidas por
+ * `Parser.extractBloques` y `StreamingParser` para que ambos coincidan.
+ *
+ * Un bloque termina en una línea vacía, antes del nombre de otro jugador
+ * (si el bloque ya tiene apuestas) o después de su línea de total.
+ */
+export class BlockDetector {
+  private lexer = new Lexer();
+  private open = false;
+  private hasBets = false;
+
+  /**
+   * Clasifica la siguiente línea del texto preprocesado
+   */
+  next(line: string): BlockStep {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      const closeBefore = this.open;
+      this.reset();
+      return { closeBefore, include: false, closeAfter: false };
+    }
+
+    if (Lexer.isNombreJugador(trimmed)) {
+      const closeBefore = this.open && this.hasBets;
+      if (closeBefore) {
+        this.reset();
+      }
+      this.open = true;
+      return { closeBefore, include: true, closeAfter: false };
+    }
+
+    if (this.lexer.tokenize(trimmed)[0]?.type === 'TOTAL') {
+      this.reset();
+      return { closeBefore: false, include: true, closeAfter: true };
+    }
+
+    this.open = true;
+    this.hasBets = true;
+    return { closeBefore: false, include: true, closeAfter: false };
+  }
+
+  /**
+   * Vuelve al estado inicial (sin bloque abierto)
+   */
+  reset(): void {
+    this.open = false;
+    this.hasBets = false;
+  }
+}
@@ -0,0 +1,270 @@
+import { Parser } from './parser';
+import { Lexer } from './lexer';
+import { Jugada, MensajeOrigen, ParseResult, SourceSpan } from './types';
+import { ParserError } from './utils/errors';
+
+/** Mensaje de un chat exportado */
+export interface ChatMessage extends MensajeOrigen {
+  text: string;
+}
+
+export interface ChatImportOptions {
+  /** Orden de día y mes en las fechas de WhatsApp (por defecto `dmy`) */
+  dateOrder?: 'dmy' | 'mdy';
+
+  /** Unir los mensajes seguidos de un mismo remitente (por defecto `true`) */
+  mergeConsecutive?: boolean;
+}
+
+/** Texto importado listo para el parser, con el rango de cada mensaje */
+export interface ChatImport {
+  text: string;
+  messages: ChatMessage[];
+  segments: Array<SourceSpan & { message: ChatMessage }>;
+}
+
+/** Exportación JSON de Telegram (solo los campos que se usan) */
+interface TelegramExport {
+  messages?: Array<{
+    type?: string;
+    from?: string | null;
+    date?: string;
+    date_unixtime?: string;
+    text?: string | Array<string | { text?: string }>;
+  }>;
+}
+
+// "[19/10/26 14:32:05] " (iOS) o "19/10/26, 14:32 - " (Android)
+const FECHA = String.raw`(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?\s?m\.?)?`;
+const WHATSAPP_IOS = new RegExp(String.raw`^‎?\[${FECHA}\]\s*(.*)$`, 'i');
+const WHATSAPP_ANDROID = new RegExp(String.raw`^‎?${FECHA}\s+[-–]\s+(.*)$`, 'i');
+
+/** Mensajes sin jugadas: adjuntos omitidos o borrados */
+const MENSAJE_VACIO =
+  /^‎?<?\s*(?:(?:multimedia|media|imagen|image|video|audio|sticker|documento?|gif)\s+(?:omitid[oa]|omitted)|se eliminó este mensaje|this message was deleted|eliminaste este mensaje)\s*>?$/i;
+
+/**
+ * Importa exportaciones de chat (WhatsApp de Android o iOS, JSON de Telegram)
+ * y las convierte en texto de jugadas para el parser.
+ *
+ * Quita fechas y remitentes, une los mensajes de varias líneas (y los seguidos
+ * de un mismo remitente) y usa el remitente como jugador cuando el párrafo no
+ * empieza con un nombre y el remitente se puede leer como tal.
+ */
+export class ChatImporter {
+  private readonly options: Required<ChatImportOptions>;
+
+  constructor(options: ChatImportOptions = {}) {
+    this.options = { dateOrder: 'dmy', mergeConsecutive: true, ...options };
+  }
+
+  /**
+   * Lee los mensajes de una exportación (detecta el formato)
+   */
+  readMessages(raw: string | object): ChatMessage[] {
+    if (typeof raw === 'object' || raw.trimStart().startsWith('{')) {
+      return this.parseTelegram(raw);
+    }
+    return this.parseWhatsApp(raw);
+  }
+
+  /**
+   * Mensajes de una exportación de texto de WhatsApp.
+   * Las líneas sin fecha continúan el mensaje anterior; los avisos del sistema se omiten.
+   */
+  parseWhatsApp(raw: string): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    let current: ChatMessage | null = null;
+
+    for (const line of raw.replace(/\r\n?/g, '\n').split('\n')) {
+      const match = WHATSAPP_IOS.exec(line) ?? WHATSAPP_ANDROID.exec(line);
+
+      if (!match) {
+        if (current) current.text += `\n${line}`;
+        continue;
+      }
+
+      const contenido = match[8];
+      const separador = contenido.indexOf(': ');
+      // Sin "remitente: " es un aviso del sistema (cifrado, cambios de grupo…)
+      current =
+        separador === -1
+          ? null
+          : {
+              sender: contenido.slice(0, separador).replace(/^‎/, '').trim(),
+              timestamp: this.whatsAppDate(match),
+              source: 'whatsapp',
+              text: contenido.slice(separador + 2),
+            };
+      if (current) messages.push(current);
+    }
+
+    return messages.filter(m => !MENSAJE_VACIO.test(m.text.trim()) && m.text.trim() !== '');
+  }
+
+  /**
+   * Mensajes de una exportación JSON de Telegram (`result.json`)
+   */
+  parseTelegram(raw: string | object): ChatMessage[] {
+    let data: TelegramExport;
+    try {
+      data = (typeof raw === 'string' ? JSON.parse(raw) : raw) as TelegramExport;
+    } catch (error) {
+      throw new ParserError('Exportación de Telegram inválida', {
+        error: (error as Error).message,
+      });
+    }
+    if (!Array.isArray(data.messages)) {
+      throw new ParserError('Exportación de Telegram inválida', { error: 'Falta "messages"' });
+    }
+
+    return data.messages
+      .filter(m => m.type === undefined || m.type === 'message')
+      .map(m => ({
+        sender: (m.from ?? '').trim(),
+        timestamp: m.date_unixtime ? Number(m.date_unixtime) * 1000 : Date.parse(m.date ?? ''),
+        source: 'telegram' as const,
+        text: Array.isArray(m.text)
+          ? m.text.map(part => (typeof part === 'string' ? part : (part.text ?? ''))).join('')
+          : (m.text ?? ''),
+      }))
+      .filter(m => m.text.trim() !== '');
+  }
+
+  /**
+   * Convierte una exportación en texto de jugadas
+   */
+  import(raw: string | object): ChatImport {
+    const messages = this.readMessages(raw);
+    const lines: Array<{ text: string; message: ChatMessage }> = [];
+
+    this.group(messages.filter(m => !this.esCharla(m))).forEach((grupo, index) => {
+      if (index > 0) lines.push({ text: '', message: grupo[0] });
+
+      // Párrafos del grupo: cada uno es una jugada y necesita su nombre
+      let inicioParrafo = true;
+      for (const message of grupo) {
+        for (const text of message.text.split('\n')) {
+          if (!text.trim()) {
+            inicioParrafo = true;
+            lines.push({ text: '', message });
+            continue;
+          }
+          // Solo remitentes que se leen como nombre: "+53 5 2345678" o "Juan D"
+          // se leerían como apuestas (el remitente queda en `metadata.message`)
+          if (
+            inicioParrafo &&
+            !Lexer.isNombreJugador(text.trim()) &&
+            Lexer.isNombreJugador(message.sender)
+          ) {
+            lines.push({ text: message.sender, message });
+          }
+          inicioParrafo = false;
+          lines.push({ text, message });
+        }
+      }
+    });
+
+    const segments: ChatImport['segments'] = [];
+    let offset = 0;
+    for (const { text, message } of lines) {
+      const last = segments[segments.length - 1];
+      if (last?.message === message) {
+        last.end = offset + text.length;
+      } else {
+        segments.push({ start: offset, end: offset + text.length, message });
+      }
+      offset += text.length + 1;
+    }
+
+    return { text: lines.map(l => l.text).join('\n'), messages, segments };
+  }
+
+  /**
+   * Importa y parsea una exportación; cada jugada guarda su mensaje en `metadata.message`
+   */
+  parse(raw: string | object, parser: Parser = new Parser()): ParseResult {
+    const chat = this.import(raw);
+    const result = parser.parse(chat.text);
+
+    return {
+      ...result,
+      jugadas: result.jugadas.map(jugada => {
+        const message = this.messageOf(jugada, chat);
+        if (!message) return jugada;
+
+        const { sender, timestamp, source } = message;
+        return {
+          ...jugada,
+          metadata: { ...jugada.metadata, message: { sender, timestamp, source } },
+        };
+      }),
+    };
+  }
+
+  /**
+   * Mensaje de una jugada: el que contiene su primera apuesta o, si no, el de su jugador
+   */
+  private messageOf(jugada: Jugada, chat: ChatImport): ChatMessage | undefined {
+    const start = jugada.detalles.find(d => d.span)?.span?.start;
+    const segment =
+      start === undefined
+        ? undefined
+        : chat.segments.find(s => start >= s.start && start < Math.max(s.end, s.start + 1));
+
+    return (
+      segment?.message ??
+      chat.messages.find(m => m.sender.toLowerCase() === jugada.jugador.toLowerCase())
+    );
+  }
+
+  /**
+   * Mensaje sin apuestas ("hola como estan"): todas sus líneas se leen como nombre
+   * y no debe pasar por el nombre de la jugada siguiente
+   */
+  private esCharla(message: ChatMessage): boolean {
+    return message.text
+      .split('\n')
+      .filter(line => line.trim())
+      .every(line => Lexer.isNombreJugador(line.trim()));
+  }
+
+  /**
+   * Grupos de mensajes (seguidos de un mismo remitente si `mergeConsecutive`)
+   */
+  private group(messages: ChatMessage[]): ChatMessage[][] {
+    const grupos: ChatMessage[][] = [];
+
+    for (const message of messages) {
+      const last = grupos[grupos.length - 1];
+      if (this.options.mergeConsecutive && last && last[0].sender === message.sender) {
+        last.push(message);
+      } else {
+        grupos.push([message]);
+      }
+    }
+
+    return grupos;
+  }
+
+  /**
+   * Fecha local de un encabezado de WhatsApp (años de dos cifras: 20xx)
+   */
+  private whatsAppDate(match: RegExpExecArray): number {
+    const [a, b, year, hour, minute, second = '0', meridiano] = match.slice(1, 8);
+    const [day, month] = this.options.dateOrder === 'dmy' ? [a, b] : [b, a];
+
+    let hours = parseInt(hour, 10) % (meridiano ? 12 : 24);
+    if (meridiano && /^p/i.test(meridiano)) hours += 12;
+
+    const fullYear = year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10);
+    return new Date(
+      fullYear,
+      parseInt(month, 10) - 1,
+      parseInt(day, 10),
+      hours,
+      parseInt(minute, 10),
+      parseInt(second, 10)
+    ).getTime();
+  }
+}
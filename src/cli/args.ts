@@ -0,0 +1,213 @@
+import { ParserConfig } from '../types';
+
+export type CliCommand = 'parse' | 'validate' | 'structure' | 'analyze' | 'settle' | 'corpus';
+
+export type OutputFormat = 'pretty' | 'json';
+
+export interface CliArgs {
+  command: CliCommand | null;
+  /** Archivo de entrada (`-` o ausente: stdin) */
+  file: string | null;
+  format: OutputFormat;
+  config: Partial<ParserConfig>;
+  /** Archivo JSON con configuración del parser */
+  configFile: string | null;
+  /** Perfil de reglas: nombre registrado o archivo JSON */
+  reglas: string | null;
+  /** Archivos JSON con diccionarios de correcciones (en orden) */
+  diccionarios: string[];
+  sorteo: { centena?: string; fijo?: string; corridos?: string[] };
+  /** Actualiza los `expected.json` del corpus */
+  accept: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+export class UsageError extends Error {}
+
+export const COMMANDS: CliCommand[] = [
+  'parse',
+  'validate',
+  'structure',
+  'analyze',
+  'settle',
+  'corpus',
+];
+
+/** Opciones numéricas que se copian tal cual a `ParserConfig` */
+const NUMERIC_FLAGS: Record<string, keyof ParserConfig> = {
+  '--max-jugadores': 'maxJugadores',
+  '--max-monto': 'maxMonto',
+  '--default-fijo': 'defaultMontoFijo',
+  '--default-corrido': 'defaultMontoCorrido',
+  '--timeout': 'timeout',
+};
+
+/** Opciones booleanas de `ParserConfig` y el valor que asignan */
+const BOOLEAN_FLAGS: Record<string, [keyof ParserConfig, boolean]> = {
+  '--strict': ['strictMode', true],
+  '--no-expand': ['autoExpand', false],
+  '--no-validate-totals': ['validateTotals', false],
+  '--no-number-words': ['numberWords', false],
+  '--allow-negative': ['allowNegative', true],
+  '--debug': ['debug', true],
+};
+
+export const USAGE = `Uso: loteria <comando> [archivo] [opciones]
+
+Comandos:
+  parse       Parsea las jugadas y muestra el resultado
+  validate    Valida el formato (sale con código 1 si hay errores)
+  structure   Muestra la estructura de bloques y líneas
+  analyze     Analiza el resultado y muestra el resumen ejecutivo
+  settle      Liquida las jugadas contra un sorteo
+  corpus      Compara un directorio de casos con sus resultados esperados
+
+Sin archivo (o con "-") se lee la entrada estándar.
+
+Opciones:
+  --json                    Salida JSON (para otros programas)
+  --format <pretty|json>    Formato de salida (por defecto: pretty)
+  --config <archivo>        Configuración del parser en JSON
+  --reglas <nombre|archivo> Perfil de reglas de la casa
+  --diccionario <archivo>   Diccionario de alias y correcciones (repetible)
+  --colector <nombre>       Colector de la jugada (elige sus diccionarios)
+  --strict                  Modo estricto
+  --no-expand               No expandir patrones
+  --no-validate-totals      No validar los totales declarados
+  --no-number-words         No convertir números en letras ("veinticinco")
+  --allow-negative          Permitir montos negativos
+  --max-jugadores <n>       Máximo de jugadores
+  --max-monto <n>           Monto máximo por apuesta
+  --default-fijo <n>        Monto fijo por defecto
+  --default-corrido <n>     Monto corrido por defecto
+  --timeout <ms>            Límite de tiempo del parseo (0: sin límite)
+  --debug                   Información de depuración
+
+Sorteo (settle):
+  --centena <nnn>           Número de tres cifras (el fijo son sus dos últimas)
+  --fijo <nn>               Fijo (si no se indica la centena)
+  --corridos <nn,nn>        Los dos corridos
+
+Corpus (corpus <directorio>):
+  --accept                  Guarda el resultado actual como esperado
+
+  -h, --help                Muestra esta ayuda
+  -v, --version             Muestra la versión
+`;
+
+/**
+ * Interpreta los argumentos de la línea de comandos (sin `node` ni el script)
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    command: null,
+    file: null,
+    format: 'pretty',
+    config: {},
+    configFile: null,
+    reglas: null,
+    diccionarios: [],
+    sorteo: {},
+    accept: false,
+    help: false,
+    version: false,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inline] = arg.startsWith('--') && arg.includes('=') ? splitOnce(arg) : [arg];
+    const value = (): string => {
+      const next = inline ?? argv[++i];
+      if (next === undefined) {
+        throw new UsageError(`Falta el valor de ${flag}`);
+      }
+      return next;
+    };
+
+    if (flag in NUMERIC_FLAGS) {
+      const raw = value();
+      const number = Number(raw);
+      if (raw.trim() === '' || !Number.isFinite(number)) {
+        throw new UsageError(`${flag} debe ser un número: "${raw}"`);
+      }
+      Object.assign(args.config, { [NUMERIC_FLAGS[flag]]: number });
+    } else if (flag in BOOLEAN_FLAGS) {
+      const [key, enabled] = BOOLEAN_FLAGS[flag];
+      Object.assign(args.config, { [key]: enabled });
+    } else {
+      switch (flag) {
+        case '-h':
+        case '--help':
+          args.help = true;
+          break;
+        case '-v':
+        case '--version':
+          args.version = true;
+          break;
+        case '--json':
+          args.format = 'json';
+          break;
+        case '--accept':
+          args.accept = true;
+          break;
+        case '--format': {
+          const format = value();
+          if (format !== 'pretty' && format !== 'json') {
+            throw new UsageError(`Formato desconocido: ${format}`);
+          }
+          args.format = format;
+          break;
+        }
+        case '--config':
+          args.configFile = value();
+          break;
+        case '--reglas':
+          args.reglas = value();
+          break;
+        case '--diccionario':
+          args.diccionarios.push(value());
+          break;
+        case '--colector':
+          args.config.colector = value();
+          break;
+        case '--centena':
+          args.sorteo.centena = value();
+          break;
+        case '--fijo':
+          args.sorteo.fijo = value();
+          break;
+        case '--corridos':
+          args.sorteo.corridos = value()
+            .split(/[,\s]+/)
+            .filter(Boolean);
+          break;
+        default:
+          if (flag.startsWith('-') && flag !== '-') {
+            throw new UsageError(`Opción desconocida: ${flag}`);
+          }
+          positional.push(flag);
+      }
+    }
+  }
+
+  const [command, file, ...rest] = positional;
+  if (command !== undefined) {
+    if (!COMMANDS.includes(command as CliCommand)) {
+      throw new UsageError(`Comando desconocido: ${command}`);
+    }
+    args.command = command as CliCommand;
+  }
+  if (rest.length > 0) {
+    throw new UsageError(`Argumentos de más: ${rest.join(' ')}`);
+  }
+  args.file = file === undefined || file === '-' ? null : file;
+
+  return args;
+}
+
+function splitOnce(arg: string): [string, string] {
+  const index = arg.indexOf('=');
+  return [arg.slice(0, index), arg.slice(index + 1)];
+}
@@ -0,0 +1,235 @@
+import {
+  DetalleApuesta,
+  Diagnostic,
+  LiquidacionResult,
+  ParseResult,
+  ValidationResult,
+} from '../types';
+import { CorpusReport } from '../corpus';
+import { AnalysisResult, getExecutiveSummary } from '../utils/analyzers';
+import {
+  formatCurrency,
+  formatDuration,
+  formatNumbersList,
+  formatPercentage,
+  jsonReplacer,
+} from '../utils/formatters';
+
+/**
+ * Salida legible de los comandos de la CLI (texto plano, una línea por dato)
+ */
+
+/**
+ * JSON de un valor del parser (los `Set` de los metadatos se convierten en arrays)
+ */
+export function toJSON(value: unknown): string {
+  return JSON.stringify(value, jsonReplacer, 2);
+}
+
+export function formatParseResult(result: ParseResult, source: string, currency = '$'): string {
+  const lines: string[] = [];
+
+  for (const jugada of result.jugadas) {
+    const declarado =
+      jugada.totalDeclarado === null
+        ? ''
+        : ` (declarado ${formatCurrency(jugada.totalDeclarado, currency)})`;
+    lines.push(
+      `${jugada.isValid ? '✓' : '✗'} ${jugada.jugador}: ${formatCurrency(jugada.totalCalculado, currency)}${declarado}`
+    );
+    for (const detalle of jugada.detalles) {
+      lines.push(`    ${formatDetalle(detalle, currency)}`);
+    }
+    for (const ambigua of jugada.ambiguedades ?? []) {
+      const otras = ambigua.interpretaciones
+        .slice(1)
+        .map(i => `${i.descripcion} (${formatCurrency(i.total, currency)})`);
+      lines.push(
+        `    ? Línea ${ambigua.lineaNumero} "${ambigua.texto}" también: ${otras.join('; ')}`
+      );
+    }
+    for (const edicion of jugada.ediciones ?? []) {
+      lines.push(
+        `    ~ ${position(source, edicion.span.start)} "${edicion.original}" → "${edicion.reemplazo}" (${edicion.regla})`
+      );
+    }
+  }
+
+  const { summary, metadata } = result;
+  lines.push(
+    '',
+    `Jugadas: ${summary.totalJugadas}`,
+    `Total calculado: ${formatCurrency(summary.totalCalculado, currency)}`,
+    `Total declarado: ${formatCurrency(summary.totalDeclarado, currency)}`,
+    `Confianza: ${formatPercentage(summary.confidence)}`,
+    ...(summary.confidenceFactors ?? []).map(
+      f => `    ${f.aporte > 0 ? '+' : ''}${f.aporte} ${f.descripcion}`
+    ),
+    `Tiempo: ${formatDuration(metadata.parseTime)}`
+  );
+  if (metadata.timedOut) {
+    lines.push('Resultado parcial: el parseo se interrumpió');
+  }
+
+  lines.push(...formatDiagnostics(metadata.diagnostics, source));
+  return lines.join('\n');
+}
+
+export function formatValidation(validation: ValidationResult, source: string): string {
+  const lines = [validation.valid ? '✓ Formato válido' : '✗ Formato inválido'];
+  const diagnostics = (validation.diagnostics ?? []).filter(d => d.severity !== 'info');
+
+  lines.push(...formatDiagnostics(diagnostics, source));
+  if (validation.suggestions.length > 0) {
+    lines.push('', 'Sugerencias:', ...validation.suggestions.map(s => `  - ${s}`));
+  }
+  return lines.join('\n');
+}
+
+export function formatStructure(structure: StructureBloque[]): string {
+  const lines: string[] = [];
+
+  for (const bloque of structure) {
+    lines.push(`#${bloque.id} ${bloque.jugador} (${bloque.lineCount} líneas)`);
+    for (const linea of bloque.lines) {
+      const marcas = [
+        linea.hasNumbers ? 'números' : null,
+        linea.hasAmounts ? 'montos' : null,
+        ...linea.patternTypes,
+      ].filter(Boolean);
+      lines.push(
+        `  ${String(linea.number).padStart(3)}  ${linea.content}${marcas.length ? `  [${marcas.join(', ')}]` : ''}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatAnalysis(analysis: AnalysisResult): string {
+  const summary = getExecutiveSummary(analysis);
+  const lines = [summary.overview, ''];
+
+  const width = Math.max(...summary.keyMetrics.map(m => m.label.length));
+  lines.push(...summary.keyMetrics.map(m => `${m.label.padEnd(width)}  ${m.value}`));
+  lines.push(`${'Riesgo'.padEnd(width)}  ${summary.riskLevel}`);
+
+  if (analysis.numbers.mostCommon.length > 0) {
+    lines.push(
+      '',
+      `Más jugados: ${analysis.numbers.mostCommon.map(n => `${n.number} (${n.count})`).join(', ')}`
+    );
+  }
+  if (summary.recommendations.length > 0) {
+    lines.push('', 'Recomendaciones:', ...summary.recommendations.map(r => `  - ${r}`));
+  }
+  if (analysis.warnings.length > 0) {
+    lines.push('', 'Advertencias:', ...analysis.warnings.map(w => `  - ${w}`));
+  }
+
+  return lines.join('\n');
+}
+
+export function formatSettlement(liquidacion: LiquidacionResult, currency = '$'): string {
+  const { sorteo } = liquidacion;
+  const lines = [`Sorteo: ${sorteo.centena ?? sorteo.fijo} - ${sorteo.corridos.join(' - ')}`, ''];
+
+  for (const jugada of liquidacion.jugadas) {
+    lines.push(
+      `${jugada.jugador}: apostó ${formatCurrency(jugada.totalApostado, currency)}, ` +
+        `gana ${formatCurrency(jugada.totalPremio, currency)}`
+    );
+    for (const premio of jugada.detalles.filter(d => d.premio > 0)) {
+      const ganadores = [
+        ...premio.numerosGanadores,
+        ...premio.paresGanadores.map(p => p.join('*')),
+      ];
+      lines.push(
+        `    ${premio.tipo} ${ganadores.join(', ')}: ${formatCurrency(premio.premio, currency)}`
+      );
+    }
+  }
+
+  lines.push(
+    '',
+    `Total apostado: ${formatCurrency(liquidacion.totalApostado, currency)}`,
+    `Total premios: ${formatCurrency(liquidacion.totalPremios, currency)}`,
+    `Balance: ${formatCurrency(liquidacion.balance, currency)}`
+  );
+  return lines.join('\n');
+}
+
+export function formatCorpusReport(report: CorpusReport): string {
+  const marcas = { pass: '✓', fail: '✗', new: '?', accepted: '↻' };
+  const lines: string[] = [];
+
+  for (const caso of report.cases) {
+    const nota =
+      caso.status === 'new'
+        ? ' (sin expected.json)'
+        : caso.status === 'accepted'
+          ? ' (expected.json actualizado)'
+          : '';
+    lines.push(`${marcas[caso.status]} ${caso.name}${nota}`);
+    for (const diff of caso.differences) {
+      lines.push(
+        `    ${diff.path}: esperado ${JSON.stringify(diff.expected)}, obtenido ${JSON.stringify(diff.actual)}`
+      );
+    }
+  }
+
+  lines.push(
+    '',
+    `Casos: ${report.cases.length}, correctos: ${report.passed}, ` +
+      `fallidos: ${report.failed}, actualizados: ${report.accepted}`
+  );
+  return lines.join('\n');
+}
+
+/** Forma de cada bloque devuelto por `Parser.extractStructure` */
+export interface StructureBloque {
+  id: number;
+  jugador: string;
+  lineCount: number;
+  lines: Array<{
+    number: number;
+    content: string;
+    hasNumbers: boolean;
+    hasAmounts: boolean;
+    patternTypes: string[];
+  }>;
+}
+
+function formatDetalle(detalle: DetalleApuesta, currency: string): string {
+  const numeros = detalle.pares
+    ? formatNumbersList(detalle.pares.map(p => p.join('*')))
+    : formatNumbersList(detalle.numeros);
+  const unidades = detalle.combinaciones ?? detalle.numeros.length;
+  return (
+    `${detalle.tipo} ${numeros}: ${unidades} × ${formatCurrency(detalle.montoUnitario, currency)}` +
+    ` = ${formatCurrency(detalle.monto, currency)}`
+  );
+}
+
+function formatDiagnostics(diagnostics: Diagnostic[], source: string): string[] {
+  if (diagnostics.length === 0) return [];
+
+  return [
+    '',
+    ...diagnostics.map(d => {
+      const codigo = d.code ? ` ${d.code}` : '';
+      const posicion = d.span ? ` (${position(source, d.span.start)})` : '';
+      return `${d.severity === 'error' ? 'error' : 'aviso'}${codigo}${posicion}: ${d.message}`;
+    }),
+  ];
+}
+
+/**
+ * "línea:columna" (desde 1) de un offset del texto original
+ */
+function position(source: string, offset: number): string {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return `${line}:${column}`;
+}
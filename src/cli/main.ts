@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs';
+import { Parser } from '../parser';
+import { VERSION } from '../index';
+import { ParserConfig, ReglasCasa, ResultadoSorteo } from '../types';
+import { HouseRulesRegistry, loadHouseRules } from '../house-rules';
+import { loadCorrectionDictionary } from '../corrections';
+import { SettlementEngine } from '../settlement';
+import { runCorpus } from '../corpus';
+import { DEFAULT_HOUSE_RULES } from '../constants/payouts';
+import { analyzeParseResult, getExecutiveSummary } from '../utils/analyzers';
+import { ParserError, ValidationError } from '../utils/errors';
+import { CliArgs, USAGE, UsageError, parseArgs } from './args';
+import {
+  StructureBloque,
+  formatAnalysis,
+  formatCorpusReport,
+  formatParseResult,
+  formatSettlement,
+  formatStructure,
+  formatValidation,
+  toJSON,
+} from './format';
+
+/** Entrada y salida de la CLI (reemplazable en pruebas) */
+export interface CliIO {
+  readFile(path: string): Promise<string>;
+  readStdin(): Promise<string>;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+export const nodeIO: CliIO = {
+  readFile: path => fs.readFile(path, 'utf8'),
+  readStdin: async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  },
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+/**
+ * Ejecuta la CLI y devuelve el código de salida:
+ * 0 correcto, 1 errores en la entrada, 2 uso incorrecto
+ */
+export async function main(argv: string[], io: CliIO = nodeIO): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    return usageError(error, io);
+  }
+
+  if (args.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (args.version) {
+    io.stdout(`${VERSION}\n`);
+    return 0;
+  }
+  if (!args.command) {
+    io.stderr(USAGE);
+    return 2;
+  }
+
+  let parser: Parser | null = null;
+  try {
+    const reglas = args.reglas ? await loadReglas(args.reglas, io) : undefined;
+    const config = await loadConfig(args, io);
+
+    if (args.command === 'corpus') {
+      if (!args.file) {
+        throw new UsageError('corpus requiere el directorio de casos');
+      }
+      const report = await runCorpus(args.file, {
+        config: { ...config, ...(reglas && { reglas }) },
+        accept: args.accept,
+      });
+      io.stdout(`${args.format === 'json' ? toJSON(report) : formatCorpusReport(report)}\n`);
+      return report.failed > 0 ? 1 : 0;
+    }
+
+    // Sorteo antes de leer la entrada, para no esperar stdin si faltan datos
+    const sorteo = args.command === 'settle' ? buildSorteo(args) : null;
+    const text = args.file ? await io.readFile(args.file) : await io.readStdin();
+
+    parser = new Parser({ ...config, ...(reglas && { reglas }) });
+    const json = args.format === 'json';
+    const print = (value: unknown, pretty: () => string) =>
+      io.stdout(`${json ? toJSON(value) : pretty()}\n`);
+
+    switch (args.command) {
+      case 'parse': {
+        const result = parser.parse(text);
+        print(result, () => formatParseResult(result, text, config.currencySymbol));
+        return result.success ? 0 : 1;
+      }
+
+      case 'validate': {
+        const validation = parser.validate(text);
+        print(validation, () => formatValidation(validation, text));
+        return validation.valid ? 0 : 1;
+      }
+
+      case 'structure': {
+        const structure = parser.extractStructure(text) as StructureBloque[];
+        print(structure, () => formatStructure(structure));
+        return 0;
+      }
+
+      case 'analyze': {
+        const analysis = analyzeParseResult(parser.parse(text));
+        print({ analysis, summary: getExecutiveSummary(analysis) }, () => formatAnalysis(analysis));
+        return 0;
+      }
+
+      case 'settle': {
+        const engine = SettlementEngine.fromHouseRules(reglas ?? DEFAULT_HOUSE_RULES);
+        const liquidacion = engine.settle(parser.parse(text), sorteo as ResultadoSorteo);
+        print(liquidacion, () => formatSettlement(liquidacion, config.currencySymbol));
+        return 0;
+      }
+
+      default:
+        throw new UsageError(`Comando desconocido: ${String(args.command)}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      return usageError(error, io);
+    }
+    io.stderr(`${describeError(error)}\n`);
+    return 1;
+  } finally {
+    await parser?.cleanup();
+  }
+}
+
+async function loadConfig(args: CliArgs, io: CliIO): Promise<Partial<ParserConfig>> {
+  const base: Partial<ParserConfig> = args.configFile
+    ? (JSON.parse(await io.readFile(args.configFile)) as Partial<ParserConfig>)
+    : {};
+  const diccionarios = await Promise.all(
+    args.diccionarios.map(async file => loadCorrectionDictionary(await io.readFile(file)))
+  );
+  // Una sola ejecución: la caché no aporta nada
+  return {
+    cache: { enabled: false, ttl: 0, maxSize: 0 },
+    ...base,
+    ...args.config,
+    ...(diccionarios.length > 0 && {
+      diccionarios: [...(base.diccionarios ?? []), ...diccionarios],
+    }),
+  };
+}
+
+/**
+ * Perfil registrado con ese nombre o, si no existe, archivo JSON
+ */
+async function loadReglas(perfil: string, io: CliIO): Promise<ReglasCasa> {
+  const registrado = HouseRulesRegistry.getInstance().get(perfil);
+  return registrado ?? loadHouseRules(await io.readFile(perfil));
+}
+
+function buildSorteo(args: CliArgs): ResultadoSorteo {
+  const { centena, fijo, corridos } = args.sorteo;
+  if (!centena && !fijo) {
+    throw new UsageError('settle requiere --centena o --fijo');
+  }
+  if (!corridos || corridos.length !== 2) {
+    throw new UsageError('settle requiere --corridos con dos números (p. ej. --corridos 45,67)');
+  }
+
+  return {
+    ...(centena && { centena }),
+    fijo: fijo ?? (centena as string).slice(-2),
+    corridos: [corridos[0], corridos[1]],
+  };
+}
+
+function usageError(error: unknown, io: CliIO): number {
+  io.stderr(`${describeError(error)}\n\n${USAGE}`);
+  return 2;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ValidationError && error.validationErrors.length > 0) {
+    return [error.message, ...error.validationErrors.map(e => `  - ${e}`)].join('\n');
+  }
+  if (error instanceof ParserError || error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
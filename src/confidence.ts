@@ -0,0 +1,284 @@
+import Decimal from 'decimal.js';
+import {
+  Confianza,
+  ConfianzaJugada,
+  ConfianzaLinea,
+  FactorConfianza,
+  Jugada,
+  SourceSpan,
+  ValidationResult,
+} from './types';
+
+/**
+ * Peso de cada factor de confianza. Los que dependen de una cantidad se
+ * multiplican por ella; los de proporción, por la fracción de jugadas afectadas.
+ */
+export const CONFIDENCE_WEIGHTS = {
+  // Resultado
+  validationError: -0.1,
+  validationWarning: -0.05,
+  invalidJugadas: -0.3,
+  totalsMatched: 0.2,
+  lineWithoutAmount: -0.05,
+
+  // Jugada
+  totalMismatch: -0.3,
+  totalMatched: 0.2,
+  noDeclaredTotal: -0.1,
+  unparsedLine: -0.1,
+  noBets: -1,
+  timedOut: -0.5,
+
+  // Línea
+  lineError: -1,
+  inheritedAmount: -0.3,
+  unknownWords: -0.1,
+} as const;
+
+const FACTORES_VALIDACION = ['VALIDATION_ERRORS', 'VALIDATION_WARNINGS'];
+
+/** Lo que el parser observó al procesar una línea de apuestas */
+export interface LineaObservada {
+  lineaNumero: number;
+  texto: string;
+  span?: SourceSpan;
+
+  /** Código del error que impidió procesarla */
+  error?: string;
+
+  /** La línea no declara monto y hereda el de la anterior */
+  sinMonto?: boolean;
+
+  /** Palabras que no se reconocieron */
+  desconocidos?: string[];
+}
+
+/**
+ * Confianza de una línea
+ */
+export function confianzaLinea(linea: LineaObservada): ConfianzaLinea {
+  const factores: FactorConfianza[] = [];
+  const w = CONFIDENCE_WEIGHTS;
+
+  if (linea.error) {
+    factores.push(factor('LINE_ERROR', `No se pudo procesar (${linea.error})`, w.lineError));
+  }
+  if (linea.sinMonto) {
+    factores.push(
+      factor('INHERITED_AMOUNT', 'Sin monto: usa el de la línea anterior', w.inheritedAmount)
+    );
+  }
+  if (linea.desconocidos?.length) {
+    factores.push(
+      factor(
+        'UNKNOWN_WORDS',
+        `Palabras no reconocidas: ${linea.desconocidos.join(', ')}`,
+        w.unknownWords
+      )
+    );
+  }
+
+  const { lineaNumero, texto, span } = linea;
+  return { lineaNumero, texto, ...(span && { span }), ...combinar(factores) };
+}
+
+/**
+ * Confianza de una jugada a partir de su total y de la confianza de sus líneas
+ */
+export function confianzaJugada(jugada: Jugada, lineas: ConfianzaLinea[]): ConfianzaJugada {
+  const factores: FactorConfianza[] = [];
+  const w = CONFIDENCE_WEIGHTS;
+
+  if (jugada.detalles.length === 0) {
+    factores.push(factor('NO_BETS', 'No se encontraron apuestas', w.noBets));
+  }
+  if (jugada.metadata.timedOut) {
+    factores.push(factor('TIMED_OUT', 'El parseo se interrumpió', w.timedOut));
+  }
+
+  if (jugada.totalDeclarado === null) {
+    factores.push(factor('NO_DECLARED_TOTAL', 'Sin total declarado', w.noDeclaredTotal));
+  } else if (coincide(jugada)) {
+    factores.push(factor('TOTAL_MATCHED', 'El total declarado coincide', w.totalMatched));
+  } else {
+    factores.push(
+      factor(
+        'TOTAL_MISMATCH',
+        `El total no coincide (declarado ${jugada.totalDeclarado}, calculado ${jugada.totalCalculado})`,
+        w.totalMismatch
+      )
+    );
+  }
+
+  const conError = contar(lineas, 'LINE_ERROR');
+  if (conError > 0) {
+    factores.push(
+      factor(
+        'UNPARSED_LINES',
+        plural(conError, 'línea sin procesar', 'líneas sin procesar'),
+        conError * w.unparsedLine
+      )
+    );
+  }
+  const sinMonto = contar(lineas, 'INHERITED_AMOUNT');
+  if (sinMonto > 0) {
+    factores.push(
+      factor(
+        'LINES_WITHOUT_AMOUNT',
+        plural(sinMonto, 'línea sin monto', 'líneas sin monto'),
+        sinMonto * w.lineWithoutAmount
+      )
+    );
+  }
+
+  return { ...combinar(factores), lineas };
+}
+
+/**
+ * Confianza del resultado completo
+ */
+export function confianzaResultado(jugadas: Jugada[], validation: ValidationResult): Confianza {
+  const factores: FactorConfianza[] = [];
+  const w = CONFIDENCE_WEIGHTS;
+
+  if (validation.errors.length > 0) {
+    factores.push(
+      factor(
+        'VALIDATION_ERRORS',
+        plural(validation.errors.length, 'error de validación', 'errores de validación'),
+        validation.errors.length * w.validationError
+      )
+    );
+  }
+  if (validation.warnings.length > 0) {
+    factores.push(
+      factor(
+        'VALIDATION_WARNINGS',
+        plural(
+          validation.warnings.length,
+          'advertencia de validación',
+          'advertencias de validación'
+        ),
+        validation.warnings.length * w.validationWarning
+      )
+    );
+  }
+
+  return confianzaJugadas(jugadas, factores);
+}
+
+/**
+ * Vuelve a calcular la confianza del resultado cuando cambian sus jugadas:
+ * conserva los factores de validación de `anteriores` y recalcula los demás
+ */
+export function recalcularConfianza(
+  jugadas: Jugada[],
+  anteriores: FactorConfianza[] = []
+): Confianza {
+  return confianzaJugadas(
+    jugadas,
+    anteriores.filter(f => FACTORES_VALIDACION.includes(f.codigo))
+  );
+}
+
+/**
+ * Factores del resultado que dependen de sus jugadas
+ */
+function confianzaJugadas(jugadas: Jugada[], factores: FactorConfianza[]): Confianza {
+  const w = CONFIDENCE_WEIGHTS;
+  const total = jugadas.length;
+  const invalidas = jugadas.filter(j => !j.isValid).length;
+  if (invalidas > 0) {
+    factores.push(
+      factor(
+        'TOTAL_MISMATCH',
+        total === 1
+          ? 'El total no coincide'
+          : `${invalidas} de ${total} jugadas con total que no coincide`,
+        (invalidas / total) * w.invalidJugadas
+      )
+    );
+  }
+
+  const sinMonto = jugadas.reduce(
+    (sum, j) => sum + contar(j.confianza?.lineas ?? [], 'INHERITED_AMOUNT'),
+    0
+  );
+  if (sinMonto > 0) {
+    factores.push(
+      factor(
+        'LINES_WITHOUT_AMOUNT',
+        plural(sinMonto, 'línea sin monto', 'líneas sin monto'),
+        sinMonto * w.lineWithoutAmount
+      )
+    );
+  }
+
+  const coinciden = jugadas.filter(j => j.totalDeclarado !== null && coincide(j)).length;
+  if (coinciden > 0) {
+    factores.push(
+      factor(
+        'TOTALS_MATCHED',
+        coinciden === total
+          ? 'Todos los totales declarados coinciden'
+          : `${coinciden} de ${total} totales declarados coinciden`,
+        (coinciden / total) * w.totalsMatched
+      )
+    );
+  }
+
+  // El resultado no puede ser más confiable que su jugada más dudosa
+  // (líneas sin procesar, jugadas sin apuestas)
+  const menor = Math.min(...jugadas.map(j => j.confianza?.valor ?? 1));
+  const valor = sumar(factores);
+  if (Decimal.min(1, valor).greaterThan(menor)) {
+    factores.push(
+      factor(
+        'LOWEST_JUGADA',
+        total === 1
+          ? `La jugada tiene confianza ${menor}`
+          : `La jugada menos confiable tiene confianza ${menor}`,
+        new Decimal(menor).minus(valor).toNumber()
+      )
+    );
+  }
+
+  return combinar(factores);
+}
+
+/**
+ * Jugadas de menor a mayor confianza (para revisar primero las dudosas)
+ */
+export function sortByConfidence(jugadas: Jugada[]): Jugada[] {
+  return [...jugadas].sort((a, b) => (a.confianza?.valor ?? 1) - (b.confianza?.valor ?? 1));
+}
+
+function factor(codigo: string, descripcion: string, aporte: number): FactorConfianza {
+  return { codigo, descripcion, aporte: new Decimal(aporte).toDecimalPlaces(4).toNumber() };
+}
+
+/**
+ * Confianza de 1 más los aportes, entre 0 y 1
+ */
+function combinar(factores: FactorConfianza[]): Confianza {
+  const valor = sumar(factores);
+  return { valor: Decimal.min(1, Decimal.max(0, valor)).toNumber(), factores };
+}
+
+function sumar(factores: FactorConfianza[]): Decimal {
+  return factores.reduce((sum, f) => sum.plus(f.aporte), new Decimal(1));
+}
+
+function coincide(jugada: Jugada): boolean {
+  return (
+    jugada.totalDeclarado !== null && Math.abs(jugada.totalCalculado - jugada.totalDeclarado) < 0.01
+  );
+}
+
+function contar(lineas: ConfianzaLinea[], codigo: string): number {
+  return lineas.filter(l => l.factores.some(f => f.codigo === codigo)).length;
+}
+
+function plural(n: number, singular: string, varios: string): string {
+  return `${n} ${n === 1 ? singular : varios}`;
+}
@@ -0,0 +1,68 @@
+/**
+ * Códigos estables de diagnóstico.
+ *
+ * El código identifica el problema y no cambia aunque cambie el texto del mensaje.
+ * LP1xxx: líneas, LP2xxx: texto completo, LP3xxx: jugadas y detalles,
+ * LP4xxx: parser, LP5xxx: plugins.
+ */
+export const DIAGNOSTIC_CODES = {
+  // Líneas
+  NO_AMOUNT: 'LP1001_NO_AMOUNT',
+  NO_NUMBERS: 'LP1002_NO_NUMBERS',
+  INVALID_NUMBER: 'LP1003_INVALID_NUMBER',
+  NEGATIVE_AMOUNT: 'LP1004_NEGATIVE_AMOUNT',
+  EXCESSIVE_AMOUNT: 'LP1005_EXCESSIVE_AMOUNT',
+  ZERO_AMOUNT: 'LP1006_ZERO_AMOUNT',
+  DUPLICATE_NUMBERS: 'LP1007_DUPLICATE_NUMBERS',
+  UNRECOGNIZED_PATTERN: 'LP1008_UNRECOGNIZED_PATTERN',
+  PARLE_MIN_NUMBERS: 'LP1009_PARLE_MIN_NUMBERS',
+  PARLE_NO_AMOUNT: 'LP1010_PARLE_NO_AMOUNT',
+  PARLE_FORMAT: 'LP1011_PARLE_FORMAT',
+  INVALID_TOTAL: 'LP1012_INVALID_TOTAL',
+  NAME_TOO_LONG: 'LP1013_NAME_TOO_LONG',
+  NAME_TOO_SHORT: 'LP1014_NAME_TOO_SHORT',
+  DASHED_NUMBERS: 'LP1015_DASHED_NUMBERS',
+  CURRENCY_WORD: 'LP1016_CURRENCY_WORD',
+  AMBIGUOUS_LINE: 'LP1017_AMBIGUOUS_LINE',
+  CORRECTION_APPLIED: 'LP1018_CORRECTION_APPLIED',
+
+  // Texto completo
+  EMPTY_TEXT: 'LP2001_EMPTY_TEXT',
+  NO_PLAYERS: 'LP2002_NO_PLAYERS',
+  TOO_MANY_PLAYERS: 'LP2003_TOO_MANY_PLAYERS',
+  MULTIPLE_TOTALS: 'LP2004_MULTIPLE_TOTALS',
+  UNPROCESSED_LINES: 'LP2005_UNPROCESSED_LINES',
+  NO_AMOUNTS: 'LP2006_NO_AMOUNTS',
+
+  // Jugadas y detalles
+  UNKNOWN_PLAYER: 'LP3001_UNKNOWN_PLAYER',
+  NEGATIVE_TOTAL: 'LP3002_NEGATIVE_TOTAL',
+  TOTAL_EXCEEDS_MAX: 'LP3003_TOTAL_EXCEEDS_MAX',
+  TOTAL_MISMATCH: 'LP3004_TOTAL_MISMATCH',
+  NO_BETS: 'LP3005_NO_BETS',
+  INVALID_BET_TYPE: 'LP3101_INVALID_BET_TYPE',
+  BET_WITHOUT_NUMBERS: 'LP3102_BET_WITHOUT_NUMBERS',
+  INVALID_AMOUNT: 'LP3103_INVALID_AMOUNT',
+  INVALID_UNIT_AMOUNT: 'LP3104_INVALID_UNIT_AMOUNT',
+  INVALID_COMBINATIONS: 'LP3105_INVALID_COMBINATIONS',
+  INVALID_CENTENA: 'LP3106_INVALID_CENTENA',
+  SMALL_AMOUNT: 'LP3107_SMALL_AMOUNT',
+  BELOW_MIN_BET: 'LP3108_BELOW_MIN_BET',
+  ABOVE_MAX_BET: 'LP3109_ABOVE_MAX_BET',
+  EXPOSURE_LIMIT: 'LP3110_EXPOSURE_LIMIT',
+
+  // Parser
+  LINE_PARSE_ERROR: 'LP4001_LINE_PARSE_ERROR',
+  BLOCK_PARSE_ERROR: 'LP4002_BLOCK_PARSE_ERROR',
+  PARSE_FAILED: 'LP4003_PARSE_FAILED',
+  SYNTAX_VALIDATION_FAILED: 'LP4004_SYNTAX_VALIDATION_FAILED',
+  TIMEOUT: 'LP4005_TIMEOUT',
+  ABORTED: 'LP4006_ABORTED',
+
+  // Plugins (mensajes sin código propio)
+  PLUGIN_ERROR: 'LP5001_PLUGIN_ERROR',
+  PLUGIN_WARNING: 'LP5002_PLUGIN_WARNING',
+  PLUGIN_SUGGESTION: 'LP5003_PLUGIN_SUGGESTION',
+} as const;
+
+export type DiagnosticCode = (typeof DIAGNOSTIC_CODES)[keyof typeof DIAGNOSTIC_CODES];
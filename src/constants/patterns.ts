@@ -21,7 +21,7 @@ export const PATTERNS = {
   DECENA: /\bd\s*(\d{1,2})\b/gi,
   TERMINAL: /\bt\s*(\d{1,2})\b/gi,
   PARES_RELATIVOS: /(\d{2,4})\s*pr\s*(\d{1,3})/gi,
-  CENTENAS_TODAS: /(.+?)\s*por\s*todas?\s*(?:las?\s*)?centenas?(?:\s+con\s+(\d+(?:[.,]\d+)?))?/gi,
+  CENTENAS_TODAS: /^(.+?)\s*por\s*todas?\s*(?:las?\s*)?centenas?(?:\s+con\s+(\d+(?:[.,]\d+)?))?/gim,
   
   // Apuestas especiales
   PARLE_EXPLICITO: /(\d{2,4})\s*[*x]\s*(\d{2,4})/gi,
@@ -51,6 +51,29 @@ export const PATTERNS = {
   CARACTERES_INVALIDOS: /[^\d\s\n.,a-záéíóúñüA-ZÁÉÍÓÚÑÜ\-*xconypdealtprv]/g
 } as const;
 
+/**
+ * Palabras clave que la normalización de caracteres no altera aunque vayan
+ * pegadas a un número ("total1o" -> "total10", no "tota110")
+ */
+export const PROTECTED_KEYWORDS: readonly string[] = [
+  'con',
+  'de',
+  'al',
+  'parle',
+  'candado',
+  'total',
+  'fijo',
+  'corrido',
+  'por',
+  'todas',
+  'todos',
+  'las',
+  'centenas',
+  'centena',
+  'pesos',
+  'peso'
+];
+
 /**
  * Tipos de apuesta y sus patrones asociados
  */
@@ -0,0 +1,30 @@
+import { ReglasCasa, TablaPagos } from '../types';
+
+/**
+ * Tabla de pagos por defecto: veces el monto unitario que paga cada acierto.
+ *
+ * El parlé y el candado pagan por cada par acertado; los patrones (volteo,
+ * rango, especial) se liquidan como fijos de sus números expandidos, con el
+ * pago del fijo, y no usan su propia entrada.
+ */
+export const DEFAULT_PAYOUT_TABLE: TablaPagos = {
+  fijo: 75,
+  corrido: 25,
+  parle: 1000,
+  centena: 500,
+  candado: 1000,
+  especial: 0,
+  volteo: 0,
+  rango: 0,
+};
+
+/**
+ * Reglas de la casa por defecto (las que asume el parser si no se indican otras)
+ */
+export const DEFAULT_HOUSE_RULES: ReglasCasa = {
+  nombre: 'estandar',
+  pagos: DEFAULT_PAYOUT_TABLE,
+  limites: {},
+  candadoRepartido: true,
+  centenaCompuesta: 'fijo-corrido',
+};
@@ -0,0 +1,239 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Parser } from './parser';
+import { DetalleApuesta, ParseResult, ParserConfig } from './types';
+import { ValidationError } from './utils/errors';
+
+/**
+ * Corpus de regresión: un directorio por caso con `input.txt`, `expected.json`
+ * y, opcionalmente, `config.json` con la configuración del parser.
+ *
+ * `expected.json` puede ser parcial: solo se comparan los campos que declara.
+ */
+
+/** Contenido de `expected.json` */
+export interface CorpusExpectation {
+  totalCalculado: number;
+  totalDeclarado: number;
+  jugadas: Array<{
+    jugador: string;
+    totalCalculado: number;
+    totalDeclarado: number | null;
+    isValid: boolean;
+    detalles: Array<
+      Pick<
+        DetalleApuesta,
+        'tipo' | 'numeros' | 'montoUnitario' | 'monto' | 'combinaciones' | 'pares'
+      >
+    >;
+  }>;
+  /** Códigos de diagnóstico en el orden en que se emiten */
+  diagnostics: string[];
+}
+
+export interface CorpusCase {
+  name: string;
+  dir: string;
+  input: string;
+  expected: Partial<CorpusExpectation> | null;
+  config: Partial<ParserConfig>;
+}
+
+export interface CorpusDifference {
+  /** Ruta del campo, p. ej. `jugadas[0].detalles[1].monto` */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface CorpusCaseResult {
+  name: string;
+  /** `new`: el caso no tiene `expected.json`; `accepted`: se reescribió con el resultado actual */
+  status: 'pass' | 'fail' | 'new' | 'accepted';
+  differences: CorpusDifference[];
+  actual: CorpusExpectation;
+}
+
+export interface CorpusReport {
+  cases: CorpusCaseResult[];
+  passed: number;
+  failed: number;
+  accepted: number;
+}
+
+export interface CorpusOptions {
+  /** Configuración base del parser (la de cada caso tiene prioridad) */
+  config?: Partial<ParserConfig>;
+
+  /** Reescribe `expected.json` de los casos que fallan o no lo tienen */
+  accept?: boolean;
+
+  /** Solo los casos cuyo nombre contiene este texto */
+  filter?: string;
+}
+
+const INPUT_FILE = 'input.txt';
+const EXPECTED_FILE = 'expected.json';
+const CONFIG_FILE = 'config.json';
+
+/**
+ * Lo que un caso del corpus fija de un resultado
+ */
+export function toExpectation(result: ParseResult): CorpusExpectation {
+  return {
+    totalCalculado: result.summary.totalCalculado,
+    totalDeclarado: result.summary.totalDeclarado,
+    jugadas: result.jugadas.map(jugada => ({
+      jugador: jugada.jugador,
+      totalCalculado: jugada.totalCalculado,
+      totalDeclarado: jugada.totalDeclarado,
+      isValid: jugada.isValid,
+      detalles: jugada.detalles.map(d => ({
+        tipo: d.tipo,
+        numeros: d.numeros,
+        montoUnitario: d.montoUnitario,
+        monto: d.monto,
+        ...(d.combinaciones !== undefined && { combinaciones: d.combinaciones }),
+        ...(d.pares && { pares: d.pares }),
+      })),
+    })),
+    diagnostics: result.metadata.diagnostics.flatMap(d => (d.code ? [d.code] : [])),
+  };
+}
+
+/**
+ * Diferencias entre lo esperado y lo obtenido (solo en los campos esperados)
+ */
+export function compareExpectation(
+  expected: unknown,
+  actual: unknown,
+  ruta = ''
+): CorpusDifference[] {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) {
+      return [{ path: ruta, expected, actual }];
+    }
+    const differences: CorpusDifference[] =
+      expected.length === actual.length
+        ? []
+        : [{ path: `${ruta}.length`, expected: expected.length, actual: actual.length }];
+    const comunes = Math.min(expected.length, actual.length);
+    for (let i = 0; i < comunes; i++) {
+      differences.push(...compareExpectation(expected[i], actual[i], `${ruta}[${i}]`));
+    }
+    return differences;
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      return [{ path: ruta, expected, actual }];
+    }
+    return Object.entries(expected).flatMap(([key, value]) =>
+      compareExpectation(
+        value,
+        (actual as Record<string, unknown>)[key],
+        ruta ? `${ruta}.${key}` : key
+      )
+    );
+  }
+
+  const iguales =
+    typeof expected === 'number' && typeof actual === 'number'
+      ? Math.abs(expected - actual) < 1e-9
+      : expected === actual;
+  return iguales ? [] : [{ path: ruta, expected, actual }];
+}
+
+/**
+ * Lee los casos de un directorio de corpus, ordenados por nombre
+ */
+export async function loadCorpus(dir: string): Promise<CorpusCase[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const cases: CorpusCase[] = [];
+
+  for (const entry of entries
+    .filter(e => e.isDirectory())
+    .sort((a, b) => a.name.localeCompare(b.name))) {
+    const caseDir = path.join(dir, entry.name);
+    const input = await readOptional(path.join(caseDir, INPUT_FILE));
+    if (input === null) continue;
+
+    const expected = await readOptional(path.join(caseDir, EXPECTED_FILE));
+    const config = await readOptional(path.join(caseDir, CONFIG_FILE));
+    cases.push({
+      name: entry.name,
+      dir: caseDir,
+      input,
+      expected:
+        expected === null ? null : parseJson<Partial<CorpusExpectation>>(expected, entry.name),
+      config: config === null ? {} : parseJson<Partial<ParserConfig>>(config, entry.name),
+    });
+  }
+
+  return cases;
+}
+
+/**
+ * Parsea cada caso del corpus y lo compara con su `expected.json`
+ */
+export async function runCorpus(dir: string, options: CorpusOptions = {}): Promise<CorpusReport> {
+  const cases = (await loadCorpus(dir)).filter(
+    c => !options.filter || c.name.includes(options.filter)
+  );
+  const results: CorpusCaseResult[] = [];
+
+  for (const corpusCase of cases) {
+    const parser = new Parser({
+      cache: { enabled: false, ttl: 0, maxSize: 0 },
+      ...options.config,
+      ...corpusCase.config,
+    });
+    let actual: CorpusExpectation;
+    try {
+      actual = toExpectation(parser.parse(corpusCase.input));
+    } finally {
+      await parser.cleanup();
+    }
+
+    const differences = corpusCase.expected ? compareExpectation(corpusCase.expected, actual) : [];
+    let status: CorpusCaseResult['status'] = !corpusCase.expected
+      ? 'new'
+      : differences.length > 0
+        ? 'fail'
+        : 'pass';
+
+    if (options.accept && status !== 'pass') {
+      await fs.writeFile(
+        path.join(corpusCase.dir, EXPECTED_FILE),
+        `${JSON.stringify(actual, null, 2)}\n`
+      );
+      status = 'accepted';
+    }
+
+    results.push({ name: corpusCase.name, status, differences, actual });
+  }
+
+  return {
+    cases: results,
+    passed: results.filter(r => r.status === 'pass').length,
+    failed: results.filter(r => r.status === 'fail' || r.status === 'new').length,
+    accepted: results.filter(r => r.status === 'accepted').length,
+  };
+}
+
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function parseJson<T>(text: string, caso: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new ValidationError(`Caso de corpus inválido: ${caso}`, [(error as Error).message]);
+  }
+}
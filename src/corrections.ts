@@ -0,0 +1,259 @@
+import { Diagnostic, DiccionarioCorrecciones, EdicionTexto, ReglaCorreccion } from './types';
+import { DIAGNOSTIC_CODES } from './constants/diagnostics';
+import { createDiagnostic } from './utils/diagnostics';
+import { MappedText } from './utils/source-map';
+import { ValidationError } from './utils/errors';
+
+/**
+ * Correcciones que aplicaba siempre el plugin de autocorrección
+ */
+export const DEFAULT_CORRECTIONS: DiccionarioCorrecciones = {
+  nombre: 'autocorreccion',
+  alias: {},
+  reglas: [
+    {
+      id: 'DASHED_NUMBERS',
+      patron: '(\\d)\\s*-\\s*(\\d)',
+      flags: 'g',
+      reemplazo: '$1$2',
+      descripcion: 'Corregir guiones en números',
+    },
+    {
+      id: 'CURRENCY_WORD',
+      patron: 'con\\s*(\\d+)\\s*pesos',
+      reemplazo: 'con $1',
+      descripcion: 'Eliminar "pesos" después de montos',
+    },
+    {
+      id: 'Y_MEDIA',
+      patron: '(\\d)\\s*y\\s*media',
+      reemplazo: '$1.5',
+      descripcion: 'Convertir "y media" a decimal',
+    },
+    {
+      id: 'PARLE_FORMAT',
+      patron: 'parle\\s*[:=]',
+      reemplazo: 'parle con',
+      descripcion: 'Corregir formato de parle',
+    },
+    {
+      id: 'CANDADO_FORMAT',
+      patron: 'candado\\s*[:=]',
+      reemplazo: 'candado con',
+      descripcion: 'Corregir formato de candado',
+    },
+    {
+      id: 'CON_SPACING',
+      patron: '(\\d)\\s*con\\s*(\\d)',
+      reemplazo: '$1 con $2',
+      descripcion: 'Normalizar espacios alrededor de "con"',
+    },
+    {
+      id: 'Y_SPACING',
+      patron: '(\\d)\\s*y\\s*(\\d)',
+      reemplazo: '$1 y $2',
+      descripcion: 'Normalizar "y" entre montos',
+    },
+  ],
+};
+
+/** Ámbito de una jugada: la casa a la que se envía y el colector que la recoge */
+export interface AmbitoCorrecciones {
+  casa?: string;
+  colector?: string;
+}
+
+/** Regla lista para aplicar */
+interface ReglaCompilada {
+  id: string;
+  diccionario: string;
+  descripcion: string;
+  pattern: RegExp;
+  reemplazo: string;
+}
+
+/**
+ * Carga un diccionario de alias y reescrituras desde JSON (texto u objeto ya parseado)
+ */
+export function loadCorrectionDictionary(
+  data: string | Partial<DiccionarioCorrecciones>
+): DiccionarioCorrecciones {
+  let raw: unknown = data;
+  if (typeof data === 'string') {
+    try {
+      raw = JSON.parse(data);
+    } catch (error) {
+      throw new ValidationError('Diccionario de correcciones inválido', [(error as Error).message]);
+    }
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationError('Diccionario de correcciones inválido', ['Se esperaba un objeto']);
+  }
+
+  const diccionario = raw as Partial<DiccionarioCorrecciones>;
+  const errors: string[] = [];
+
+  if (typeof diccionario.nombre !== 'string' || !diccionario.nombre.trim()) {
+    errors.push('El diccionario debe tener nombre');
+  }
+  for (const campo of ['casa', 'colector'] as const) {
+    if (diccionario[campo] !== undefined && typeof diccionario[campo] !== 'string') {
+      errors.push(`${campo} debe ser un texto`);
+    }
+  }
+
+  const alias: Record<string, string> = {};
+  for (const [abreviatura, reemplazo] of Object.entries(diccionario.alias ?? {})) {
+    if (!abreviatura.trim() || typeof reemplazo !== 'string') {
+      errors.push(`Alias inválido: ${abreviatura}`);
+    } else {
+      alias[abreviatura.trim().toLowerCase()] = reemplazo;
+    }
+  }
+
+  const reglas: ReglaCorreccion[] = [];
+  for (const regla of diccionario.reglas ?? []) {
+    const { id, patron, flags, reemplazo } = regla ?? {};
+    if (
+      typeof id !== 'string' ||
+      !id ||
+      typeof patron !== 'string' ||
+      typeof reemplazo !== 'string'
+    ) {
+      errors.push(`Regla inválida: ${JSON.stringify(regla)}`);
+      continue;
+    }
+    try {
+      new RegExp(patron, flags ?? 'gi');
+      reglas.push(regla);
+    } catch (error) {
+      errors.push(`Regla ${id}: ${(error as Error).message}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Diccionario de correcciones inválido', errors, {
+      nombre: diccionario.nombre,
+    });
+  }
+
+  return {
+    nombre: (diccionario.nombre as string).trim(),
+    ...(diccionario.casa !== undefined && { casa: diccionario.casa }),
+    ...(diccionario.colector !== undefined && { colector: diccionario.colector }),
+    alias,
+    reglas,
+  };
+}
+
+/**
+ * Diccionarios que corresponden al ámbito, del más específico al más general
+ * (colector, casa, globales), que es el orden en que se aplican
+ */
+export function selectDictionaries(
+  diccionarios: DiccionarioCorrecciones[],
+  ambito: AmbitoCorrecciones
+): DiccionarioCorrecciones[] {
+  const especificidad = (d: DiccionarioCorrecciones): number =>
+    (d.colector !== undefined ? 2 : 0) + (d.casa !== undefined ? 1 : 0);
+
+  return diccionarios
+    .filter(
+      d =>
+        (d.casa === undefined || d.casa === ambito.casa) &&
+        (d.colector === undefined || d.colector === ambito.colector)
+    )
+    .sort((a, b) => especificidad(b) - especificidad(a));
+}
+
+/**
+ * Aplica los diccionarios en orden: en cada uno primero los alias y después
+ * las reglas. Cada edición lleva el rango original del texto reemplazado y
+ * de qué diccionario y regla proviene; se devuelven en el orden del texto.
+ */
+export function applyCorrections(
+  text: MappedText,
+  diccionarios: DiccionarioCorrecciones[]
+): { source: MappedText; ediciones: EdicionTexto[] } {
+  let source = text;
+  const ediciones: EdicionTexto[] = [];
+
+  for (const regla of diccionarios.flatMap(compilar)) {
+    const single = new RegExp(regla.pattern.source, regla.pattern.flags.replace('g', ''));
+    const encontradas = [...source.text.matchAll(regla.pattern)].flatMap(match => {
+      const reemplazo = match[0].replace(single, regla.reemplazo);
+      if (reemplazo === match[0]) {
+        return [];
+      }
+      const start = match.index ?? 0;
+      const span = source.originalSpan(start, start + match[0].length);
+      return [
+        { regla: regla.id, original: match[0], reemplazo, span, diccionario: regla.diccionario },
+      ];
+    });
+
+    if (encontradas.length > 0) {
+      source = source.replace(regla.pattern, regla.reemplazo);
+      ediciones.push(...encontradas);
+    }
+  }
+
+  return { source, ediciones: ediciones.sort((a, b) => a.span.start - b.span.start) };
+}
+
+/**
+ * Diagnóstico informativo de una corrección, con su procedencia
+ */
+export function correctionDiagnostic(edicion: EdicionTexto, player?: string): Diagnostic {
+  const origen = [edicion.regla, edicion.diccionario, edicion.plugin].filter(Boolean).join(', ');
+  return createDiagnostic(
+    DIAGNOSTIC_CODES.CORRECTION_APPLIED,
+    'info',
+    `"${edicion.original}" → "${edicion.reemplazo}" (${origen})`,
+    { span: edicion.span, player }
+  );
+}
+
+function compilar(diccionario: DiccionarioCorrecciones): ReglaCompilada[] {
+  const alias = Object.entries(diccionario.alias)
+    // Los más largos primero ("parl" antes que "par")
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([abreviatura, reemplazo]) => ({
+      id: abreviatura,
+      diccionario: diccionario.nombre,
+      descripcion: `"${abreviatura}" es "${reemplazo}"`,
+      pattern: new RegExp(
+        `${limite(abreviatura[0], '<')}${escapar(abreviatura)}${limite(abreviatura.slice(-1), '')}`,
+        'giu'
+      ),
+      reemplazo: reemplazo.replace(/\$/g, '$$$$'),
+    }));
+
+  const reglas = diccionario.reglas.map(regla => {
+    const flags = regla.flags ?? 'gi';
+    return {
+      id: regla.id,
+      diccionario: diccionario.nombre,
+      descripcion: regla.descripcion ?? regla.id,
+      pattern: new RegExp(regla.patron, flags.includes('g') ? flags : `${flags}g`),
+      reemplazo: regla.reemplazo,
+    };
+  });
+
+  return [...alias, ...reglas];
+}
+
+function escapar(texto: string): string {
+  return texto.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * El alias es una palabra entera: no puede tener letras pegadas (ni dígitos
+ * en el lado en que él mismo termina en dígito), así "cn5" se lee como "con5"
+ * pero "x100" no toca "x1000"
+ */
+function limite(borde: string, lado: '<' | ''): string {
+  const clase = /\d/.test(borde) ? '[\\p{L}\\d]' : '\\p{L}';
+  return `(?${lado}!${clase})`;
+}
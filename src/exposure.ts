@@ -0,0 +1,244 @@
+import Decimal from 'decimal.js';
+import {
+  AjusteExposicion,
+  DetalleApuesta,
+  Diagnostic,
+  ExposicionNumero,
+  Jugada,
+  ParseResult,
+  TipoApuesta,
+  TopesExposicion,
+} from './types';
+import { calculateStats, detalleExposure } from './utils/analyzers';
+import { confianzaJugada, recalcularConfianza } from './confidence';
+import { createDiagnostic } from './utils/diagnostics';
+import { DIAGNOSTIC_CODES } from './constants/diagnostics';
+
+export interface ExposureEnforcement {
+  /** Resultado sin los detalles rechazados, con totales, stats y confianza recalculados */
+  result: ParseResult;
+  ajustes: AjusteExposicion[];
+}
+
+/**
+ * Acumula el monto apostado por número y tipo de apuesta y lo compara con los topes.
+ *
+ * Puede acumular varios resultados de una misma sesión (un sorteo); `enforce`
+ * admite los detalles en orden y rechaza o recorta los que superan el tope.
+ */
+export class ExposureTracker {
+  private readonly montos = new Map<
+    string,
+    { numero: string; tipo: TipoApuesta; monto: Decimal }
+  >();
+
+  constructor(private readonly topes: TopesExposicion = { porTipo: {} }) {}
+
+  /**
+   * Suma todas las jugadas de un resultado
+   */
+  add(result: ParseResult): this {
+    result.jugadas.forEach(jugada => this.addJugada(jugada));
+    return this;
+  }
+
+  addJugada(jugada: Jugada): this {
+    jugada.detalles.forEach(detalle => this.addDetalle(detalle));
+    return this;
+  }
+
+  reset(): void {
+    this.montos.clear();
+  }
+
+  /**
+   * Tope de un número para un tipo de apuesta (el propio del número tiene prioridad)
+   */
+  tope(numero: string, tipo: TipoApuesta): number | null {
+    return this.topes.porNumero?.[numero]?.[tipo] ?? this.topes.porTipo[tipo] ?? null;
+  }
+
+  /**
+   * Monto acumulado por número y tipo, de mayor a menor
+   */
+  get exposure(): ExposicionNumero[] {
+    return Array.from(this.montos.values())
+      .map(({ numero, tipo, monto }) => {
+        const tope = this.tope(numero, tipo);
+        const exceso = tope === null ? 0 : Decimal.max(monto.minus(tope), 0).toNumber();
+        return { numero, tipo, monto: monto.toNumber(), tope, exceso };
+      })
+      .sort((a, b) => b.monto - a.monto);
+  }
+
+  /**
+   * Números que superan su tope y por cuánto
+   */
+  check(): ExposicionNumero[] {
+    return this.exposure.filter(e => e.exceso > 0);
+  }
+
+  /**
+   * Admite los detalles de un resultado en orden. Los que harían superar un tope se
+   * rechazan o, con `recortar`, se reducen al monto unitario que aún cabe.
+   * Lo admitido se suma al acumulado.
+   */
+  enforce(
+    result: ParseResult,
+    accion: AjusteExposicion['accion'] = 'rechazar'
+  ): ExposureEnforcement {
+    const ajustes: AjusteExposicion[] = [];
+    const diagnostics: Diagnostic[] = [];
+
+    const jugadas = result.jugadas.map(jugada => {
+      const detalles: DetalleApuesta[] = [];
+      let ajustada = false;
+
+      jugada.detalles.forEach((detalle, detalleIndex) => {
+        const { disponible, numeros } = this.disponible(detalle);
+        if (numeros.length === 0) {
+          detalles.push(detalle);
+          this.addDetalle(detalle);
+          return;
+        }
+
+        ajustada = true;
+        const recortado =
+          accion === 'recortar' && disponible > 0 ? recortar(detalle, disponible) : null;
+        if (recortado) {
+          detalles.push(recortado);
+          this.addDetalle(recortado);
+        }
+
+        const ajuste: AjusteExposicion = {
+          jugador: jugada.jugador,
+          detalleIndex,
+          tipo: detalle.tipo,
+          numeros,
+          accion: recortado ? 'recortar' : 'rechazar',
+          montoOriginal: detalle.monto,
+          montoAceptado: recortado?.monto ?? 0,
+          lineaNumero: detalle.lineaNumero,
+        };
+        ajustes.push(ajuste);
+        diagnostics.push(
+          createDiagnostic(
+            DIAGNOSTIC_CODES.EXPOSURE_LIMIT,
+            'warning',
+            `${detalle.tipo} ${numeros.join(', ')} supera el tope: ` +
+              (recortado ? `recortado a ${recortado.monto}` : 'rechazado'),
+            { player: jugada.jugador, detalleIndex, span: detalle.span }
+          )
+        );
+      });
+
+      return ajustada ? recalcularJugada(jugada, detalles) : jugada;
+    });
+
+    return { result: recalcularResultado(result, jugadas, diagnostics), ajustes };
+  }
+
+  private addDetalle(detalle: DetalleApuesta): void {
+    for (const { numero, monto } of detalleExposure(detalle)) {
+      const key = `${detalle.tipo}:${numero}`;
+      const actual = this.montos.get(key);
+      if (actual) {
+        actual.monto = actual.monto.plus(monto);
+      } else {
+        this.montos.set(key, { numero, tipo: detalle.tipo, monto: new Decimal(monto) });
+      }
+    }
+  }
+
+  /**
+   * Monto unitario que aún cabe en todos los números del detalle
+   * y los números cuyo tope se superaría
+   */
+  private disponible(detalle: DetalleApuesta): { disponible: number; numeros: string[] } {
+    let disponible = new Decimal(detalle.montoUnitario);
+    const numeros: string[] = [];
+    const porNumero = new Map<string, Decimal>();
+
+    for (const { numero, monto } of detalleExposure(detalle)) {
+      porNumero.set(numero, (porNumero.get(numero) ?? new Decimal(0)).plus(monto));
+    }
+
+    for (const [numero, monto] of porNumero) {
+      const tope = this.tope(numero, detalle.tipo);
+      if (tope === null) continue;
+
+      const actual = this.montos.get(`${detalle.tipo}:${numero}`)?.monto ?? new Decimal(0);
+      const libre = Decimal.max(new Decimal(tope).minus(actual), 0);
+      if (monto.greaterThan(0) && actual.plus(monto).greaterThan(tope)) {
+        numeros.push(numero);
+        // Un número repetido en el detalle consume el monto unitario varias veces
+        const veces = monto.dividedBy(detalle.montoUnitario);
+        disponible = Decimal.min(
+          disponible,
+          libre.dividedBy(veces).toDecimalPlaces(2, Decimal.ROUND_DOWN)
+        );
+      }
+    }
+
+    return { disponible: disponible.toNumber(), numeros };
+  }
+}
+
+function recortar(detalle: DetalleApuesta, montoUnitario: number): DetalleApuesta {
+  const unidades = new Decimal(detalle.monto).dividedBy(detalle.montoUnitario);
+  return {
+    ...detalle,
+    montoUnitario,
+    monto: unidades.times(montoUnitario).toDecimalPlaces(2).toNumber(),
+  };
+}
+
+function recalcularJugada(jugada: Jugada, detalles: DetalleApuesta[]): Jugada {
+  const totalCalculado = detalles.reduce((sum, d) => sum.plus(d.monto), new Decimal(0)).toNumber();
+  const ajustada: Jugada = {
+    ...jugada,
+    detalles,
+    totalCalculado,
+    isValid:
+      jugada.totalDeclarado === null || Math.abs(totalCalculado - jugada.totalDeclarado) < 0.01,
+  };
+
+  if (!jugada.confianza) {
+    return ajustada;
+  }
+  return { ...ajustada, confianza: confianzaJugada(ajustada, jugada.confianza.lineas) };
+}
+
+function recalcularResultado(
+  result: ParseResult,
+  jugadas: Jugada[],
+  diagnostics: Diagnostic[]
+): ParseResult {
+  const totalCalculado = jugadas
+    .reduce((sum, j) => sum.plus(j.totalCalculado), new Decimal(0))
+    .toNumber();
+  const difference = Math.abs(totalCalculado - result.summary.totalDeclarado);
+  const { valor: confidence, factores: confidenceFactors } = recalcularConfianza(
+    jugadas,
+    result.summary.confidenceFactors
+  );
+
+  return {
+    ...result,
+    jugadas,
+    summary: {
+      ...result.summary,
+      totalCalculado,
+      difference,
+      isValid: difference < 0.01,
+      confidence,
+      confidenceFactors,
+    },
+    stats: calculateStats(jugadas),
+    metadata: {
+      ...result.metadata,
+      warnings: [...result.metadata.warnings, ...diagnostics.map(d => d.message)],
+      diagnostics: [...result.metadata.diagnostics, ...diagnostics],
+    },
+  };
+}
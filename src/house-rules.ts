@@ -0,0 +1,145 @@
+import { LimiteApuesta, ReglasCasa, TablaPagos, TipoApuesta } from './types';
+import { DEFAULT_HOUSE_RULES } from './constants/payouts';
+import { ValidationError } from './utils/errors';
+
+const TIPOS = Object.keys(DEFAULT_HOUSE_RULES.pagos) as TipoApuesta[];
+const CENTENA_COMPUESTA: ReglasCasa['centenaCompuesta'][] = ['fijo-corrido', 'corrido-fijo'];
+
+/**
+ * Carga un perfil de reglas desde JSON (texto u objeto ya parseado).
+ * Los campos omitidos toman el valor de `base`; los pagos se combinan por tipo.
+ */
+export function loadHouseRules(
+  data: string | Partial<ReglasCasa>,
+  base: ReglasCasa = DEFAULT_HOUSE_RULES
+): ReglasCasa {
+  let raw: unknown = data;
+  if (typeof data === 'string') {
+    try {
+      raw = JSON.parse(data);
+    } catch (error) {
+      throw new ValidationError('Perfil de reglas inválido', [(error as Error).message]);
+    }
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ValidationError('Perfil de reglas inválido', ['Se esperaba un objeto']);
+  }
+
+  const perfil = raw as Partial<ReglasCasa>;
+  const errors: string[] = [];
+
+  if (typeof perfil.nombre !== 'string' || !perfil.nombre.trim()) {
+    errors.push('El perfil debe tener nombre');
+  }
+
+  const pagos: TablaPagos = { ...base.pagos };
+  for (const [tipo, valor] of Object.entries(perfil.pagos ?? {})) {
+    if (!TIPOS.includes(tipo as TipoApuesta)) {
+      errors.push(`Tipo de apuesta desconocido en pagos: ${tipo}`);
+    } else if (typeof valor !== 'number' || !(valor >= 0)) {
+      errors.push(`Pago inválido para ${tipo}: ${String(valor)}`);
+    } else {
+      pagos[tipo as TipoApuesta] = valor;
+    }
+  }
+
+  const limites: Partial<Record<TipoApuesta, LimiteApuesta>> = {};
+  for (const [tipo, limite] of Object.entries(perfil.limites ?? base.limites)) {
+    if (!TIPOS.includes(tipo as TipoApuesta)) {
+      errors.push(`Tipo de apuesta desconocido en límites: ${tipo}`);
+      continue;
+    }
+    const { min, max } = limite ?? {};
+    if ([min, max].some(v => v !== undefined && (typeof v !== 'number' || !(v >= 0)))) {
+      errors.push(`Límite inválido para ${tipo}`);
+    } else if (min !== undefined && max !== undefined && min > max) {
+      errors.push(`El mínimo de ${tipo} (${min}) supera el máximo (${max})`);
+    } else {
+      limites[tipo as TipoApuesta] = {
+        ...(min !== undefined && { min }),
+        ...(max !== undefined && { max }),
+      };
+    }
+  }
+
+  const candadoRepartido = perfil.candadoRepartido ?? base.candadoRepartido;
+  if (typeof candadoRepartido !== 'boolean') {
+    errors.push('candadoRepartido debe ser booleano');
+  }
+
+  const centenaCompuesta = perfil.centenaCompuesta ?? base.centenaCompuesta;
+  if (!CENTENA_COMPUESTA.includes(centenaCompuesta)) {
+    errors.push(`centenaCompuesta inválida: ${String(centenaCompuesta)}`);
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Perfil de reglas inválido', errors, { nombre: perfil.nombre });
+  }
+
+  return {
+    nombre: (perfil.nombre as string).trim(),
+    pagos,
+    limites,
+    candadoRepartido,
+    centenaCompuesta,
+  };
+}
+
+/**
+ * Registro de perfiles de reglas por nombre
+ */
+export class HouseRulesRegistry {
+  private static instance: HouseRulesRegistry;
+  private perfiles: Map<string, ReglasCasa> = new Map();
+
+  private constructor() {
+    this.register(DEFAULT_HOUSE_RULES);
+  }
+
+  static getInstance(): HouseRulesRegistry {
+    if (!HouseRulesRegistry.instance) {
+      HouseRulesRegistry.instance = new HouseRulesRegistry();
+    }
+    return HouseRulesRegistry.instance;
+  }
+
+  /**
+   * Registra un perfil (reemplaza al que tenga el mismo nombre)
+   */
+  register(perfil: string | ReglasCasa): ReglasCasa {
+    const reglas = loadHouseRules(perfil);
+    this.perfiles.set(reglas.nombre, reglas);
+    return reglas;
+  }
+
+  /**
+   * Obtiene un perfil por nombre
+   */
+  get(nombre: string): ReglasCasa | undefined {
+    return this.perfiles.get(nombre);
+  }
+
+  has(nombre: string): boolean {
+    return this.perfiles.has(nombre);
+  }
+
+  remove(nombre: string): boolean {
+    return nombre !== DEFAULT_HOUSE_RULES.nombre && this.perfiles.delete(nombre);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.perfiles.keys());
+  }
+}
+
+/**
+ * Obtiene un perfil registrado; lanza si no existe
+ */
+export function getHouseRules(nombre: string): ReglasCasa {
+  const reglas = HouseRulesRegistry.getInstance().get(nombre);
+  if (!reglas) {
+    throw new ValidationError(`Perfil de reglas desconocido: ${nombre}`);
+  }
+  return reglas;
+}
@@ -7,15 +7,31 @@
 // Re-exportar todo desde los módulos principales
 export * from './types';
 export * from './parser';
+export * from './streaming-parser';
+export * from './block-detector';
 export * from './preprocessor';
 export * from './pattern-expander';
+export * from './lexer';
+export * from './ast-builder';
 export * from './validators';
+export * from './settlement';
+export * from './house-rules';
+export * from './corrections';
+export * from './number-words';
+export * from './exposure';
+export * from './chat-importer';
+export * from './serializer';
+export * from './confidence';
+export * from './ambiguity';
+export * from './reconciler';
 export * from './utils';
+export * from './constants/diagnostics';
+export * from './constants/payouts';
 export * from './plugins';
 
 // Exportaciones principales con documentación
-import { Parser, ParserConfig, ParseResult } from './parser';
-import { ValidationResult } from './validators';
+import { Parser } from './parser';
+import { ParserConfig, ParseResult, ValidationResult } from './types';
 
 /**
  * Crea una nueva instancia del parser configurable
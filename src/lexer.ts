@@ -0,0 +1,162 @@
+import { Token, TokenType } from './types';
+
+const KEYWORDS: Record<string, TokenType> = {
+  con: 'CON',
+  de: 'CON',
+  a: 'CON',
+  y: 'Y',
+  parle: 'PARLE',
+  candado: 'CANDADO',
+  total: 'TOTAL',
+  al: 'RANGE_AL',
+  pr: 'PARES_RELATIVOS',
+};
+
+/** Palabras que no pueden aparecer en un nombre de jugador */
+const NAME_STOPWORDS = /\b(con|parle|candado|total|fijo|corrido|al|pr|v|d|t)\b/i;
+
+const CENTENAS_TODAS = /por\s*todas?\s*(?:las?\s*)?centenas?\b/iy;
+const NUMBER = /\d+(?:[.,]\d+)?/y;
+const WORD = /[a-záéíóúñü]+/iy;
+
+/** Tokens tras los cuales el siguiente número es un monto */
+const AMOUNT_PREFIXES: TokenType[] = ['CON', 'PARLE', 'PARLE_INLINE', 'CANDADO', 'TOTAL'];
+
+/**
+ * Lexer de jugadas: convierte texto en tokens con offsets
+ */
+export class Lexer {
+  /**
+   * Verifica si una línea es un nombre de jugador
+   */
+  static isNombreJugador(line: string): boolean {
+    const trimmed = line.trim();
+
+    if (!trimmed || trimmed.length < 2) return false;
+    if (/^\d/.test(trimmed)) return false;
+    if (NAME_STOPWORDS.test(trimmed)) return false;
+
+    // Debe contener principalmente letras
+    const letterCount = (trimmed.match(/[A-Za-zÁ-ÿ]/g) || []).length;
+    return letterCount / trimmed.length > 0.6;
+  }
+
+  /**
+   * Tokeniza un texto (una o varias líneas)
+   * @param offset desplazamiento que se suma a las posiciones de los tokens
+   */
+  tokenize(text: string, offset = 0): Token[] {
+    const tokens: Token[] = [];
+    let lineStart = 0;
+
+    while (lineStart <= text.length) {
+      const newline = text.indexOf('\n', lineStart);
+      const lineEnd = newline === -1 ? text.length : newline;
+
+      tokens.push(...this.tokenizeLine(text.slice(lineStart, lineEnd), offset + lineStart));
+
+      if (newline === -1) break;
+      tokens.push({
+        type: 'NEWLINE',
+        value: '\n',
+        start: offset + newline,
+        end: offset + newline + 1,
+      });
+      lineStart = newline + 1;
+    }
+
+    return tokens;
+  }
+
+  private tokenizeLine(line: string, offset: number): Token[] {
+    const tokens: Token[] = [];
+
+    if (Lexer.isNombreJugador(line)) {
+      const start = line.length - line.trimStart().length;
+      const value = line.trim();
+      return [{ type: 'NAME', value, start: offset + start, end: offset + start + value.length }];
+    }
+
+    // Modo monto: el siguiente número es un monto ("con 20", "y 30", "p5")
+    let expectAmount = false;
+    let pos = 0;
+
+    const push = (type: TokenType, value: string) => {
+      tokens.push({ type, value, start: offset + pos, end: offset + pos + value.length });
+      pos += value.length;
+    };
+
+    while (pos < line.length) {
+      const char = line[pos];
+
+      if (/\s/.test(char)) {
+        pos++;
+        continue;
+      }
+
+      const previous = tokens[tokens.length - 1];
+
+      NUMBER.lastIndex = pos;
+      const number = NUMBER.exec(line);
+      if (number) {
+        const isDecimal = /[.,]/.test(number[0]);
+        push(expectAmount || isDecimal ? 'AMOUNT' : 'NUMBER', number[0]);
+        expectAmount = false;
+        continue;
+      }
+
+      if (char === '*' || char === '×') {
+        push('TIMES', char);
+        expectAmount = false;
+        continue;
+      }
+
+      CENTENAS_TODAS.lastIndex = pos;
+      const centenas = CENTENAS_TODAS.exec(line);
+      if (centenas) {
+        push('CENTENAS_TODAS', centenas[0]);
+        expectAmount = false;
+        continue;
+      }
+
+      WORD.lastIndex = pos;
+      const word = WORD.exec(line);
+      if (word) {
+        const type = this.classifyWord(
+          word[0].toLowerCase(),
+          previous,
+          line.slice(pos + word[0].length)
+        );
+        push(type, word[0]);
+
+        if (type === 'Y') {
+          // "y" solo continúa el modo monto si viene después de un monto
+          expectAmount = previous?.type === 'AMOUNT';
+        } else if (type === 'CON') {
+          expectAmount = true;
+        } else {
+          expectAmount = AMOUNT_PREFIXES.includes(type);
+        }
+        continue;
+      }
+
+      // Símbolos sin significado (":", "=", "$", ...)
+      pos++;
+    }
+
+    return tokens;
+  }
+
+  private classifyWord(word: string, previous: Token | undefined, rest: string): TokenType {
+    const followedByNumber = /^\s*\d/.test(rest);
+    const afterNumber = previous?.type === 'NUMBER';
+
+    if (word === 'v' && afterNumber) return 'VOLTEO_SUFFIX';
+    if (word === 'x' && afterNumber && followedByNumber) return 'TIMES';
+    if (word === 'p' && followedByNumber) return 'PARLE_INLINE';
+    if (word === 'd' && followedByNumber) return 'DECENA';
+    if (word === 't' && followedByNumber) return 'TERMINAL';
+
+    return KEYWORDS[word] ?? 'WORD';
+  }
+}
@@ -0,0 +1,362 @@
+import { EdicionTexto } from './types';
+import { MappedText } from './utils/source-map';
+
+/** Regla con la que se registran las conversiones */
+export const NUMBER_WORDS_RULE = 'NUMBER_WORDS';
+
+const UNIDADES = tabla({
+  cero: 0,
+  un: 1,
+  uno: 1,
+  una: 1,
+  dos: 2,
+  tres: 3,
+  cuatro: 4,
+  cinco: 5,
+  seis: 6,
+  siete: 7,
+  ocho: 8,
+  nueve: 9,
+});
+
+/** De 10 a 29, que se escriben en una sola palabra */
+const ESPECIALES = tabla({
+  diez: 10,
+  once: 11,
+  doce: 12,
+  trece: 13,
+  catorce: 14,
+  quince: 15,
+  dieciseis: 16,
+  diecisiete: 17,
+  dieciocho: 18,
+  diecinueve: 19,
+  veinte: 20,
+  veintiun: 21,
+  veintiuno: 21,
+  veintiuna: 21,
+  veintidos: 22,
+  veintitres: 23,
+  veinticuatro: 24,
+  veinticinco: 25,
+  veintiseis: 26,
+  veintisiete: 27,
+  veintiocho: 28,
+  veintinueve: 29,
+});
+
+const DECENAS = tabla({
+  treinta: 30,
+  cuarenta: 40,
+  cincuenta: 50,
+  sesenta: 60,
+  setenta: 70,
+  ochenta: 80,
+  noventa: 90,
+});
+
+const CENTENAS = tabla({
+  cien: 100,
+  ciento: 100,
+  doscientos: 200,
+  trescientos: 300,
+  cuatrocientos: 400,
+  quinientos: 500,
+  seiscientos: 600,
+  setecientos: 700,
+  ochocientos: 800,
+  novecientos: 900,
+});
+
+/** "mil"; "luca" (Venezuela) son mil y "palo" un millón */
+const MULTIPLICADORES = tabla({
+  mil: 1000,
+  luca: 1000,
+  lucas: 1000,
+  palo: 1000000,
+  palos: 1000000,
+});
+
+/** Monedas que pueden seguir a un monto (el preprocesado quita "pesos" después) */
+const MONEDAS = new Set([
+  'peso',
+  'pesos',
+  'bs',
+  'bolo',
+  'bolos',
+  'bolivar',
+  'bolivares',
+  // Cuba: "cinco cañas", "diez baros"
+  'cana',
+  'canas',
+  'baro',
+  'baros',
+  'varo',
+  'varos',
+]);
+
+/** Monedas coloquiales que valen una cantidad fija: "dos fuertes" son 10 */
+const COLOQUIALES = tabla({
+  // Venezuela
+  fuerte: 5,
+  fuertes: 5,
+  real: 0.5,
+  reales: 0.5,
+  // Cuba
+  peseta: 0.2,
+  pesetas: 0.2,
+});
+
+const CENTAVOS = new Set(['centavo', 'centavos', 'centimo', 'centimos']);
+const MEDIO = new Set(['medio', 'media']);
+
+const TOKEN = /\p{L}+|\d+(?:[.,]\d+)?/gu;
+
+interface Token {
+  clave: string;
+  start: number;
+  end: number;
+}
+
+/** Número leído: tokens [inicio, end) y su valor */
+interface Lectura {
+  end: number;
+  valor: number;
+}
+
+/**
+ * Convierte a cifras los números en letras de una línea ("veinticinco",
+ * "mil quinientos", "diez y medio", "dos pesos con cincuenta", "dos fuertes").
+ *
+ * La "y" solo une decenas y unidades ("treinta y cinco") antes del "con";
+ * después, entre montos, es la "y" de la apuesta ("con treinta y cinco" son
+ * 30 y 5) salvo que siga una moneda ("con treinta y cinco pesos"). Antes del
+ * "con" los números de una cifra son números de la apuesta y se escriben con
+ * dos ("cinco con diez" -> "05 con 10").
+ */
+export function normalizeNumberWords(line: MappedText): {
+  source: MappedText;
+  ediciones: EdicionTexto[];
+} {
+  const tokens: Token[] = [...line.text.matchAll(TOKEN)].map(match => ({
+    clave: clave(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+  const primerCon = tokens.findIndex(t => t.clave === 'con');
+  const lector = new LectorNumeros(tokens, primerCon);
+
+  const partes: MappedText[] = [];
+  const ediciones: EdicionTexto[] = [];
+  let ultimo = 0;
+
+  for (let i = 0; i < tokens.length;) {
+    const lectura = lector.leerMonto(i);
+    if (!lectura) {
+      i++;
+      continue;
+    }
+
+    const start = tokens[i].start;
+    const end = tokens[lectura.end - 1].end;
+    const apuesta = primerCon > lectura.end - 1 && Number.isInteger(lectura.valor);
+    const reemplazo = apuesta ? String(lectura.valor).padStart(2, '0') : formatear(lectura.valor);
+
+    partes.push(
+      line.slice(ultimo, start),
+      line.slice(start, end).replace(/^[\s\S]*$/, () => reemplazo)
+    );
+    ediciones.push({
+      regla: NUMBER_WORDS_RULE,
+      original: line.text.slice(start, end),
+      reemplazo,
+      span: line.originalSpan(start, end),
+    });
+    ultimo = end;
+    i = lectura.end;
+  }
+
+  if (ediciones.length === 0) {
+    return { source: line, ediciones };
+  }
+  partes.push(line.slice(ultimo));
+  return { source: MappedText.join(partes, ''), ediciones };
+}
+
+/**
+ * Lectura de números sobre los tokens de una línea
+ */
+class LectorNumeros {
+  constructor(
+    private readonly tokens: Token[],
+    private readonly primerCon: number
+  ) {}
+
+  /**
+   * Monto que empieza en `i` si tiene alguna palabra: un número en letras y lo
+   * que lo completa ("y medio", la moneda con sus centavos, una moneda
+   * coloquial). Las cifras solas no se tocan.
+   */
+  leerMonto(i: number): Lectura | null {
+    const actual = this.clave(i);
+    let lectura: Lectura | null;
+    let palabras = true;
+
+    if (/^\d/.test(actual)) {
+      lectura = { end: i + 1, valor: Number(actual.replace(',', '.')) };
+      palabras = false;
+    } else {
+      lectura = this.leerCardinal(i);
+    }
+
+    if (!lectura) {
+      // "con medio", "medio peso"
+      const monto = this.clave(i - 1) === 'con' || MONEDAS.has(this.clave(i + 1));
+      return MEDIO.has(actual) && monto ? { end: i + 1, valor: 0.5 } : null;
+    }
+
+    let { end, valor } = lectura;
+    const siguiente = this.clave(end);
+
+    const coloquial = COLOQUIALES.get(siguiente);
+    if (coloquial !== undefined) {
+      return { end: end + 1, valor: valor * coloquial };
+    }
+
+    if (siguiente === 'y' && MEDIO.has(this.clave(end + 1))) {
+      valor += 0.5;
+      end += 2;
+      palabras = true;
+    }
+
+    // "dos pesos con cincuenta (centavos)": aquí el "con" es de los centavos
+    if (MONEDAS.has(this.clave(end)) && this.clave(end + 1) === 'con' && Number.isInteger(valor)) {
+      const centavos = this.leerCentavos(end + 2);
+      if (centavos) {
+        valor += centavos.valor / 100;
+        end = CENTAVOS.has(this.clave(centavos.end)) ? centavos.end + 1 : centavos.end;
+        palabras = true;
+      }
+    }
+
+    return palabras ? { end, valor } : null;
+  }
+
+  /**
+   * Cardinal en letras: [centenas] [mil|luca|palo [centenas]]
+   */
+  private leerCardinal(i: number): Lectura | null {
+    const cantidad = this.leerCentenas(i);
+    let end = cantidad?.end ?? i;
+    const multiplicador = MULTIPLICADORES.get(this.clave(end));
+
+    // "luca" y "palo" necesitan la cantidad ("una luca"); "mil" no
+    if (multiplicador !== undefined && (cantidad || this.clave(end) === 'mil')) {
+      let valor = (cantidad?.valor ?? 1) * multiplicador;
+      end++;
+      const resto = this.leerCentenas(end);
+      if (resto) {
+        valor += resto.valor;
+        end = resto.end;
+      }
+      return { end, valor };
+    }
+
+    if (!cantidad) {
+      return null;
+    }
+
+    // "un" y "una" solos son artículos ("una centena"), salvo delante de una moneda
+    const articulo = ['un', 'una'].includes(this.clave(i)) && cantidad.end === i + 1;
+    const siguiente = this.clave(cantidad.end);
+    if (articulo && !MONEDAS.has(siguiente) && !COLOQUIALES.has(siguiente)) {
+      return null;
+    }
+    return cantidad;
+  }
+
+  /**
+   * Número menor que mil: [cien|ciento|doscientos…] [decenas y unidades]
+   */
+  private leerCentenas(i: number, centavos = false): Lectura | null {
+    let end = i;
+    let valor = 0;
+
+    const centena = CENTENAS.get(this.clave(end));
+    if (centena !== undefined) {
+      valor = centena;
+      end++;
+      // "cien" no lleva nada detrás ("cien cinco" son dos números)
+      if (this.clave(i) === 'cien') {
+        return { end, valor };
+      }
+    }
+
+    const decena = this.leerDecenas(end, centavos);
+    if (decena) {
+      valor += decena.valor;
+      end = decena.end;
+    }
+
+    return end > i ? { end, valor } : null;
+  }
+
+  private leerDecenas(i: number, centavos: boolean): Lectura | null {
+    const palabra = this.clave(i);
+    const simple = UNIDADES.get(palabra) ?? ESPECIALES.get(palabra);
+    if (simple !== undefined) {
+      return { end: i + 1, valor: simple };
+    }
+
+    const decena = DECENAS.get(palabra);
+    if (decena === undefined) {
+      return null;
+    }
+
+    const unidad = UNIDADES.get(this.clave(i + 2)) ?? 0;
+    const compuesto =
+      this.clave(i + 1) === 'y' &&
+      unidad > 0 &&
+      (centavos || !this.esMonto(i) || this.cierraMonto(i + 3));
+    return compuesto ? { end: i + 3, valor: decena + unidad } : { end: i + 1, valor: decena };
+  }
+
+  private leerCentavos(i: number): Lectura | null {
+    const actual = this.clave(i);
+    const centavos = /^\d+$/.test(actual)
+      ? { end: i + 1, valor: Number(actual) }
+      : this.leerCentenas(i, true);
+    return centavos && centavos.valor > 0 && centavos.valor < 100 ? centavos : null;
+  }
+
+  /** El token está después del "con", donde la "y" separa montos */
+  private esMonto(i: number): boolean {
+    return this.primerCon >= 0 && i > this.primerCon;
+  }
+
+  /** Lo que sigue hace de lo anterior un solo monto ("treinta y cinco pesos", "… mil") */
+  private cierraMonto(i: number): boolean {
+    const palabra = this.clave(i);
+    return MONEDAS.has(palabra) || MULTIPLICADORES.has(palabra) || COLOQUIALES.has(palabra);
+  }
+
+  private clave(i: number): string {
+    return this.tokens[i]?.clave ?? '';
+  }
+}
+
+/** Minúsculas y sin tildes ("Dieciséis" -> "dieciseis", "cañas" -> "canas") */
+function clave(palabra: string): string {
+  return palabra
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function tabla(valores: Record<string, number>): Map<string, number> {
+  return new Map(Object.entries(valores));
+}
+
+function formatear(valor: number): string {
+  return String(Number(valor.toFixed(2)));
+}
@@ -0,0 +1,263 @@
+import * as path from 'path';
+import { cpus } from 'os';
+import { Worker } from 'worker_threads';
+import { Parser, BloqueResult, PreparedText } from './parser';
+import { ParserConfig, ParseOptions, ParseResult } from './types';
+import { PluginFactory } from './plugins';
+import { Deadline } from './utils/deadline';
+import { ParserError, ValidationError } from './utils/errors';
+import { MappedText, MappedTextData } from './utils/source-map';
+
+export interface ParserPoolOptions {
+  /** Número de workers (por defecto, núcleos disponibles menos uno) */
+  size?: number;
+
+  /** Bloques que se envían a un worker en cada tarea */
+  chunkSize?: number;
+
+  /** Plugins del PluginRegistry que se registran en el pool y en cada worker */
+  plugins?: string[];
+}
+
+/** Datos con los que arranca cada worker */
+export interface WorkerData {
+  config: ParserConfig;
+  plugins: string[];
+}
+
+/** Tarea enviada a un worker: bloques con su índice y su tramo de texto mapeado */
+export interface WorkerJob {
+  bloques: Array<{ index: number; source: MappedTextData }>;
+  deadline: number | null;
+}
+
+/** Tarea de preparación: el worker preprocesa, valida y divide el texto */
+export interface WorkerPrepareJob {
+  text: string;
+  deadline: number | null;
+}
+
+/** PreparedText tal como vuelve de un worker */
+export type PreparedTextData = Omit<PreparedText, 'source'> & { source: MappedTextData };
+
+export type WorkerReply =
+  | { resultados: BloqueResult[] }
+  | { prepared: PreparedTextData }
+  | { error: { message: string; code?: string; validationErrors?: string[] } };
+
+// En desarrollo (ts-node/jest) el worker se carga desde el fuente TypeScript con ts-node
+const WORKER_EXTENSION = path.extname(__filename);
+const WORKER_FILE = path.join(__dirname, `parser-worker${WORKER_EXTENSION}`);
+
+/**
+ * Parser que reparte los bloques de un texto entre workers (`worker_threads`)
+ * y combina jugadas, estadísticas y resumen en el orden original.
+ *
+ * Solo `parseAsync` usa los workers (también para preparar el texto, así el
+ * hilo principal no se bloquea); `parse` sigue siendo síncrono y local.
+ * Los plugins registrados con `registerPlugin` no llegan a los workers:
+ * deben indicarse por nombre en `options.plugins`.
+ */
+export class ParserPool extends Parser {
+  private workers: Worker[] = [];
+  private readonly size: number;
+  private readonly chunkSize: number;
+  private readonly pluginNames: string[];
+
+  constructor(config: Partial<ParserConfig> = {}, options: ParserPoolOptions = {}) {
+    super(config);
+    this.size = Math.max(1, options.size ?? cpus().length - 1);
+    this.chunkSize = Math.max(1, options.chunkSize ?? 50);
+    this.pluginNames = options.plugins ?? [];
+
+    for (const name of this.pluginNames) {
+      const plugin = PluginFactory.create(name);
+      if (!plugin) {
+        throw new ParserError(`Plugin desconocido: ${name}`);
+      }
+      this.registerPlugin(plugin);
+    }
+  }
+
+  async parseAsync(text: string, options: ParseOptions = {}): Promise<ParseResult> {
+    const startTime = performance.now();
+    const deadline = Deadline.start(options, this.config.timeout);
+
+    try {
+      await this.initialize();
+      deadline.check();
+
+      const cached = this.getCached(text);
+      if (cached) {
+        return cached;
+      }
+
+      const prepared = await this.prepare(text, deadline);
+      const resultados = await this.distribute(prepared, deadline);
+
+      return this.buildResult(text, prepared, resultados, startTime);
+    } catch (error) {
+      return this.buildErrorResult(text, error, startTime);
+    }
+  }
+
+  /**
+   * Termina los workers además de liberar los recursos del parser
+   */
+  async cleanup(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    await Promise.all(workers.map(worker => worker.terminate()));
+    await super.cleanup();
+  }
+
+  /**
+   * Prepara el texto en un worker. Un timeout o una cancelación lanzan
+   * TimeoutError, como `prepareText`.
+   */
+  private async prepare(text: string, deadline: Deadline): Promise<PreparedText> {
+    const [worker] = this.ensureWorkers(1);
+    let reply: WorkerReply | null;
+    try {
+      reply = await this.runJob(worker, { text, deadline: deadline.expiresAt }, deadline);
+    } catch (error) {
+      // El worker comparte el tiempo límite: su error de timeout se relanza como TimeoutError
+      deadline.check();
+      throw error;
+    }
+    deadline.check();
+    if (!reply || !('prepared' in reply)) {
+      throw new ParserError('El worker no devolvió el texto preparado');
+    }
+
+    const { source, ...prepared } = reply.prepared;
+    return { ...prepared, source: MappedText.fromJSON(source) };
+  }
+
+  /**
+   * Procesa los bloques en los workers y devuelve los resultados en orden,
+   * hasta el primer bloque interrumpido por timeout o cancelación
+   */
+  private async distribute(prepared: PreparedText, deadline: Deadline): Promise<BloqueResult[]> {
+    const { bloques, source } = prepared;
+    const tramos: number[] = [];
+    for (let start = 0; start < bloques.length; start += this.chunkSize) {
+      tramos.push(start);
+    }
+
+    const porTramo: BloqueResult[][] = [];
+    let siguiente = 0;
+
+    const atender = async (worker: Worker): Promise<void> => {
+      while (siguiente < tramos.length && !deadline.aborted && !deadline.expired) {
+        const tramo = siguiente++;
+        const start = tramos[tramo];
+        const job: WorkerJob = {
+          bloques: bloques.slice(start, start + this.chunkSize).map((bloque, i) => ({
+            index: start + i,
+            source: source.slice(bloque.offset, bloque.offset + bloque.text.length).toJSON(),
+          })),
+          deadline: deadline.expiresAt,
+        };
+        const reply = await this.runJob(worker, job, deadline);
+        if (reply && 'resultados' in reply) {
+          porTramo[tramo] = reply.resultados;
+        }
+      }
+    };
+
+    await Promise.all(this.ensureWorkers(Math.min(this.size, tramos.length)).map(atender));
+
+    const resultados: BloqueResult[] = [];
+    for (const [tramo, start] of tramos.entries()) {
+      // Un tramo sin procesar solo puede deberse a un timeout o cancelación:
+      // processBloque lo registra en el primer bloque pendiente
+      const tramoResultados = porTramo[tramo] ?? [
+        this.processBloque(bloques[start], start, source, deadline),
+      ];
+      resultados.push(...tramoResultados);
+
+      if (tramoResultados.some(r => r.timedOut)) break;
+    }
+
+    return resultados;
+  }
+
+  /**
+   * Envía una tarea a un worker. Si se cancela el parseo mientras el worker la
+   * procesa (de forma síncrona, así que no atendería un aviso) se termina el
+   * worker y se resuelve con null; el pool crea otro cuando lo necesita.
+   */
+  private runJob(
+    worker: Worker,
+    job: WorkerJob | WorkerPrepareJob,
+    deadline: Deadline
+  ): Promise<WorkerReply | null> {
+    return new Promise((resolve, reject) => {
+      let quitarAbort = (): void => undefined;
+      const onMessage = (reply: WorkerReply): void => {
+        done();
+        if ('error' in reply) {
+          const { message, code, validationErrors } = reply.error;
+          reject(
+            validationErrors
+              ? new ValidationError(message, validationErrors)
+              : new ParserError(message, undefined, code)
+          );
+        } else {
+          resolve(reply);
+        }
+      };
+      const onError = (error: Error): void => {
+        done();
+        reject(error);
+      };
+      const onExit = (code: number): void => {
+        done();
+        reject(new ParserError(`El worker terminó inesperadamente (código ${code})`));
+      };
+      const done = (): void => {
+        quitarAbort();
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+        // Un worker inactivo no mantiene vivo el proceso
+        worker.unref();
+      };
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      worker.ref();
+      worker.postMessage(job);
+
+      quitarAbort = deadline.onAbort(() => {
+        done();
+        this.workers = this.workers.filter(w => w !== worker);
+        void worker.terminate();
+        resolve(null);
+      });
+    });
+  }
+
+  private ensureWorkers(count: number): Worker[] {
+    while (this.workers.length < count) {
+      const workerData: WorkerData = { config: this.config, plugins: this.pluginNames };
+      const worker =
+        WORKER_EXTENSION === '.ts'
+          ? new Worker(
+              `require('ts-node/register/transpile-only');\nrequire(${JSON.stringify(WORKER_FILE)});`,
+              { eval: true, workerData }
+            )
+          : new Worker(WORKER_FILE, { workerData });
+
+      worker.on('exit', () => {
+        this.workers = this.workers.filter(w => w !== worker);
+      });
+      worker.unref();
+      this.workers.push(worker);
+    }
+
+    return this.workers.slice(0, count);
+  }
+}
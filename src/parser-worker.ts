@@ -0,0 +1,71 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Parser, BloqueResult } from './parser';
+import { PluginFactory } from './plugins';
+import { Deadline } from './utils/deadline';
+import { ParserError, ValidationError } from './utils/errors';
+import { MappedText } from './utils/source-map';
+import type {
+  PreparedTextData,
+  WorkerData,
+  WorkerJob,
+  WorkerPrepareJob,
+  WorkerReply,
+} from './parser-pool';
+
+/**
+ * Parser de un worker de ParserPool: prepara el texto y procesa los bloques que
+ * envía el hilo principal
+ */
+class WorkerParser extends Parser {
+  prepare(job: WorkerPrepareJob): PreparedTextData {
+    const deadline = Deadline.start({ deadline: job.deadline ?? undefined });
+    const prepared = this.prepareText(job.text, deadline);
+    return { ...prepared, source: prepared.source.toJSON() };
+  }
+
+  run(job: WorkerJob): BloqueResult[] {
+    const deadline = Deadline.start({ deadline: job.deadline ?? undefined });
+    const resultados: BloqueResult[] = [];
+
+    for (const { index, source } of job.bloques) {
+      // Cada bloque llega con su propio tramo de texto, así que su offset es 0
+      const texto = MappedText.fromJSON(source);
+      const resultado = this.processBloque({ text: texto.text, offset: 0 }, index, texto, deadline);
+      resultados.push(resultado);
+
+      if (resultado.timedOut) break;
+    }
+
+    return resultados;
+  }
+}
+
+const data = workerData as WorkerData;
+const parser = new WorkerParser(data.config);
+
+for (const name of data.plugins) {
+  const plugin = PluginFactory.create(name);
+  if (plugin) {
+    parser.registerPlugin(plugin);
+  }
+}
+
+const ready = parser.initialize();
+
+parentPort?.on('message', (job: WorkerJob | WorkerPrepareJob) => {
+  void ready.then(() => {
+    let reply: WorkerReply;
+    try {
+      reply = 'text' in job ? { prepared: parser.prepare(job) } : { resultados: parser.run(job) };
+    } catch (error) {
+      reply = {
+        error: {
+          message: error instanceof Error ? error.message : 'Error desconocido',
+          code: error instanceof ParserError ? error.code : undefined,
+          validationErrors: error instanceof ValidationError ? error.validationErrors : undefined,
+        },
+      };
+    }
+    parentPort?.postMessage(reply);
+  });
+});
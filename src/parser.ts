@@ -6,15 +6,53 @@ import {
   Jugada, 
   ValidationResult,
   ProcessorPlugin,
-  PluginContext
+  PluginContext,
+  DetalleApuesta,
+  TipoApuesta,
+  BloqueNode,
+  ApuestaLineaNode,
+  Diagnostic,
+  DiagnosticCode,
+  SourceSpan,
+  ParseOptions,
+  LineaAmbigua,
+  LineaNode,
+  PluginPhase,
+  PluginLineState,
+  EdicionTexto,
+  Sustitucion
 } from './types';
 import { Preprocessor } from './preprocessor';
 import { PatternExpander } from './pattern-expander';
+import { AstBuilder } from './ast-builder';
+import { BlockDetector } from './block-detector';
+import { MappedText } from './utils/source-map';
+import { createDiagnostic } from './utils/diagnostics';
+import { correctionDiagnostic } from './corrections';
+import { Deadline } from './utils/deadline';
+import { DIAGNOSTIC_CODES } from './constants/diagnostics';
+import { DEFAULT_HOUSE_RULES } from './constants/payouts';
 import { Validator } from './validators';
+import { LecturaLinea, combinarLecturas, leerLinea } from './ambiguity';
+import { LineaObservada, confianzaJugada, confianzaLinea, confianzaResultado } from './confidence';
 import { CacheManager } from './utils/cache';
-import { ParserError, ValidationError } from './utils/errors';
-import { formatCurrency, normalizeNumber } from './utils/formatters';
-import { detectPatterns, extractMetadata } from './utils/analyzers';
+import { ParserError, ValidationError, TimeoutError } from './utils/errors';
+import { normalizeNumber } from './utils/formatters';
+import {
+  calcularCombinaciones,
+  crearDetalle,
+  detalleCandado,
+  detalleParle,
+  detalleParlePares,
+  detallesCentena
+} from './bet-pricing';
+import { calculateStats, extractMetadata } from './utils/analyzers';
+
+/** Diagnósticos de los límites de la casa */
+const LIMIT_CODES: DiagnosticCode[] = [
+  DIAGNOSTIC_CODES.BELOW_MIN_BET,
+  DIAGNOSTIC_CODES.ABOVE_MAX_BET
+];
 
 const DEFAULT_CONFIG: ParserConfig = {
   strictMode: false,
@@ -37,18 +75,21 @@ const DEFAULT_CONFIG: ParserConfig = {
 };
 
 export class Parser {
-  private config: ParserConfig;
-  private preprocessor: Preprocessor;
+  protected config: ParserConfig;
+  protected preprocessor: Preprocessor;
   private expander: PatternExpander;
+  private astBuilder: AstBuilder;
   private validator: Validator;
   private cache: CacheManager;
   private plugins: ProcessorPlugin[] = [];
   private isInitialized = false;
+  private pluginsInitialized = false;
 
   constructor(config: Partial<ParserConfig> = {}) {
     this.config = merge({}, DEFAULT_CONFIG, config);
     this.preprocessor = new Preprocessor(this.config);
     this.expander = new PatternExpander(this.config);
+    this.astBuilder = new AstBuilder(this.config);
     this.validator = new Validator(this.config);
     this.cache = new CacheManager(this.config.cache);
     this.registerDefaultPlugins();
@@ -60,17 +101,26 @@ export class Parser {
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
     
+    this.initializePlugins();
+    
     // Inicializar caché
     await this.cache.initialize();
     
-    // Inicializar plugins
+    this.isInitialized = true;
+  }
+
+  /**
+   * Inicializa los plugins (síncrono, para que `parse` pueda usarlos sin esperar a la caché)
+   */
+  private initializePlugins(): void {
+    if (this.pluginsInitialized) return;
+    
     for (const plugin of this.plugins) {
       if (plugin.init) {
         plugin.init(this.config);
       }
     }
-    
-    this.isInitialized = true;
+    this.pluginsInitialized = true;
   }
 
   /**
@@ -80,63 +130,334 @@ export class Parser {
     this.plugins.push(plugin);
     this.plugins.sort((a, b) => b.priority - a.priority);
     
-    if (this.isInitialized && plugin.init) {
+    if (this.pluginsInitialized && plugin.init) {
       plugin.init(this.config);
     }
   }
 
   /**
-   * Parsea un texto completo con múltiples jugadas
+   * Parsea un texto completo con múltiples jugadas.
+   * Si se cancela o vence el tiempo límite devuelve las jugadas procesadas
+   * hasta ese momento con `metadata.timedOut`.
    */
-  parse(text: string): ParseResult {
-    const startTime = Date.now();
+  parse(text: string, options: ParseOptions = {}): ParseResult {
+    // Reloj de alta resolución: un parseo corto tarda menos de un milisegundo
+    const startTime = performance.now();
+    const deadline = Deadline.start(options, this.config.timeout);
     
     try {
-      // Inicializar si no está inicializado
+      // Inicializar si no está inicializado: un error de los plugins hace fallar
+      // este parseo; si falla la caché, se reintenta en la próxima llamada
       if (!this.isInitialized) {
-        this.initialize();
+        this.initializePlugins();
+        this.initialize().catch(() => undefined);
+      }
+
+      deadline.check();
+
+      const cached = this.getCached(text);
+      if (cached) {
+        return cached;
+      }
+
+      const prepared = this.prepareText(text, deadline);
+      const resultados: BloqueResult[] = [];
+
+      for (const [index, bloque] of prepared.bloques.entries()) {
+        const resultado = this.processBloque(bloque, index, prepared.source, deadline);
+        resultados.push(resultado);
+        if (resultado.timedOut) break;
+      }
+
+      return this.buildResult(text, prepared, resultados, startTime);
+    } catch (error) {
+      return this.buildErrorResult(text, error, startTime);
+    }
+  }
+
+  /**
+   * Versión asíncrona de `parse`: espera la inicialización y cede el event loop
+   * entre bloques para no bloquear al proceso con textos grandes.
+   */
+  async parseAsync(text: string, options: ParseOptions = {}): Promise<ParseResult> {
+    const startTime = performance.now();
+    const deadline = Deadline.start(options, this.config.timeout);
+
+    try {
+      await this.initialize();
+      deadline.check();
+
+      const cached = this.getCached(text);
+      if (cached) {
+        return cached;
       }
 
-      // Verificar timeout
-      if (this.config.timeout) {
-        setTimeout(() => {
-          throw new ParserError('Timeout excedido durante el parseo');
-        }, this.config.timeout);
+      const prepared = this.prepareText(text, deadline);
+      const resultados: BloqueResult[] = [];
+
+      for (const [index, bloque] of prepared.bloques.entries()) {
+        await cederTurno();
+        const resultado = this.processBloque(bloque, index, prepared.source, deadline);
+        resultados.push(resultado);
+        if (resultado.timedOut) break;
       }
 
-      // Verificar caché
-      const cacheKey = `parse:${hashString(text)}:${JSON.stringify(this.config)}`;
-      if (this.config.cache.enabled) {
-        const cached = this.cache.get(cacheKey);
-        if (cached) {
-          return cached as ParseResult;
+      return this.buildResult(text, prepared, resultados, startTime);
+    } catch (error) {
+      return this.buildErrorResult(text, error, startTime);
+    }
+  }
+
+  /**
+   * Resultado en caché para un texto (si la caché está habilitada)
+   */
+  protected getCached(text: string): ParseResult | null {
+    if (!this.config.cache.enabled) {
+      return null;
+    }
+    
+    const cached = this.cache.get(this.cacheKey(text)) as ParseResult | null;
+    if (!cached) {
+      return null;
+    }
+    // Las estadísticas de la caché son las de ahora, no las de cuando se guardó
+    const cacheStats = this.cache.getStats();
+    return { ...cached, metadata: { ...cached.metadata, cacheStats } };
+  }
+
+  /**
+   * Preprocesa y valida el texto y lo divide en bloques (uno por jugador).
+   * Un timeout o una cancelación en este paso lanzan TimeoutError.
+   */
+  protected prepareText(text: string, deadline = Deadline.NONE): PreparedText {
+    // Preprocesar (conservando el mapa de offsets hacia el texto original)
+    const { source, sustituciones, ediciones } = this.preprocessor.processDetailed(
+      text,
+      0,
+      deadline
+    );
+    
+    // Validación inicial
+    const validation = this.validator.validateSyntax(source.text, deadline);
+    if (!validation.valid && this.config.strictMode) {
+      throw new ValidationError('Validación de sintaxis fallida', validation.errors);
+    }
+
+    const bloques = this.extractBloques(source.text);
+    
+    if (bloques.length > this.config.maxJugadores) {
+      throw new ParserError(
+        `Número máximo de jugadores excedido: ${bloques.length} > ${this.config.maxJugadores}`,
+        undefined,
+        DIAGNOSTIC_CODES.TOO_MANY_PLAYERS
+      );
+    }
+
+    return { source, validation, bloques, sustituciones, ediciones };
+  }
+
+  /**
+   * Procesa y valida un bloque. Los errores quedan en el resultado
+   * (en modo estricto se lanzan); un timeout deja `timedOut` con la jugada parcial.
+   */
+  protected processBloque(
+    bloque: BloqueFuente,
+    index: number,
+    source: MappedText,
+    deadline: Deadline
+  ): BloqueResult {
+    const bloqueSpan = source.originalSpan(bloque.offset, bloque.offset + bloque.text.length);
+    const resultado: BloqueResult = { warnings: [], errors: [], diagnostics: [], timedOut: false };
+    
+    try {
+      deadline.check();
+      const jugada = this.parseBloque(bloque, index, source, deadline);
+      resultado.jugada = jugada;
+
+      // Validar jugada individual. Los diagnósticos se informan siempre;
+      // el modo estricto decide si los errores hacen fallar el parseo
+      const jugadaValidation = this.validator.validateJugada(jugada);
+      if (!jugadaValidation.valid) {
+        resultado.warnings.push(...jugadaValidation.warnings.map(w => `[${jugada.jugador}] ${w}`));
+        if (this.config.strictMode) {
+          resultado.errors.push(...jugadaValidation.errors.map(e => `[${jugada.jugador}] ${e}`));
         }
+        resultado.diagnostics.push(
+          ...(jugadaValidation.diagnostics ?? []).map(d => ({ ...d, span: d.span ?? bloqueSpan }))
+        );
+      } else {
+        // Las apuestas fuera de los límites de la casa se informan aunque la jugada sea válida
+        const fueraDeLimite = (jugadaValidation.diagnostics ?? []).filter(d =>
+          LIMIT_CODES.includes(d.code)
+        );
+        resultado.warnings.push(...fueraDeLimite.map(d => `[${jugada.jugador}] ${d.message}`));
+        resultado.diagnostics.push(
+          ...fueraDeLimite.map(d => ({ ...d, span: d.span ?? bloqueSpan }))
+        );
       }
 
-      // Preprocesar
-      const preprocessed = this.preprocessor.process(text);
+      deadline.check();
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        // Resultado parcial: se conservan los bloques ya procesados
+        resultado.timedOut = true;
+        resultado.errors.push(error.message);
+        const code = diagnosticCodeOf(error, DIAGNOSTIC_CODES.TIMEOUT);
+        resultado.diagnostics.push(createDiagnostic(code, 'error', error.message, { span: bloqueSpan }));
+        return resultado;
+      }
+      
+      const errorMsg = `Error procesando bloque ${index + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+      const code = diagnosticCodeOf(error, DIAGNOSTIC_CODES.BLOCK_PARSE_ERROR);
+      resultado.errors.push(errorMsg);
+      resultado.diagnostics.push(createDiagnostic(code, 'error', errorMsg, { span: bloqueSpan }));
       
-      // Validación inicial
-      const validation = this.validator.validateSyntax(preprocessed);
-      if (!validation.valid && this.config.strictMode) {
-        throw new ValidationError('Validación de sintaxis fallida', validation.errors);
+      if (this.config.strictMode) {
+        throw new ParserError(errorMsg, { bloque: bloque.text, span: bloqueSpan }, code);
       }
+    }
 
-      // Procesar bloques
-      const bloques = this.extractBloques(preprocessed);
-      
-      if (bloques.length > this.config.maxJugadores) {
-        throw new ParserError(
-          `Número máximo de jugadores excedido: ${bloques.length} > ${this.config.maxJugadores}`
+    return resultado;
+  }
+
+  /**
+   * Combina los resultados de los bloques, en orden, en el resultado final
+   */
+  protected buildResult(
+    text: string,
+    prepared: PreparedText,
+    resultados: BloqueResult[],
+    startTime: number
+  ): ParseResult {
+    const jugadas: Jugada[] = [];
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    const diagnostics: Diagnostic[] = prepared.ediciones.map(e => correctionDiagnostic(e));
+    let timedOut = false;
+
+    for (const resultado of resultados) {
+      if (resultado.jugada) {
+        jugadas.push(resultado.jugada);
+      }
+
+      warnings.push(...resultado.warnings);
+      errors.push(...resultado.errors);
+      diagnostics.push(...resultado.diagnostics);
+
+      if (resultado.timedOut) {
+        timedOut = true;
+        break;
+      }
+    }
+
+    // Un texto sin ninguna apuesta no se pudo parsear: se informa por qué
+    if (!timedOut && jugadas.every(j => j.detalles.length === 0)) {
+      const diagnosticos = prepared.validation.diagnostics ?? [];
+      const sinApuestas = diagnosticos.filter(d => d.severity === 'error');
+      if (sinApuestas.length > 0) {
+        errors.push(...sinApuestas.map(d => d.message));
+        diagnostics.push(
+          ...sinApuestas.map(d => ({
+            ...d,
+            span: d.span && prepared.source.originalSpan(d.span.start, d.span.end)
+          }))
         );
+      } else {
+        const message = 'No se encontraron apuestas';
+        errors.push(message);
+        const span = { start: 0, end: text.length };
+        diagnostics.push(createDiagnostic(DIAGNOSTIC_CODES.NO_BETS, 'error', message, { span }));
       }
+    }
+
+    // Calcular totales con precisión decimal
+    const totalCalculado = jugadas.reduce((sum, j) => 
+      new Decimal(sum).plus(j.totalCalculado).toNumber(), 0
+    );
+    
+    const totalDeclarado = jugadas.reduce((sum, j) => 
+      new Decimal(sum).plus(j.totalDeclarado || 0).toNumber(), 0
+    );
+    
+    const difference = Math.abs(totalCalculado - totalDeclarado);
+    const isValid = difference < 0.01;
+    
+    const parseTime = performance.now() - startTime;
+    const { valor: confidence, factores: confidenceFactors } = confianzaResultado(
+      jugadas,
+      prepared.validation
+    );
 
-      const jugadas: Jugada[] = [];
-      const warnings: string[] = [];
-      const errors: string[] = [];
+    const result: ParseResult = {
+      success: errors.length === 0,
+      jugadas,
+      summary: {
+        totalJugadas: jugadas.length,
+        totalCalculado,
+        totalDeclarado,
+        difference,
+        isValid,
+        confidence,
+        confidenceFactors
+      },
+      metadata: {
+        parseTime,
+        originalLength: text.length,
+        processedLength: prepared.source.length,
+        warnings,
+        errors,
+        diagnostics,
+        timedOut,
+        ...(prepared.sustituciones.length > 0 && { substitutions: prepared.sustituciones }),
+        ...(prepared.ediciones.length > 0 && { edits: prepared.ediciones }),
+        ...(this.config.cache.enabled && { cacheStats: this.cache.getStats() })
+      },
+      stats: calculateStats(jugadas)
+    };
+
+    // Guardar en caché
+    if (this.config.cache.enabled && result.success && !timedOut) {
+      this.cache.set(this.cacheKey(text), result);
+    }
+
+    return result;
+  }
 
-      // Estadísticas
-      const stats = {
+  /**
+   * Resultado de un parseo que falló por completo
+   */
+  protected buildErrorResult(text: string, error: unknown, startTime: number): ParseResult {
+    const parseTime = performance.now() - startTime;
+    
+    return {
+      success: false,
+      jugadas: [],
+      summary: {
+        totalJugadas: 0,
+        totalCalculado: 0,
+        totalDeclarado: 0,
+        difference: 0,
+        isValid: false,
+        confidence: 0
+      },
+      metadata: {
+        parseTime,
+        originalLength: text.length,
+        processedLength: 0,
+        warnings: [],
+        errors: [error instanceof Error ? error.message : 'Error desconocido'],
+        diagnostics: [
+          createDiagnostic(
+            diagnosticCodeOf(error, DIAGNOSTIC_CODES.PARSE_FAILED),
+            'error',
+            error instanceof Error ? error.message : 'Error desconocido',
+            { span: { start: 0, end: text.length } }
+          )
+        ],
+        timedOut: error instanceof TimeoutError,
+        ...(this.config.cache.enabled && { cacheStats: this.cache.getStats() })
+      },
+      stats: {
         fijos: 0,
         corridos: 0,
         parles: 0,
@@ -145,123 +466,31 @@ export class Parser {
         especiales: 0,
         totalApuestas: 0,
         totalNumeros: 0
-      };
-
-      for (const [index, bloque] of bloques.entries()) {
-        try {
-          const jugada = this.parseBloque(bloque, index);
-          jugadas.push(jugada);
-
-          // Actualizar estadísticas
-          jugada.detalles.forEach(detalle => {
-            stats[detalle.tipo as keyof typeof stats] += detalle.monto;
-            stats.totalApuestas++;
-            stats.totalNumeros += detalle.numeros.length;
-          });
-
-          // Validar jugada individual
-          const jugadaValidation = this.validator.validateJugada(jugada);
-          if (!jugadaValidation.valid) {
-            warnings.push(...jugadaValidation.warnings.map(w => `[${jugada.jugador}] ${w}`));
-            if (this.config.strictMode) {
-              errors.push(...jugadaValidation.errors.map(e => `[${jugada.jugador}] ${e}`));
-            }
-          }
-        } catch (error) {
-          const errorMsg = `Error procesando bloque ${index + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`;
-          errors.push(errorMsg);
-          
-          if (this.config.strictMode) {
-            throw new ParserError(errorMsg, { bloque });
-          }
-        }
-      }
-
-      // Calcular totales con precisión decimal
-      const totalCalculado = jugadas.reduce((sum, j) => 
-        new Decimal(sum).plus(j.totalCalculado).toNumber(), 0
-      );
-      
-      const totalDeclarado = jugadas.reduce((sum, j) => 
-        new Decimal(sum).plus(j.totalDeclarado || 0).toNumber(), 0
-      );
-      
-      const difference = Math.abs(totalCalculado - totalDeclarado);
-      const isValid = difference < 0.01;
-      
-      const parseTime = Date.now() - startTime;
-      const confidence = this.calculateConfidence(jugadas, validation);
-
-      const result: ParseResult = {
-        success: errors.length === 0,
-        jugadas,
-        summary: {
-          totalJugadas: jugadas.length,
-          totalCalculado,
-          totalDeclarado,
-          difference,
-          isValid,
-          confidence
-        },
-        metadata: {
-          parseTime,
-          originalLength: text.length,
-          processedLength: preprocessed.length,
-          warnings,
-          errors,
-          cacheStats: this.cache.getStats()
-        },
-        stats
-      };
-
-      // Guardar en caché
-      if (this.config.cache.enabled && result.success) {
-        this.cache.set(cacheKey, result);
       }
+    };
+  }
 
-      return result;
-    } catch (error) {
-      const parseTime = Date.now() - startTime;
-      
-      return {
-        success: false,
-        jugadas: [],
-        summary: {
-          totalJugadas: 0,
-          totalCalculado: 0,
-          totalDeclarado: 0,
-          difference: 0,
-          isValid: false,
-          confidence: 0
-        },
-        metadata: {
-          parseTime,
-          originalLength: text.length,
-          processedLength: 0,
-          warnings: [],
-          errors: [error instanceof Error ? error.message : 'Error desconocido'],
-          cacheStats: this.cache.getStats()
-        },
-        stats: {
-          fijos: 0,
-          corridos: 0,
-          parles: 0,
-          centenas: 0,
-          candados: 0,
-          especiales: 0,
-          totalApuestas: 0,
-          totalNumeros: 0
-        }
-      };
-    }
+  private cacheKey(text: string): string {
+    return `parse:${hashString(text)}:${JSON.stringify(this.config)}`;
   }
 
   /**
    * Valida una jugada sin procesarla completamente
    */
   validate(text: string): ValidationResult {
-    const preprocessed = this.preprocessor.process(text);
-    return this.validator.validateSyntax(preprocessed);
+    const source = this.preprocessor.processWithMap(text);
+    const validation = this.validator.validateSyntax(source.text);
+    
+    // Los rangos del validador se refieren al texto preprocesado
+    const toOriginal = (span?: SourceSpan) => span && source.originalSpan(span.start, span.end);
+    return {
+      ...validation,
+      diagnostics: validation.diagnostics?.map(d => ({
+        ...d,
+        span: toOriginal(d.span),
+        fix: d.fix && { ...d.fix, span: toOriginal(d.fix.span) }
+      }))
+    };
   }
 
   /**
@@ -272,21 +501,22 @@ export class Parser {
     const bloques = this.extractBloques(preprocessed);
     
     return bloques.map((bloque, index) => {
-      const lineas = bloque.split('\n').filter(l => l.trim());
-      const jugador = this.extractJugador(bloque);
+      const ast = this.astBuilder.parseBloque(bloque.text, bloque.offset);
       
       return {
         id: index + 1,
-        jugador,
-        lineCount: lineas.length,
-        lines: lineas.map((line, i) => ({
-          number: i + 1,
-          content: line,
-          hasNumbers: /\d/.test(line),
-          hasAmounts: /(?:con|de|a)\s*[\d.,]+/i.test(line),
-          patternTypes: detectPatterns(line)
+        jugador: ast.jugador ?? 'Desconocido',
+        lineCount: ast.lineas.length,
+        lines: ast.lineas.map(linea => ({
+          number: linea.index + 1,
+          content: linea.text,
+          hasNumbers: linea.tokens.some(t => t.type === 'NUMBER' || t.type === 'AMOUNT'),
+          hasAmounts: linea.kind === 'apuesta' && (
+            linea.montos.length > 0 || !!linea.parle?.monto || !!linea.candado?.monto
+          ),
+          patternTypes: linea.kind === 'apuesta' ? linea.patrones.map(p => p.type) : []
         })),
-        metadata: extractMetadata(bloque)
+        metadata: extractMetadata(bloque.text)
       };
     });
   }
@@ -304,6 +534,7 @@ export class Parser {
     }
     
     this.isInitialized = false;
+    this.pluginsInitialized = false;
   }
 
   /**
@@ -328,148 +559,416 @@ export class Parser {
     // Estos pueden estar en un archivo separado
   }
 
-  private extractBloques(text: string): string[] {
-    // Implementación mejorada de extracción de bloques
-    const lines = text.split('\n');
-    const bloques: string[] = [];
-    let currentBloque: string[] = [];
-    let inBloque = false;
+  private extractBloques(text: string): BloqueFuente[] {
+    // Cada bloque es un tramo contiguo de líneas; se guarda su offset en el texto
+    const detector = new BlockDetector();
+    const bloques: BloqueFuente[] = [];
+    let start = -1;
+    let end = -1;
+    let lineStart = 0;
 
-    for (const line of lines) {
-      const trimmed = line.trim();
-      
-      if (!trimmed) {
-        if (inBloque && currentBloque.length > 0) {
-          bloques.push(currentBloque.join('\n'));
-          currentBloque = [];
-          inBloque = false;
+    const cerrarBloque = () => {
+      if (start !== -1) {
+        bloques.push({ text: text.slice(start, end), offset: start });
+      }
+      start = -1;
+    };
+
+    for (const line of text.split('\n')) {
+      const lineEnd = lineStart + line.length;
+      const paso = detector.next(line);
+
+      if (paso.closeBefore) {
+        cerrarBloque();
+      }
+      if (paso.include) {
+        if (start === -1) {
+          start = lineStart + (line.length - line.trimStart().length);
         }
+        end = lineEnd;
+      }
+      if (paso.closeAfter) {
+        cerrarBloque();
+      }
+      lineStart = lineEnd + 1;
+    }
+
+    cerrarBloque();
+
+    return bloques.filter(b => b.text.trim().length > 0);
+  }
+
+  /**
+   * Pipeline de plugins de un bloque: los de `transform` reescriben el texto,
+   * cada línea la procesa el primer plugin de `extract` que la acepta (si
+   * ninguno, el procesamiento estándar) y los de `postprocess` revisan la
+   * jugada armada.
+   */
+  private parseBloque(
+    bloque: BloqueFuente,
+    bloqueIndex: number,
+    source: MappedText,
+    deadline: Deadline
+  ): Jugada {
+    // El bloque se lee con su propio mapa para poder reescribirlo sin tocar el resto
+    const original = source.slice(bloque.offset, bloque.offset + bloque.text.length);
+    let bloqueSource = original;
+    let ast = this.astBuilder.parseBloque(bloqueSource.text, 0, deadline);
+    let pluginContext = this.contextoPlugin(ast);
+    const usados: string[] = [];
+    const ediciones: EdicionTexto[] = [];
+
+    for (const plugin of this.pluginsDeFase('transform')) {
+      if (!plugin.transform || !plugin.canProcess(bloqueSource.text)) {
         continue;
       }
+      const resultado = plugin.transform(bloqueSource.text, pluginContext);
+      const { text: transformado, edits } =
+        typeof resultado === 'string' ? { text: resultado, edits: [] } : resultado;
 
-      // Detectar inicio de nuevo bloque (nombre de jugador)
-      if (this.validator.isNombreJugador(trimmed) && !inBloque) {
-        if (currentBloque.length > 0) {
-          bloques.push(currentBloque.join('\n'));
-        }
-        currentBloque = [trimmed];
-        inBloque = true;
-      } else {
-        currentBloque.push(line);
-        inBloque = true;
+      // Los rangos de las correcciones se refieren al texto que recibió el plugin
+      for (const edit of edits) {
+        const span = bloqueSource.originalSpan(edit.span.start, edit.span.end);
+        ediciones.push({ ...edit, span, plugin: plugin.name });
       }
+      if (transformado !== bloqueSource.text) {
+        bloqueSource = reescribir(bloqueSource, transformado);
+        ast = this.astBuilder.parseBloque(bloqueSource.text, 0, deadline);
+        pluginContext = this.contextoPlugin(ast);
+      }
+      usados.push(plugin.name);
     }
 
-    if (currentBloque.length > 0) {
-      bloques.push(currentBloque.join('\n'));
+    const extraer = (linea: LineaNode, state: PluginLineState): LineaExtraida | null =>
+      this.extraerConPlugin(linea, pluginContext, state);
+
+    let jugada = this.parseBloqueStandard(ast, bloqueIndex, bloqueSource, deadline, extraer);
+    usados.push(...(jugada.metadata.plugins ?? []));
+    if (ediciones.length > 0) {
+      jugada = {
+        ...jugada,
+        ediciones,
+        diagnostics: [
+          ...(jugada.diagnostics ?? []),
+          ...ediciones.map(e => correctionDiagnostic(e, jugada.jugador))
+        ]
+      };
     }
 
-    return bloques.filter(b => b.trim().length > 0);
-  }
+    const bloqueSpan = original.originalSpan(0, original.length);
+    for (const plugin of this.pluginsDeFase('postprocess')) {
+      if (!plugin.canProcess(bloqueSource.text)) {
+        continue;
+      }
+      if (plugin.postProcess) {
+        jugada = plugin.postProcess(jugada, pluginContext);
+      }
+      const validation = plugin.validate(jugada);
+      jugada = {
+        ...jugada,
+        warnings: [...jugada.warnings, ...validation.warnings],
+        errors: [...jugada.errors, ...validation.errors],
+        diagnostics: [
+          ...(jugada.diagnostics ?? []),
+          ...(validation.diagnostics ?? []).map(d => ({ ...d, span: d.span ?? bloqueSpan }))
+        ]
+      };
+      usados.push(plugin.name);
+    }
 
-  private extractJugador(bloque: string): string {
-    const firstLine = bloque.split('\n')[0]?.trim() || '';
-    if (this.validator.isNombreJugador(firstLine)) {
-      return firstLine;
+    if (usados.length === 0) {
+      return jugada;
     }
-    return 'Desconocido';
+    return this.enrichJugada(
+      { ...jugada, metadata: { ...jugada.metadata, plugins: [...new Set(usados)] } },
+      bloqueIndex
+    );
   }
 
-  private parseBloque(bloque: string, bloqueIndex: number): Jugada {
-    const lineas = bloque.split('\n').map(l => l.trim()).filter(l => l);
-    const jugador = this.extractJugador(bloque);
-    
-    // Intentar con plugins primero
-    const pluginContext: PluginContext = {
+  /**
+   * Plugins registrados para una fase, de mayor a menor prioridad
+   * (los que no declaran fase son extractores)
+   */
+  private pluginsDeFase(fase: PluginPhase): ProcessorPlugin[] {
+    return this.plugins.filter(p => (p.phase ?? 'extract') === fase);
+  }
+
+  private contextoPlugin(ast: BloqueNode): PluginContext {
+    return {
       config: this.config,
-      jugador,
-      totalDeclarado: this.extractTotalDeclarado(bloque),
-      lineas: lineas.filter(l => 
-        !this.validator.isNombreJugador(l) && 
-        !this.validator.isTotalLine(l)
-      )
+      jugador: ast.jugador ?? 'Desconocido',
+      totalDeclarado: ast.totalDeclarado,
+      lineas: ast.lineas.filter(l => l.kind !== 'nombre' && l.kind !== 'total').map(l => l.text),
+      ast
     };
+  }
 
-    for (const plugin of this.plugins) {
-      if (plugin.canProcess(bloque)) {
-        const jugada = plugin.process(bloque, pluginContext);
-        if (jugada) {
-          return this.enrichJugada(jugada, bloqueIndex);
+  /**
+   * Apuestas de una línea según el primer extractor que la reclama.
+   * Con `processLine` el plugin recibe la línea y el estado del bloque; con
+   * `process`, un bloque con esa única línea.
+   */
+  private extraerConPlugin(
+    linea: LineaNode,
+    context: PluginContext,
+    state: PluginLineState
+  ): LineaExtraida | null {
+    const lineContext: PluginContext = {
+      ...context,
+      currentLine: linea.text,
+      lineIndex: linea.index,
+      state,
+      ast: context.ast && { ...context.ast, lineas: [linea] }
+    };
+
+    for (const plugin of this.pluginsDeFase('extract')) {
+      if (!plugin.canProcess(linea.text)) {
+        continue;
+      }
+
+      if (plugin.processLine) {
+        const resultado = plugin.processLine(linea.text, lineContext);
+        if (resultado) {
+          return {
+            plugin: plugin.name,
+            detalles: resultado.detalles,
+            warnings: resultado.warnings ?? [],
+            errors: [],
+            metadata: {},
+            state: resultado.state
+          };
         }
+        continue;
       }
-    }
 
-    // Procesamiento estándar
-    return this.parseBloqueStandard(jugador, lineas, bloqueIndex);
+      const jugada = plugin.process(linea.text, { ...lineContext, lineas: [linea.text] });
+      if (jugada) {
+        return {
+          plugin: plugin.name,
+          detalles: jugada.detalles,
+          warnings: jugada.warnings,
+          errors: jugada.errors,
+          diagnostics: jugada.diagnostics,
+          metadata: metadatosPropios(jugada)
+        };
+      }
+    }
+    return null;
   }
 
   private parseBloqueStandard(
-    jugador: string,
-    lineas: string[],
-    bloqueIndex: number
+    ast: BloqueNode,
+    bloqueIndex: number,
+    source: MappedText,
+    deadline: Deadline,
+    extraer: (linea: LineaNode, state: PluginLineState) => LineaExtraida | null = () => null
   ): Jugada {
-    // Implementación del procesamiento estándar
-    // Esta es la lógica principal de tu parser original
-    
+    const { jugada, opciones } = this.leerBloque(ast, source, deadline, new Map(), extraer);
+    if (jugada.isValid || !this.config.validateTotals || opciones.size === 0) {
+      return jugada;
+    }
+
+    // El total declarado no cuadra: probar las otras lecturas de las líneas ambiguas
+    const ambiguas = [...opciones.entries()];
+    for (const combinacion of combinarLecturas(ambiguas.map(([, validas]) => validas.length))) {
+      if (deadline.aborted || deadline.expired) {
+        break;
+      }
+      const elecciones = new Map(
+        ambiguas.map(([index, validas], i) => [index, validas[combinacion[i]]])
+      );
+      const intento = this.leerBloque(ast, source, deadline, elecciones, extraer).jugada;
+      if (intento.isValid) {
+        return intento;
+      }
+    }
+
+    return jugada;
+  }
+
+  /**
+   * Procesamiento estándar de un bloque
+   * @param elecciones lectura de cada línea ambigua por índice (por defecto la literal)
+   * @param extraer apuestas de la línea según un plugin (null si ningún plugin la reclama)
+   * @returns la jugada y, por línea ambigua, las lecturas que se pudieron procesar
+   */
+  private leerBloque(
+    ast: BloqueNode,
+    source: MappedText,
+    deadline: Deadline,
+    elecciones: Map<number, number>,
+    extraer: (linea: LineaNode, state: PluginLineState) => LineaExtraida | null
+  ): { jugada: Jugada; opciones: Map<number, number[]> } {
     const detalles: DetalleApuesta[] = [];
     const warnings: string[] = [];
     const errors: string[] = [];
+    const diagnostics: Diagnostic[] = [];
+    const observadas: LineaObservada[] = [];
+    const ambiguedades: LineaAmbigua[] = [];
+    const opciones = new Map<number, number[]>();
     let totalDeclarado: number | null = null;
     const betTypes = new Set<TipoApuesta>();
+    const plugins: string[] = [];
+    let pluginMetadata: Record<string, unknown> = {};
 
     const startTime = Date.now();
     let lastFijoMonto = this.config.defaultMontoFijo;
     let lastCorridoMonto = this.config.defaultMontoCorrido;
+    let jugador = ast.jugador ?? 'Desconocido';
+    let parlePendiente: string[] = [];
+    let timedOut = false;
 
-    for (let i = 0; i < lineas.length; i++) {
-      const linea = lineas[i];
-      
-      // Saltar línea de jugador
-      if (i === 0 && this.validator.isNombreJugador(linea)) {
+    for (const linea of ast.lineas) {
+      // Saltar línea de jugador (si es la única se ofrece a los plugins: puede ser una apuesta)
+      const esNombre = linea.index === 0 && linea.kind === 'nombre';
+      if (esNombre && ast.lineas.length > 1) {
         continue;
       }
 
       // Extraer total declarado
-      const totalMatch = linea.match(/total\s*[:=]?\s*\$?\s*([\d.,]+)/i);
-      if (totalMatch) {
-        totalDeclarado = parseFloat(totalMatch[1].replace(',', '.'));
+      if (linea.kind === 'total' && linea.monto) {
+        totalDeclarado = linea.monto.value;
+        continue;
+      }
+
+      // Al vencer el tiempo (también mientras decide un plugin) se devuelve la jugada con las líneas procesadas
+      const state: PluginLineState = {
+        montoFijo: lastFijoMonto,
+        montoCorrido: lastCorridoMonto,
+        jugador,
+        parlePendiente
+      };
+      const extraida = deadline.aborted || deadline.expired ? null : extraer(linea, state);
+      if (deadline.aborted || deadline.expired) {
+        timedOut = true;
+        break;
+      }
+      if (esNombre && !extraida) {
         continue;
       }
 
       try {
-        const detallesLinea = this.parseLinea(
-          linea,
-          i,
-          lastFijoMonto,
-          lastCorridoMonto
-        );
+        let detallesLinea: DetalleApuesta[];
+        const span = source.originalSpan(linea.span.start, linea.span.end);
+
+        if (extraida) {
+          detallesLinea = extraida.detalles.map(d => ({
+            ...d,
+            lineaNumero: d.lineaNumero ?? linea.index + 1,
+            span: d.span ?? span
+          }));
+          warnings.push(...extraida.warnings);
+          errors.push(...extraida.errors);
+          diagnostics.push(
+            ...(extraida.diagnostics ?? this.diagnosticosDePlugin(extraida, span, jugador))
+          );
+          observadas.push({
+            lineaNumero: linea.index + 1,
+            texto: linea.text,
+            span,
+            sinMonto: linea.kind === 'apuesta' && !declaraMonto(linea),
+            desconocidos: []
+          });
+          plugins.push(extraida.plugin);
+          pluginMetadata = { ...pluginMetadata, ...extraida.metadata };
+        } else if (linea.kind !== 'apuesta') {
+          throw new ParserError(
+            'No se encontraron números en la línea',
+            undefined,
+            DIAGNOSTIC_CODES.NO_NUMBERS
+          );
+        } else {
+          const lecturas = leerLinea(linea);
+          const elegida = elecciones.get(linea.index) ?? 0;
+          const leida = lecturas[elegida].linea;
+          detallesLinea = this.parseLinea(leida, lastFijoMonto, lastCorridoMonto, source);
+          observadas.push({
+            lineaNumero: linea.index + 1,
+            texto: linea.text,
+            span,
+            sinMonto: !declaraMonto(leida),
+            desconocidos: linea.desconocidos.map(t => t.value)
+          });
+
+          if (lecturas.length > 1) {
+            const { ambigua, validas } = this.interpretarLinea(
+              linea,
+              lecturas,
+              elegida,
+              lastFijoMonto,
+              lastCorridoMonto,
+              source
+            );
+            if (validas.length > 1) {
+              ambiguedades.push({ ...ambigua, span });
+              opciones.set(linea.index, validas);
+            }
+          }
+          if (elegida > 0) {
+            diagnostics.push(
+              createDiagnostic(
+                DIAGNOSTIC_CODES.AMBIGUOUS_LINE,
+                'info',
+                `Línea ${linea.index + 1}: ${lecturas[elegida].descripcion} (cuadra con el total declarado)`,
+                { span, player: ast.jugador ?? undefined }
+              )
+            );
+          }
+        }
 
         if (detallesLinea.length > 0) {
           detalles.push(...detallesLinea);
           
-          // Actualizar últimos montos
-          const ultimoDetalle = detallesLinea[detallesLinea.length - 1];
-          if (ultimoDetalle.tipo === 'fijo') {
-            lastFijoMonto = ultimoDetalle.montoUnitario;
-          } else if (ultimoDetalle.tipo === 'corrido') {
-            lastCorridoMonto = ultimoDetalle.montoUnitario;
+          // Actualizar últimos montos (las líneas sin "con X" los heredan)
+          for (const detalle of detallesLinea) {
+            if (detalle.tipo === 'fijo') {
+              lastFijoMonto = detalle.montoUnitario;
+            } else if (detalle.tipo === 'corrido') {
+              lastCorridoMonto = detalle.montoUnitario;
+            }
           }
 
           // Registrar tipos de apuestas
           detallesLinea.forEach(d => betTypes.add(d.tipo));
         }
+
+        // El plugin puede cambiar el estado para las líneas siguientes
+        if (extraida?.state) {
+          lastFijoMonto = extraida.state.montoFijo ?? lastFijoMonto;
+          lastCorridoMonto = extraida.state.montoCorrido ?? lastCorridoMonto;
+          jugador = extraida.state.jugador ?? jugador;
+          parlePendiente = extraida.state.parlePendiente ?? parlePendiente;
+        }
       } catch (error) {
-        const errorMsg = `Línea ${i + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+        const errorMsg = `Línea ${linea.index + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+        const span = source.originalSpan(linea.span.start, linea.span.end);
+        const code = diagnosticCodeOf(error, DIAGNOSTIC_CODES.LINE_PARSE_ERROR);
+        observadas.push({ lineaNumero: linea.index + 1, texto: linea.text, span, error: code });
         
         if (this.config.strictMode) {
           errors.push(errorMsg);
-          throw new ParserError(errorMsg, { linea, lineNumber: i + 1 });
+          throw new ParserError(errorMsg, { linea: linea.text, lineNumber: linea.index + 1, span }, code);
         } else {
           warnings.push(errorMsg);
+          diagnostics.push(
+            createDiagnostic(code, 'warning', errorMsg, { span, player: ast.jugador ?? undefined })
+          );
         }
       }
     }
 
+    // Números que quedaron esperando el monto de su parle
+    if (parlePendiente.length > 0 && !timedOut) {
+      const mensaje = `Parle sin monto: ${parlePendiente.join(', ')}`;
+      warnings.push(mensaje);
+      diagnostics.push(
+        createDiagnostic(DIAGNOSTIC_CODES.PARLE_NO_AMOUNT, 'warning', mensaje, {
+          span: source.originalSpan(ast.span.start, ast.span.end),
+          player: jugador
+        })
+      );
+    }
+
     const totalCalculado = detalles.reduce((sum, d) => 
       new Decimal(sum).plus(d.monto).toNumber(), 0
     );
@@ -479,45 +978,280 @@ export class Parser {
 
     const processingTime = Date.now() - startTime;
 
-    return {
+    const jugada: Jugada = {
       jugador,
       totalCalculado,
       totalDeclarado,
-      lineas: lineas.filter(l => !this.validator.isTotalLine(l)),
+      lineas: ast.lineas.filter(l => l.kind !== 'total').map(l => l.text),
       detalles,
       isValid,
       warnings,
       errors,
+      diagnostics,
       metadata: {
         timestamp: Date.now(),
         processingTime,
-        lineCount: lineas.length,
+        lineCount: ast.lineas.length,
         numberCount: detalles.reduce((sum, d) => sum + d.numeros.length, 0),
-        betTypes
+        betTypes,
+        ...pluginMetadata,
+        ...(plugins.length > 0 && { plugins: [...new Set(plugins)] }),
+        ...(timedOut && { timedOut })
       }
     };
+
+    const resueltaPorTotal = totalDeclarado !== null && isValid;
+    return {
+      jugada: {
+        ...jugada,
+        confianza: confianzaJugada(jugada, observadas.map(confianzaLinea)),
+        ...(ambiguedades.length > 0 && {
+          ambiguedades: ambiguedades.map(a => ({ ...a, resueltaPorTotal }))
+        })
+      },
+      opciones
+    };
+  }
+
+  /**
+   * Diagnósticos de los errores y advertencias de un plugin que no los trae propios
+   */
+  private diagnosticosDePlugin(
+    extraida: LineaExtraida,
+    span: SourceSpan,
+    player: string
+  ): Diagnostic[] {
+    return [
+      ...extraida.errors.map(e =>
+        createDiagnostic(DIAGNOSTIC_CODES.PLUGIN_ERROR, 'error', e, { span, player })
+      ),
+      ...extraida.warnings.map(w =>
+        createDiagnostic(DIAGNOSTIC_CODES.PLUGIN_WARNING, 'warning', w, { span, player })
+      )
+    ];
+  }
+
+  /**
+   * Apuestas y total de cada lectura de una línea ambigua, con la elegida primero
+   * @returns también los índices de las lecturas que se pudieron procesar
+   */
+  private interpretarLinea(
+    linea: ApuestaLineaNode,
+    lecturas: LecturaLinea[],
+    elegida: number,
+    lastFijoMonto: number,
+    lastCorridoMonto: number,
+    source: MappedText
+  ): { ambigua: LineaAmbigua; validas: number[] } {
+    const procesadas: { indice: number; lectura: LecturaLinea; detalles: DetalleApuesta[] }[] = [];
+    lecturas.forEach((lectura, indice) => {
+      try {
+        const detalles = this.parseLinea(lectura.linea, lastFijoMonto, lastCorridoMonto, source);
+        procesadas.push({ indice, lectura, detalles });
+      } catch {
+        // Lectura imposible para esta línea
+      }
+    });
+
+    const pesos = procesadas.reduce((sum, p) => sum.plus(p.lectura.peso), new Decimal(0));
+    const ordenadas = [
+      ...procesadas.filter(p => p.indice === elegida),
+      ...procesadas.filter(p => p.indice !== elegida)
+    ];
+
+    return {
+      ambigua: {
+        lineaNumero: linea.index + 1,
+        texto: linea.text,
+        interpretaciones: ordenadas.map(({ lectura, detalles }) => ({
+          codigo: lectura.codigo,
+          descripcion: lectura.descripcion,
+          detalles,
+          total: detalles.reduce((sum, d) => sum.plus(d.monto), new Decimal(0)).toNumber(),
+          puntaje: new Decimal(lectura.peso).dividedBy(pesos).toDecimalPlaces(4).toNumber()
+        })),
+        resueltaPorTotal: false
+      },
+      validas: procesadas.map(p => p.indice)
+    };
   }
 
+  /**
+   * Parsea una línea de apuestas a partir de su AST.
+   *
+   * Montos "con A y B y C": A es el fijo (o la centena), B el corrido
+   * (o el fijo derivado de la centena) y C el corrido derivado de la centena;
+   * `reglas.centenaCompuesta` puede invertir estos dos últimos.
+   * Si la línea no declara ningún monto hereda el último fijo/corrido del bloque.
+   * Cada detalle lleva el rango original de los números y montos que lo produjeron.
+   */
   private parseLinea(
-    linea: string,
-    lineIndex: number,
+    linea: ApuestaLineaNode,
     lastFijoMonto: number,
-    lastCorridoMonto: number
+    lastCorridoMonto: number,
+    source: MappedText
   ): DetalleApuesta[] {
-    // Implementación detallada del parseo de línea
-    // Esta sería tu lógica actual de procesamiento por línea
-    
-    // Por ahora, devolvemos un array vacío
-    // Debes implementar aquí tu lógica de parseo detallado
-    return [];
-  }
+    const lineaNumero = linea.index + 1;
+    const texto = linea.text;
+    const reglas = this.config.reglas ?? DEFAULT_HOUSE_RULES;
+    const pares: [string, string][] = linea.pares.map(p => p.numeros);
+
+    // Números sueltos y patrones expandidos, en el orden en que aparecen
+    const elementos = [
+      ...linea.numeros.map(n => ({ span: n.span, numeros: [n.value] })),
+      ...linea.patrones.map(p => ({ span: p.span, numeros: p.numeros }))
+    ].sort((a, b) => a.span.start - b.span.start);
+
+    const dos: string[] = [];
+    const centenas: string[] = [];
+    const spansDos: SourceSpan[] = [];
+    const spansCentenas: SourceSpan[] = [];
+    const spansPares: SourceSpan[] = linea.pares.map(p => p.span);
 
-  private extractTotalDeclarado(bloque: string): number | null {
-    const match = bloque.match(/total\s*[:=]?\s*\$?\s*([\d.,]+)/i);
-    if (match) {
-      return parseFloat(match[1].replace(',', '.'));
+    for (const { span, numeros } of elementos) {
+      for (const numero of numeros) {
+        if (numero.length <= 2) {
+          const normalizado = normalizeNumber(numero);
+          if (linea.todasLasCentenas) {
+            centenas.push(...this.expander.expandTodasLasCentenasParaNumero(normalizado));
+            spansCentenas.push(span);
+          } else {
+            dos.push(normalizado);
+            spansDos.push(span);
+          }
+        } else if (numero.length === 3) {
+          centenas.push(numero);
+          spansCentenas.push(span);
+        } else if (numero.length === 4) {
+          // Número de cuatro cifras = par de parlé (1001 -> 10*01)
+          pares.push([numero.substring(0, 2), numero.substring(2, 4)]);
+          spansPares.push(span);
+        } else {
+          throw new ParserError(
+            `Número inválido: ${numero}`,
+            { linea: texto, lineNumber: lineaNumero },
+            DIAGNOSTIC_CODES.INVALID_NUMBER
+          );
+        }
+      }
     }
-    return null;
+
+    if (dos.length === 0 && centenas.length === 0 && pares.length === 0) {
+      throw new ParserError(
+        'No se encontraron números en la línea',
+        { linea: texto, lineNumber: lineaNumero },
+        DIAGNOSTIC_CODES.NO_NUMBERS
+      );
+    }
+
+    // Rango original de un detalle: unión de sus números y montos
+    const original = (...spans: (SourceSpan | undefined)[]): SourceSpan => {
+      const { start, end } = unirSpans(spans);
+      return source.originalSpan(start, end);
+    };
+    const [spanFijo, spanCorrido, spanTercero] = linea.montos.map(m => m.span);
+    const spanParle = linea.parle?.span;
+
+    const montos = linea.montos.map(m => m.value);
+    const montoParle = linea.parle?.monto?.value ?? null;
+    const montoCandado = linea.candado?.monto?.value ?? null;
+
+    const sinMonto = !declaraMonto(linea);
+    const montoFijo = sinMonto ? lastFijoMonto : (montos[0] ?? 0);
+    const montoCorrido = sinMonto ? lastCorridoMonto : (montos[1] ?? 0);
+    const extras: Partial<DetalleApuesta> = linea.patrones.length > 0
+      ? {
+          expansion: {
+            original: linea.patrones.map(p => p.raw).join(' '),
+            expanded: [...dos, ...centenas],
+            patternType: linea.patrones[0].type
+          }
+        }
+      : {};
+
+    const detalles: DetalleApuesta[] = [];
+
+    if (dos.length > 0) {
+      if (montoFijo > 0) {
+        detalles.push(
+          crearDetalle('fijo', dos, montoFijo, texto, lineaNumero, {
+            ...extras,
+            span: original(...spansDos, spanFijo)
+          })
+        );
+      }
+      if (montoCorrido > 0) {
+        detalles.push(
+          crearDetalle('corrido', dos, montoCorrido, texto, lineaNumero, {
+            ...extras,
+            span: original(...spansDos, spanCorrido)
+          })
+        );
+      }
+    }
+
+    // Centenas: "con C y F y R" -> centena C, fijo F y corrido R sobre las dos últimas cifras
+    // (o corrido y fijo, según las reglas de la casa)
+    const fijosDeCentenas = centenas.map(c => c.slice(-2));
+    if (centenas.length > 0) {
+      const spansMonto = [spanFijo, spanCorrido, spanTercero];
+      detalles.push(
+        ...detallesCentena(
+          centenas,
+          sinMonto ? [lastFijoMonto] : montos,
+          reglas,
+          texto,
+          lineaNumero,
+          indice => ({
+            ...(indice === 0 && extras),
+            span: original(...spansCentenas, spansMonto[indice])
+          })
+        )
+      );
+    }
+
+    if (pares.length > 0) {
+      const montoPar = montoParle ?? (dos.length === 0 && centenas.length === 0 ? montoFijo : 0);
+      if (montoPar > 0) {
+        detalles.push(
+          detalleParlePares(pares, montoPar, texto, lineaNumero, {
+            span: original(...spansPares, montoParle !== null ? spanParle : spanFijo)
+          })
+        );
+      }
+    } else if (montoParle !== null) {
+      const base = [...dos, ...fijosDeCentenas];
+      if (calcularCombinaciones(base.length) === 0) {
+        throw new ParserError(
+          'El parle requiere al menos 2 números',
+          { linea: texto, lineNumber: lineaNumero },
+          DIAGNOSTIC_CODES.PARLE_MIN_NUMBERS
+        );
+      }
+      detalles.push(
+        detalleParle(base, montoParle, texto, lineaNumero, {
+          span: original(...spansDos, ...spansCentenas, spanParle)
+        })
+      );
+    }
+
+    if (montoCandado !== null) {
+      const base = [...dos, ...fijosDeCentenas, ...pares.flat()];
+      if (calcularCombinaciones(base.length) === 0) {
+        throw new ParserError(
+          'El candado requiere al menos 2 números',
+          { linea: texto, lineNumber: lineaNumero },
+          DIAGNOSTIC_CODES.PARLE_MIN_NUMBERS
+        );
+      }
+      detalles.push(
+        detalleCandado(base, montoCandado, reglas, texto, lineaNumero, {
+          span: original(...spansDos, ...spansCentenas, ...spansPares, linea.candado?.span)
+        })
+      );
+    }
+
+    return detalles;
   }
 
   private enrichJugada(jugada: Jugada, bloqueIndex: number): Jugada {
@@ -531,39 +1265,139 @@ export class Parser {
       }
     };
   }
+}
 
-  private calculateConfidence(jugadas: Jugada[], validation: ValidationResult): number {
-    // Calcular confianza del parseo (0-1)
-    let confidence = 1.0;
+/** Metadatos de jugada que calcula el parser (los demás de un plugin se conservan) */
+const METADATOS_JUGADA = ['timestamp', 'processingTime', 'lineCount', 'numberCount', 'betTypes'];
 
-    // Penalizar por errores de validación
-    if (validation.errors.length > 0) {
-      confidence -= validation.errors.length * 0.1;
-    }
+function metadatosPropios(jugada: Jugada): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(jugada.metadata).filter(([key]) => !METADATOS_JUGADA.includes(key))
+  );
+}
 
-    // Penalizar por advertencias
-    if (validation.warnings.length > 0) {
-      confidence -= validation.warnings.length * 0.05;
-    }
+/**
+ * Texto del bloque reescrito por un plugin. Si conserva las líneas, cada línea
+ * cambiada se compara con la original; si no, el bloque completo.
+ */
+function reescribir(bloque: MappedText, text: string): MappedText {
+  const lineas = text.split('\n');
+  if (lineas.length !== bloque.text.split('\n').length) {
+    return reemplazarCambio(bloque, text);
+  }
+  return bloque.mapLines((linea, i) =>
+    linea.text === lineas[i] ? linea : reemplazarCambio(linea, lineas[i])
+  );
+}
 
-    // Penalizar por jugadas inválidas
-    const invalidJugadas = jugadas.filter(j => !j.isValid).length;
-    if (invalidJugadas > 0) {
-      confidence -= (invalidJugadas / jugadas.length) * 0.3;
-    }
+/**
+ * Reemplaza solo el tramo que cambió (sin el prefijo y el sufijo comunes),
+ * que se mapea al rango original del tramo reemplazado
+ */
+function reemplazarCambio(original: MappedText, text: string): MappedText {
+  const maximo = Math.min(original.length, text.length);
+  let prefijo = 0;
+  while (prefijo < maximo && original.text[prefijo] === text[prefijo]) prefijo++;
+  let sufijo = 0;
+  while (
+    sufijo < maximo - prefijo &&
+    original.text[original.length - 1 - sufijo] === text[text.length - 1 - sufijo]
+  ) {
+    sufijo++;
+  }
 
-    // Bonus por jugadas con total declarado que coincide
-    const exactMatches = jugadas.filter(j => 
-      j.totalDeclarado !== null && 
-      Math.abs(j.totalCalculado - j.totalDeclarado) < 0.01
-    ).length;
-    
-    if (exactMatches > 0) {
-      confidence += (exactMatches / jugadas.length) * 0.2;
-    }
+  const cambio = original.slice(prefijo, original.length - sufijo);
+  return MappedText.join(
+    [
+      original.slice(0, prefijo),
+      cambio.replace(/^[\s\S]*$/, () => text.slice(prefijo, text.length - sufijo)),
+      original.slice(original.length - sufijo)
+    ],
+    ''
+  );
+}
+
+/**
+ * La línea declara algún monto ("con", parle o candado); si no, hereda el del bloque
+ */
+function declaraMonto(linea: ApuestaLineaNode): boolean {
+  return linea.montos.length > 0 || linea.parle?.monto != null || linea.candado?.monto != null;
+}
 
-    return Math.max(0, Math.min(1, confidence));
+/**
+ * Código de diagnóstico de un error (el del ParserError si es un código conocido)
+ */
+function diagnosticCodeOf(error: unknown, fallback: DiagnosticCode): DiagnosticCode {
+  if (error instanceof TimeoutError) {
+    return (error.context as { aborted?: boolean } | undefined)?.aborted
+      ? DIAGNOSTIC_CODES.ABORTED
+      : DIAGNOSTIC_CODES.TIMEOUT;
+  }
+  if (error instanceof ValidationError) {
+    return DIAGNOSTIC_CODES.SYNTAX_VALIDATION_FAILED;
+  }
+  if (error instanceof ParserError && isDiagnosticCode(error.code)) {
+    return error.code;
   }
+  return fallback;
+}
+
+function isDiagnosticCode(code: string | undefined): code is DiagnosticCode {
+  return Object.values(DIAGNOSTIC_CODES).some(c => c === code);
+}
+
+function unirSpans(spans: (SourceSpan | undefined)[]): SourceSpan {
+  const definidos = spans.filter((s): s is SourceSpan => s !== undefined);
+  return {
+    start: Math.min(...definidos.map(s => s.start)),
+    end: Math.max(...definidos.map(s => s.end))
+  };
+}
+
+/** Bloque de texto preprocesado y su posición dentro del texto completo */
+export interface BloqueFuente {
+  text: string;
+  offset: number;
+}
+
+/** Texto preprocesado y dividido en bloques, listo para procesar */
+export interface PreparedText {
+  source: MappedText;
+  validation: ValidationResult;
+  bloques: BloqueFuente[];
+  /** Letras que el preprocesado leyó como dígitos */
+  sustituciones: Sustitucion[];
+  /** Correcciones de los diccionarios */
+  ediciones: EdicionTexto[];
+}
+
+/** Apuestas de una línea procesada por un plugin de extracción */
+interface LineaExtraida {
+  plugin: string;
+  detalles: DetalleApuesta[];
+  warnings: string[];
+  errors: string[];
+  diagnostics?: Diagnostic[];
+  /** Metadatos propios que el plugin agregó a su jugada */
+  metadata: Record<string, unknown>;
+  state?: Partial<PluginLineState>;
+}
+
+/** Resultado de procesar un bloque */
+export interface BloqueResult {
+  jugada?: Jugada;
+  warnings: string[];
+  errors: string[];
+  diagnostics: Diagnostic[];
+  /** El bloque se interrumpió por timeout o cancelación */
+  timedOut: boolean;
+}
+
+/**
+ * Cede el event loop (deja correr I/O y timers pendientes)
+ */
+function cederTurno(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
 }
 
 // Función de hash simple para caché
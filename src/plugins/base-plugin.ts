@@ -3,9 +3,24 @@ import {
   Jugada, 
   ValidationResult, 
   PluginContext,
+  PluginPhase,
+  PluginLineResult,
+  PluginLineState,
   ParserConfig,
-  DetalleApuesta
+  DetalleApuesta,
+  Token,
+  TokenType,
+  BloqueNode,
+  LineaNode,
+  ApuestaLineaNode,
+  ReglasCasa
 } from '../types';
+import { Lexer } from '../lexer';
+import { AstBuilder } from '../ast-builder';
+import { DiagnosticCollector } from '../utils/diagnostics';
+import { DIAGNOSTIC_CODES } from '../constants/diagnostics';
+import { DEFAULT_HOUSE_RULES } from '../constants/payouts';
+import { calcularCombinaciones, crearDetalle } from '../bet-pricing';
 
 /**
  * Clase base abstracta para plugins del parser
@@ -16,9 +31,15 @@ export abstract class BasePlugin implements ProcessorPlugin {
   public abstract version: string;
   public abstract priority: number;
   
+  /** Por defecto los plugins extraen las apuestas de las líneas que aceptan */
+  public phase: PluginPhase = 'extract';
+  
   protected config: ParserConfig | null = null;
   protected initialized = false;
   
+  private lexer = new Lexer();
+  private astBuilder: AstBuilder | null = null;
+  
   /**
    * Inicializa el plugin con la configuración del parser
    */
@@ -34,6 +55,7 @@ export abstract class BasePlugin implements ProcessorPlugin {
   cleanup(): void {
     this.onCleanup();
     this.config = null;
+    this.astBuilder = null;
     this.initialized = false;
   }
   
@@ -47,54 +69,51 @@ export abstract class BasePlugin implements ProcessorPlugin {
    */
   abstract process(text: string, context: PluginContext): Jugada;
   
+  /**
+   * Procesa una línea con el estado del bloque (opcional: sin él, el parser usa `process`)
+   */
+  processLine?(line: string, context: PluginContext): PluginLineResult | null;
+  
   /**
    * Valida una jugada procesada
    */
   validate(jugada: Jugada): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+    const result = new DiagnosticCollector();
+    const player = jugada.jugador;
     
     // Validaciones básicas comunes a todos los plugins
     if (!jugada.jugador || jugada.jugador.trim() === '') {
-      warnings.push('Nombre de jugador vacío o no identificado');
+      result.warning(DIAGNOSTIC_CODES.UNKNOWN_PLAYER, 'Nombre de jugador vacío o no identificado');
     }
     
     if (jugada.totalCalculado < 0 && this.config?.allowNegative === false) {
-      errors.push('Total calculado negativo no permitido');
+      result.error(DIAGNOSTIC_CODES.NEGATIVE_TOTAL, 'Total calculado negativo no permitido', { player });
     }
     
     if (jugada.detalles.length === 0) {
-      warnings.push('No se generaron detalles de apuestas');
+      result.warning(DIAGNOSTIC_CODES.NO_BETS, 'No se generaron detalles de apuestas', { player });
     }
     
     // Validar cada detalle
     jugada.detalles.forEach((detalle, index) => {
-      const detailValidation = this.validateDetalle(detalle, index);
-      
-      if (!detailValidation.valid) {
-        errors.push(...detailValidation.errors);
-      }
-      
-      if (detailValidation.warnings.length > 0) {
-        warnings.push(...detailValidation.warnings);
-      }
+      result.merge(this.validateDetalle(detalle, index), {
+        player,
+        detalleIndex: index,
+        span: detalle.span
+      });
     });
     
     // Validaciones específicas del plugin
     const pluginValidation = this.onValidate(jugada);
     if (!pluginValidation.valid) {
-      errors.push(...pluginValidation.errors);
-      warnings.push(...pluginValidation.warnings);
-      suggestions.push(...pluginValidation.suggestions);
+      result.merge(pluginValidation, { player });
     }
     
     return {
-      valid: errors.length === 0,
-      errors: [...new Set(errors)],
-      warnings: [...new Set(warnings)],
-      suggestions: [...new Set(suggestions)],
-      info: this.getValidationInfo(jugada)
+      ...result.toResult(this.getValidationInfo(jugada)),
+      errors: [...new Set(result.errors)],
+      warnings: [...new Set(result.warnings)],
+      suggestions: [...new Set(result.suggestions)]
     };
   }
   
@@ -129,41 +148,43 @@ export abstract class BasePlugin implements ProcessorPlugin {
    * Valida un detalle de apuesta individual
    */
   protected validateDetalle(detalle: DetalleApuesta, index: number): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+    const result = new DiagnosticCollector();
+    const prefix = `Detalle ${index + 1}: `;
     
     if (!detalle.tipo) {
-      errors.push(`Detalle ${index + 1}: Tipo no especificado`);
+      result.error(DIAGNOSTIC_CODES.INVALID_BET_TYPE, `${prefix}Tipo no especificado`);
     }
     
     if (!detalle.numeros || detalle.numeros.length === 0) {
-      errors.push(`Detalle ${index + 1}: Sin números`);
+      result.error(DIAGNOSTIC_CODES.BET_WITHOUT_NUMBERS, `${prefix}Sin números`);
     }
     
     if (detalle.monto === undefined || isNaN(detalle.monto)) {
-      errors.push(`Detalle ${index + 1}: Monto inválido`);
+      result.error(DIAGNOSTIC_CODES.INVALID_AMOUNT, `${prefix}Monto inválido`);
     }
     
     if (detalle.montoUnitario === undefined || isNaN(detalle.montoUnitario)) {
-      warnings.push(`Detalle ${index + 1}: Monto unitario inválido`);
+      result.warning(DIAGNOSTIC_CODES.INVALID_UNIT_AMOUNT, `${prefix}Monto unitario inválido`);
     }
     
     // Validar números
     detalle.numeros.forEach(num => {
       if (!this.isValidNumber(num)) {
-        errors.push(`Detalle ${index + 1}: Número inválido "${num}"`);
+        result.error(DIAGNOSTIC_CODES.INVALID_NUMBER, `${prefix}Número inválido "${num}"`);
       }
     });
     
     // Validar montos contra configuración
     if (this.config) {
       if (detalle.monto > this.config.maxMonto) {
-        warnings.push(`Detalle ${index + 1}: Monto excede máximo permitido (${this.config.maxMonto})`);
+        result.warning(
+          DIAGNOSTIC_CODES.EXCESSIVE_AMOUNT,
+          `${prefix}Monto excede máximo permitido (${this.config.maxMonto})`
+        );
       }
       
       if (detalle.monto < 0 && !this.config.allowNegative) {
-        errors.push(`Detalle ${index + 1}: Monto negativo no permitido`);
+        result.error(DIAGNOSTIC_CODES.NEGATIVE_AMOUNT, `${prefix}Monto negativo no permitido`);
       }
     }
     
@@ -171,35 +192,38 @@ export abstract class BasePlugin implements ProcessorPlugin {
     switch (detalle.tipo) {
       case 'parle':
         if (detalle.combinaciones === undefined || detalle.combinaciones < 1) {
-          warnings.push(`Detalle ${index + 1}: Parle con combinaciones inválidas`);
+          result.warning(
+            DIAGNOSTIC_CODES.INVALID_COMBINATIONS,
+            `${prefix}Parle con combinaciones inválidas`
+          );
         }
         break;
         
       case 'candado':
         if (detalle.combinaciones === undefined) {
-          warnings.push(`Detalle ${index + 1}: Candado sin combinaciones especificadas`);
+          result.warning(
+            DIAGNOSTIC_CODES.INVALID_COMBINATIONS,
+            `${prefix}Candado sin combinaciones especificadas`
+          );
         }
         break;
         
       case 'centena':
         const invalidCentenas = detalle.numeros.filter(n => n.length !== 3);
         if (invalidCentenas.length > 0) {
-          errors.push(`Detalle ${index + 1}: Centenas inválidas: ${invalidCentenas.join(', ')}`);
+          result.error(
+            DIAGNOSTIC_CODES.INVALID_CENTENA,
+            `${prefix}Centenas inválidas: ${invalidCentenas.join(', ')}`
+          );
         }
         break;
     }
     
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-      suggestions,
-      info: {
-        index,
-        type: detalle.tipo,
-        numberCount: detalle.numeros.length
-      }
-    };
+    return result.toResult({
+      index,
+      type: detalle.tipo,
+      numberCount: detalle.numeros.length
+    });
   }
   
   /**
@@ -246,6 +270,138 @@ export abstract class BasePlugin implements ProcessorPlugin {
     return numbers;
   }
   
+  /**
+   * Tokeniza un texto con el lexer compartido
+   */
+  protected tokenize(text: string): Token[] {
+    return this.lexer.tokenize(text);
+  }
+  
+  /**
+   * Verifica si el texto contiene algún token de los tipos indicados
+   */
+  protected hasToken(text: string, ...types: TokenType[]): boolean {
+    return this.tokenize(text).some(t => types.includes(t.type));
+  }
+  
+  /**
+   * Obtiene el constructor de AST para la configuración del contexto
+   */
+  protected getAstBuilder(context: PluginContext): AstBuilder {
+    if (!this.astBuilder) {
+      this.astBuilder = new AstBuilder(context.config);
+    }
+    return this.astBuilder;
+  }
+  
+  /**
+   * Obtiene el AST del bloque (el del parser si viene en el contexto)
+   */
+  protected getAst(text: string, context: PluginContext): BloqueNode {
+    return context.ast ?? this.getAstBuilder(context).parseBloque(text);
+  }
+  
+  /**
+   * Obtiene el nodo de la línea actual (el del parser si viene en el contexto)
+   */
+  protected getLinea(line: string, context: PluginContext): LineaNode {
+    return (
+      context.ast?.lineas.find(l => l.text === line) ??
+      this.getAstBuilder(context).parseLinea(line, context.lineIndex ?? 0)
+    );
+  }
+  
+  /**
+   * Procesa un bloque completo con `processLine`, llevando el estado de una
+   * línea a la siguiente como lo hace el parser
+   */
+  protected processLines(text: string, context: PluginContext): Jugada {
+    const ast = this.getAst(text, context);
+    const detalles: DetalleApuesta[] = [];
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    let state: PluginLineState = context.state ?? {
+      montoFijo: context.config.defaultMontoFijo,
+      montoCorrido: context.config.defaultMontoCorrido,
+      jugador: context.jugador,
+      parlePendiente: []
+    };
+    
+    for (const linea of ast.lineas) {
+      if (linea.kind === 'nombre' || linea.kind === 'total') {
+        continue;
+      }
+      
+      try {
+        const resultado = this.processLine?.(linea.text, {
+          ...context,
+          currentLine: linea.text,
+          lineIndex: linea.index,
+          state,
+          ast: { ...ast, lineas: [linea] }
+        });
+        if (!resultado) {
+          continue;
+        }
+        
+        detalles.push(...resultado.detalles);
+        warnings.push(...(resultado.warnings ?? []));
+        const fijo = resultado.detalles.filter(d => d.tipo === 'fijo').pop();
+        const corrido = resultado.detalles.filter(d => d.tipo === 'corrido').pop();
+        state = {
+          ...state,
+          montoFijo: fijo?.montoUnitario ?? state.montoFijo,
+          montoCorrido: corrido?.montoUnitario ?? state.montoCorrido,
+          ...resultado.state
+        };
+      } catch (error) {
+        const errorMsg = `Error procesando línea ${linea.index + 1}: ${error instanceof Error ? error.message : 'Error desconocido'}`;
+        
+        if (this.config?.strictMode) {
+          errors.push(errorMsg);
+          throw error;
+        }
+        warnings.push(errorMsg);
+      }
+    }
+    
+    if (state.parlePendiente.length > 0) {
+      warnings.push(`Parle sin monto: ${state.parlePendiente.join(', ')}`);
+    }
+    
+    return this.createJugada(state.jugador, detalles, context.totalDeclarado, context.lineas, {
+      warnings,
+      errors
+    });
+  }
+  
+  /**
+   * Obtiene las líneas de apuesta del bloque
+   */
+  protected getApuestaLineas(text: string, context: PluginContext): ApuestaLineaNode[] {
+    return this.getAst(text, context).lineas.filter(
+      (l): l is ApuestaLineaNode => l.kind === 'apuesta'
+    );
+  }
+  
+  /**
+   * Números sueltos de una línea de apuesta (los de cuatro cifras se separan en dos)
+   */
+  protected numerosDeLinea(linea: ApuestaLineaNode): string[] {
+    return linea.numeros.flatMap(n =>
+      n.value.length === 4
+        ? [n.value.substring(0, 2), n.value.substring(2, 4)]
+        : [n.value.padStart(2, '0')]
+    );
+  }
+  
+  /**
+   * Número de combinaciones de dos elementos entre n números
+   */
+  protected calculateCombinations(n: number): number {
+    return calcularCombinaciones(n);
+  }
+  
   /**
    * Extrae montos de un texto
    */
@@ -265,7 +421,7 @@ export abstract class BasePlugin implements ProcessorPlugin {
   }
   
   /**
-   * Crea un detalle de apuesta estándar
+   * Crea un detalle de apuesta estándar (monto unitario por número, como el parser)
    */
   protected createDetalle(
     tipo: DetalleApuesta['tipo'],
@@ -275,17 +431,14 @@ export abstract class BasePlugin implements ProcessorPlugin {
     lineaNumero?: number,
     extras?: Partial<DetalleApuesta>
   ): DetalleApuesta {
-    const monto = numeros.length * montoUnitario;
-    
-    return {
-      tipo,
-      numeros,
-      monto,
-      montoUnitario,
-      lineaOriginal,
-      lineaNumero,
-      ...extras
-    };
+    return crearDetalle(tipo, numeros, montoUnitario, lineaOriginal, lineaNumero, extras);
+  }
+  
+  /**
+   * Reglas de la casa con las que se parsea
+   */
+  protected getReglas(context: PluginContext): ReglasCasa {
+    return context.config.reglas ?? DEFAULT_HOUSE_RULES;
   }
   
   /**
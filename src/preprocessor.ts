@@ -1,44 +1,108 @@
-import { ParserConfig } from './types';
-import { PATTERNS } from './constants/patterns';
+import { DiccionarioCorrecciones, EdicionTexto, ParserConfig, Sustitucion } from './types';
+import { PATTERNS, PROTECTED_KEYWORDS } from './constants/patterns';
+import { applyCorrections, loadCorrectionDictionary, selectDictionaries } from './corrections';
+import { normalizeNumberWords } from './number-words';
+import { Deadline } from './utils/deadline';
+import { MappedText } from './utils/source-map';
+
+/** Palabra (letras y dígitos) que se normaliza como una unidad */
+const PALABRA = /[\p{L}\d|]+/gu;
+
+/** Resultado del preprocesado con las sustituciones de caracteres y las correcciones que hizo */
+export interface PreprocessedText {
+  source: MappedText;
+  sustituciones: Sustitucion[];
+  ediciones: EdicionTexto[];
+}
 
 /**
  * Preprocesador para limpiar y normalizar texto de jugadas
  */
 export class Preprocessor {
   private patterns = PATTERNS;
+  private keywords: string[];
+  private keywordPegada: RegExp;
+  private diccionarios: DiccionarioCorrecciones[];
 
-  constructor(private config: ParserConfig) {}
+  constructor(private config: ParserConfig) {
+    // Las más largas primero ("centenas" antes que "centena")
+    this.keywords = [...PROTECTED_KEYWORDS, ...(config.protectedKeywords ?? [])]
+      .filter(Boolean)
+      .map(k => k.toLowerCase())
+      .sort((a, b) => b.length - a.length);
+    const alternativas = this.keywords.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.keywordPegada = new RegExp(`(?<![\\p{L}\\d])(${alternativas.join('|')})(?=\\d)`, 'giu');
+    // Solo los diccionarios de la casa y el colector configurados (valida los que vienen de JSON)
+    this.diccionarios = selectDictionaries(
+      (config.diccionarios ?? []).map(d => loadCorrectionDictionary(d)),
+      { casa: config.reglas?.nombre, colector: config.colector }
+    );
+  }
 
   /**
    * Procesa el texto completo aplicando todas las normalizaciones
    */
   process(text: string): string {
-    let processed = text;
+    return this.processWithMap(text).text;
+  }
+
+  /**
+   * Procesa el texto conservando el mapa de offsets hacia el texto original
+   * @param offset posición del texto dentro de la entrada original (p. ej. un stream)
+   */
+  processWithMap(text: string, offset = 0): MappedText {
+    return this.processDetailed(text, offset).source;
+  }
+
+  /**
+   * Como `processWithMap`, pero también devuelve las letras que se leyeron como
+   * dígitos y las correcciones de los diccionarios. `deadline` se consulta entre
+   * pasos, por línea y en cada expansión
+   */
+  processDetailed(text: string, offset = 0, deadline = Deadline.NONE): PreprocessedText {
+    const sustituciones: Sustitucion[] = [];
+    let processed = MappedText.identity(text, offset);
+
+    // 0. Alias y reescrituras de los diccionarios, sobre el texto tal como llegó
+    // (antes de que "parl" se lea como "par1" o "15 x100" pierda el espacio)
+    const { source: corregido, ediciones } = applyCorrections(processed, this.diccionarios);
+    processed = corregido;
+
+    // 0b. Números en letras ("veinticinco" -> "25")
+    if (this.config.numberWords !== false) {
+      deadline.check();
+      processed = this.normalizeNumberWords(processed, text, offset, ediciones, deadline);
+    }
 
     // 1. Normalización de caracteres y espacios
+    deadline.check();
     processed = this.normalizeSpaces(processed);
     
     // 2. Normalización de caracteres especiales
-    processed = this.normalizeSpecialCharacters(processed);
+    deadline.check();
+    processed = this.normalizeSpecialCharacters(processed, sustituciones);
     
     // 3. Expansión automática si está habilitada
     if (this.config.autoExpand) {
-      processed = this.expandPatterns(processed);
+      processed = this.expandPatterns(processed, deadline);
     }
     
     // 4. Normalización de montos
+    deadline.check();
     processed = this.normalizeAmounts(processed);
     
     // 5. Limpieza final
+    deadline.check();
     processed = this.cleanup(processed);
 
-    return processed;
+    ediciones.sort((a, b) => a.span.start - b.span.start);
+    return { source: processed, sustituciones, ediciones };
   }
 
   /**
    * Normaliza espacios y saltos de línea
    */
-  private normalizeSpaces(text: string): string {
+  private normalizeSpaces(text: MappedText): MappedText {
     return text
       // Normalizar saltos de línea
       .replace(/\r\n/g, '\n')
@@ -50,44 +114,112 @@ export class Preprocessor {
       // Normalizar múltiples espacios
       .replace(/[ \u00A0\u2000-\u200F\u2028-\u202F\u205F\u3000]+/g, ' ')
       // Eliminar espacios al inicio/final de línea
-      .split('\n')
-      .map(line => line.trim())
-      .join('\n')
+      .mapLines(line => line.trim())
       // Eliminar espacios alrededor de operadores
       .replace(/\s*([*x×\-+.])\s*/g, '$1')
       // Añadir espacios después de comas
       .replace(/,(\S)/g, ', $1');
   }
 
+  /**
+   * Convierte los números en letras de las líneas de apuestas y registra cada
+   * conversión con el texto original que reemplazó
+   */
+  private normalizeNumberWords(
+    text: MappedText,
+    original: string,
+    offset: number,
+    ediciones: EdicionTexto[],
+    deadline: Deadline
+  ): MappedText {
+    return text.mapLines(line => {
+      deadline.check();
+      if (this.isNombreJugador(line.text)) {
+        return line;
+      }
+      const { source, ediciones: conversiones } = normalizeNumberWords(line);
+      ediciones.push(
+        ...conversiones.map(e => ({
+          ...e,
+          original: original.slice(e.span.start - offset, e.span.end - offset)
+        }))
+      );
+      return source;
+    });
+  }
+
   /**
    * Normaliza caracteres especiales
    */
-  private normalizeSpecialCharacters(text: string): string {
+  private normalizeSpecialCharacters(
+    text: MappedText,
+    sustituciones: Sustitucion[] = []
+  ): MappedText {
+    // Registrar cada letra que se lee como dígito (el reemplazo conserva la longitud)
+    for (const match of text.text.matchAll(PALABRA)) {
+      const token = match[0];
+      const normalizado = this.normalizeWord(token);
+      for (let i = 0; i < token.length; i++) {
+        if (normalizado[i] !== token[i]) {
+          const start = (match.index ?? 0) + i;
+          sustituciones.push({
+            original: token[i],
+            reemplazo: normalizado[i],
+            token,
+            span: text.originalSpan(start, start + 1)
+          });
+        }
+      }
+    }
+
     return text
-      // Normalizar ceros (o, O, ø, etc.)
-      .replace(/[oOøØοΟ]/g, '0')
-      // Normalizar unos (l, I, |, etc.)
-      .replace(/[lI|]/g, '1')
+      .replace(PALABRA, token => this.normalizeWord(token))
+      // Separar la palabra clave del número que lleva pegado ("total10" -> "total 10")
+      .replace(this.keywordPegada, '$1 ')
       // Normalizar multiplicación
       .replace(/×/g, 'x')
       // Normalizar comillas y apostrofes
       .replace(/['"`´]/g, '')
       // Convertir a minúsculas (excepto nombres propios)
-      .split('\n')
-      .map((line, index) => {
-        // La primera línea (nombre) la mantenemos como está
-        if (index === 0 && this.isNombreJugador(line)) {
+      .mapLines(line => {
+        // Las líneas de nombre de jugador se mantienen como están
+        if (this.isNombreJugador(line.text)) {
           return line;
         }
         return line.toLowerCase();
-      })
-      .join('\n');
+      });
+  }
+
+  /**
+   * Normaliza ceros (o, O, ø, etc.) y unos (l, I, |) solo dentro de números,
+   * sin tocar la palabra clave con la que empiece ("total1o" -> "total10") ni
+   * las letras de una palabra ("bolo5" se queda igual)
+   */
+  private normalizeWord(word: string): string {
+    const lower = word.toLowerCase();
+    const keyword = this.keywords.find(k => lower.startsWith(k)) ?? '';
+    // Tramos de letras y de no-letras: un tramo de letras solo es parte del
+    // número si todas sus letras se confunden con cifras y toca un dígito
+    const tramos = word.slice(keyword.length).match(/\p{L}+|\P{L}+/gu) ?? [];
+
+    return (
+      word.slice(0, keyword.length) +
+      tramos
+        .map((tramo, i) => {
+          const esNumero = /^\P{L}+$/u.test(tramo)
+            ? /\d/.test(tramo)
+            : /^[oOøØοΟlI]+$/.test(tramo) &&
+              (/\d/.test(tramos[i - 1] ?? '') || /\d/.test(tramos[i + 1] ?? ''));
+          return esNumero ? tramo.replace(/[oOøØοΟ]/g, '0').replace(/[lI|]/g, '1') : tramo;
+        })
+        .join('')
+    );
   }
 
   /**
    * Expande patrones especiales
    */
-  private expandPatterns(text: string): string {
+  private expandPatterns(text: MappedText, deadline: Deadline): MappedText {
     let expanded = text;
 
     // Expansión en varias pasadas para patrones complejos
@@ -101,7 +233,8 @@ export class Preprocessor {
     ];
 
     for (const step of expansionSteps) {
-      expanded = step(expanded);
+      deadline.check();
+      expanded = step(expanded, deadline);
     }
 
     return expanded;
@@ -110,10 +243,11 @@ export class Preprocessor {
   /**
    * Expande volteos (XXv -> XX YY)
    */
-  private expandVolteos(text: string): string {
+  private expandVolteos(text: MappedText, deadline: Deadline): MappedText {
     return text.replace(
       this.patterns.VOLTEO,
       (match, num) => {
+        deadline.check();
         const normalized = num.padStart(2, '0');
         const volteo = normalized.split('').reverse().join('');
         return `${normalized} ${volteo}`;
@@ -124,10 +258,11 @@ export class Preprocessor {
   /**
    * Expande rangos (XX al YY)
    */
-  private expandRanges(text: string): string {
+  private expandRanges(text: MappedText, deadline: Deadline): MappedText {
     return text.replace(
       this.patterns.RANGO,
       (match, inicioStr, finStr) => {
+        deadline.check();
         const inicio = parseInt(inicioStr, 10);
         const fin = parseInt(finStr, 10);
         
@@ -148,10 +283,11 @@ export class Preprocessor {
   /**
    * Expande decenas (dX -> 0X, 1X, ..., 9X)
    */
-  private expandDecenas(text: string): string {
+  private expandDecenas(text: MappedText, deadline: Deadline): MappedText {
     return text.replace(
       this.patterns.DECENA,
       (match, unidadStr) => {
+        deadline.check();
         const unidad = parseInt(unidadStr, 10) % 10;
         const numeros: string[] = [];
         
@@ -167,10 +303,11 @@ export class Preprocessor {
   /**
    * Expande terminales (tX -> X0, X1, ..., X9)
    */
-  private expandTerminales(text: string): string {
+  private expandTerminales(text: MappedText, deadline: Deadline): MappedText {
     return text.replace(
       this.patterns.TERMINAL,
       (match, decenaStr) => {
+        deadline.check();
         const decena = parseInt(decenaStr, 10) % 10;
         const numeros: string[] = [];
         
@@ -186,10 +323,11 @@ export class Preprocessor {
   /**
    * Expande pares relativos (XX pr N)
    */
-  private expandParesRelativos(text: string): string {
+  private expandParesRelativos(text: MappedText, deadline: Deadline): MappedText {
     return text.replace(
       this.patterns.PARES_RELATIVOS,
       (match, base, cantidadStr) => {
+        deadline.check();
         const baseNormalized = base.padStart(2, '0');
         const cantidad = Math.min(parseInt(cantidadStr, 10), 100); // Máximo 100 números
         const numeros: string[] = [];
@@ -207,10 +345,11 @@ export class Preprocessor {
   /**
    * Expande "por todas las centenas"
    */
-  private expandCentenasTodas(text: string): string {
+  private expandCentenasTodas(text: MappedText, deadline: Deadline): MappedText {
     return text.replace(
       this.patterns.CENTENAS_TODAS,
       (match, numerosStr, montoStr) => {
+        deadline.check();
         const numeros = this.extractNumbers(numerosStr);
         const centenas: string[] = [];
         
@@ -231,7 +370,7 @@ export class Preprocessor {
   /**
    * Normaliza montos (decimales, comas, etc.)
    */
-  private normalizeAmounts(text: string): string {
+  private normalizeAmounts(text: MappedText): MappedText {
     return text
       // Normalizar comas decimales a puntos
       .replace(/(\d),(\d)/g, (match, p1, p2) => {
@@ -250,18 +389,21 @@ export class Preprocessor {
   /**
    * Limpieza final del texto
    */
-  private cleanup(text: string): string {
+  private cleanup(text: MappedText): MappedText {
+    const noDeseados = /[^\d\s\n.,a-záéíóúñüA-ZÁÉÍÓÚÑÜ\-*xconypdealtprv]/g;
+
     return text
-      // Eliminar líneas completamente vacías al inicio/final
-      .replace(/^\n+|\n+$/g, '')
       // Eliminar espacios múltiples al final de línea
       .replace(/ +\n/g, '\n')
+      // Descartar líneas que solo tienen caracteres no deseados
+      // (las líneas vacías se conservan porque separan los bloques de cada jugador)
+      .filterLines(line => !line.text.trim() || line.text.replace(noDeseados, '').trim().length > 0)
       // Eliminar caracteres no deseados
-      .replace(/[^\d\s\n.,a-záéíóúñüA-ZÁÉÍÓÚÑÜ\-*xconypdealtprv]/g, '')
-      // Asegurar que cada línea tenga contenido
-      .split('\n')
-      .filter(line => line.trim().length > 0)
-      .join('\n');
+      .replace(noDeseados, '')
+      .mapLines(line => line.trim())
+      // Una sola línea vacía entre bloques y ninguna al inicio/final
+      .replace(/\n{3,}/g, '\n\n')
+      .replace(/^\n+|\n+$/g, '');
   }
 
   /**
@@ -0,0 +1,250 @@
+import Decimal from 'decimal.js';
+import { Parser } from './parser';
+import { Lexer } from './lexer';
+import { DEFAULT_HOUSE_RULES } from './constants/payouts';
+import {
+  Jugada,
+  ParseResult,
+  ParserConfig,
+  ReglasCasa,
+  SugerenciaConciliacion,
+  TipoConciliacion,
+} from './types';
+
+/** Verosimilitud a priori de cada tipo de corrección */
+export const RECONCILIATION_WEIGHTS: Record<TipoConciliacion, number> = {
+  MISSING_CORRIDO: 0.8,
+  CANDADO_SPLIT: 0.7,
+  DUPLICATED_LINE: 0.6,
+  MISREAD_DIGIT: 0.5,
+  Y_AS_NUMBER: 0.4,
+};
+
+/** Dígitos que se confunden al leer un monto (o al normalizar "o" y "l" como 0 y 1) */
+export const DIGIT_CONFUSIONS: Record<string, string[]> = {
+  '0': ['6', '8', '9'],
+  '1': ['7', '4'],
+  '2': ['7'],
+  '3': ['8', '5'],
+  '4': ['1', '9'],
+  '5': ['6', '3'],
+  '6': ['0', '5', '8'],
+  '7': ['1', '2'],
+  '8': ['0', '3', '6'],
+  '9': ['0', '4'],
+};
+
+/** Máximo de correcciones que se prueban por jugada */
+export const MAX_CANDIDATOS = 500;
+
+/** Sugerencias para una jugada cuyo total no cuadra */
+export interface ConciliacionJugada {
+  jugador: string;
+  /** Total declarado menos total calculado */
+  diferencia: number;
+  /** De la más a la menos probable */
+  sugerencias: SugerenciaConciliacion[];
+}
+
+/** Corrección por probar */
+interface Candidato {
+  codigo: TipoConciliacion;
+  descripcion: string;
+  lineaNumero: number;
+  editada: string | null;
+  /** Reglas con las que se vuelve a parsear (las de la configuración si no se indican) */
+  reglas?: ReglasCasa;
+}
+
+/**
+ * Busca correcciones de una sola línea con las que el total calculado de una
+ * jugada cuadra con el declarado.
+ *
+ * Cada corrección se comprueba volviendo a parsear la jugada con la línea
+ * editada: solo se sugieren las que hacen cuadrar el total.
+ */
+export class TotalReconciler {
+  private readonly lexer = new Lexer();
+  private readonly reglas: ReglasCasa;
+  private readonly parsers = new Map<ReglasCasa, Parser>();
+
+  constructor(private readonly config: Partial<ParserConfig> = {}) {
+    this.reglas = config.reglas ?? DEFAULT_HOUSE_RULES;
+  }
+
+  /**
+   * Sugerencias para cada jugada del resultado cuyo total declarado no cuadra
+   */
+  reconcile(result: ParseResult): ConciliacionJugada[] {
+    return result.jugadas
+      .filter(j => !j.isValid && j.totalDeclarado !== null)
+      .map(jugada => ({
+        jugador: jugada.jugador,
+        diferencia: new Decimal(jugada.totalDeclarado ?? 0).minus(jugada.totalCalculado).toNumber(),
+        sugerencias: this.reconcileJugada(jugada),
+      }));
+  }
+
+  /**
+   * Correcciones que hacen cuadrar el total de una jugada, de la más a la menos probable
+   */
+  reconcileJugada(jugada: Jugada): SugerenciaConciliacion[] {
+    const declarado = jugada.totalDeclarado;
+    if (declarado === null || jugada.isValid) {
+      return [];
+    }
+
+    // Si el texto reconstruido no da el mismo total, las correcciones no serían comparables
+    const { lineas } = jugada;
+    if (this.totalDe(lineas, declarado) !== jugada.totalCalculado) {
+      return [];
+    }
+
+    const sugerencias: SugerenciaConciliacion[] = [];
+    const probados = new Set<string>();
+
+    for (const candidato of this.candidatos(jugada).slice(0, MAX_CANDIDATOS)) {
+      const clave = `${candidato.lineaNumero}|${candidato.editada}|${candidato.codigo}`;
+      if (probados.has(clave)) continue;
+      probados.add(clave);
+
+      const editadas = lineas.flatMap((linea, i) => {
+        if (i + 1 !== candidato.lineaNumero) return [linea];
+        return candidato.editada === null ? [] : [candidato.editada];
+      });
+      const total = this.totalDe(editadas, declarado, candidato.reglas);
+      if (total !== null && new Decimal(total).minus(declarado).abs().lt(0.01)) {
+        sugerencias.push({
+          codigo: candidato.codigo,
+          descripcion: candidato.descripcion,
+          lineaNumero: candidato.lineaNumero,
+          original: lineas[candidato.lineaNumero - 1],
+          editada: candidato.editada,
+          totalCalculado: total,
+          puntaje: RECONCILIATION_WEIGHTS[candidato.codigo],
+        });
+      }
+    }
+
+    return sugerencias.sort((a, b) => b.puntaje - a.puntaje);
+  }
+
+  private candidatos(jugada: Jugada): Candidato[] {
+    const candidatos: Candidato[] = [];
+    const diferencia = new Decimal(jugada.totalDeclarado ?? 0).minus(jugada.totalCalculado);
+    let candado = false;
+
+    jugada.lineas.forEach((linea, i) => {
+      const lineaNumero = i + 1;
+      if (i === 0 && Lexer.isNombreJugador(linea)) return;
+
+      const tokens = this.lexer.tokenize(linea).filter(t => t.type !== 'NEWLINE');
+      const reemplazar = (start: number, end: number, texto: string): string =>
+        `${linea.slice(0, start)}${texto}${linea.slice(end)}`;
+      const detalles = jugada.detalles.filter(d => d.lineaNumero === lineaNumero);
+
+      // "05 10 con 5": falta el corrido que completa la diferencia
+      const con = tokens.findIndex(t => t.type === 'CON');
+      const fijo = detalles.find(d => d.tipo === 'fijo');
+      const monto = tokens[con + 1];
+      if (
+        diferencia.gt(0) &&
+        con >= 0 &&
+        fijo &&
+        monto?.type === 'AMOUNT' &&
+        tokens[con + 2]?.type !== 'Y' &&
+        !detalles.some(d => d.tipo === 'corrido' || d.tipo === 'centena')
+      ) {
+        const corrido = diferencia.dividedBy(fijo.numeros.length);
+        if (corrido.decimalPlaces() <= 2) {
+          candidatos.push({
+            codigo: 'MISSING_CORRIDO',
+            descripcion: `Falta el corrido de ${corrido.toString()}`,
+            lineaNumero,
+            editada: reemplazar(monto.end, monto.end, ` y ${corrido.toString()}`),
+          });
+        }
+      }
+
+      // Candado repartido entre las combinaciones o por combinación (se prueba una vez)
+      if (!candado && detalles.some(d => d.tipo === 'candado')) {
+        candado = true;
+        const candadoRepartido = !this.reglas.candadoRepartido;
+        candidatos.push({
+          codigo: 'CANDADO_SPLIT',
+          descripcion: candadoRepartido
+            ? 'El candado se reparte entre las combinaciones'
+            : 'El candado es por combinación',
+          lineaNumero,
+          editada: linea,
+          reglas: { ...this.reglas, candadoRepartido },
+        });
+      }
+
+      // Línea repetida (reenviada o copiada dos veces)
+      const anterior = jugada.lineas.findIndex((l, j) => j < i && l.trim() === linea.trim());
+      if (anterior >= 0) {
+        candidatos.push({
+          codigo: 'DUPLICATED_LINE',
+          descripcion: `Línea repetida (igual a la línea ${anterior + 1})`,
+          lineaNumero,
+          editada: null,
+        });
+      }
+
+      // Dígito mal leído en un monto
+      for (const token of tokens.filter(t => t.type === 'AMOUNT')) {
+        [...token.value].forEach((digito, k) => {
+          for (const otro of DIGIT_CONFUSIONS[digito] ?? []) {
+            const valor = `${token.value.slice(0, k)}${otro}${token.value.slice(k + 1)}`;
+            candidatos.push({
+              codigo: 'MISREAD_DIGIT',
+              descripcion: `El monto ${token.value} es ${valor}`,
+              lineaNumero,
+              editada: reemplazar(token.start, token.end, valor),
+            });
+          }
+        });
+      }
+
+      // "con 10 4 5": una "y" leída como número
+      tokens.forEach((token, k) => {
+        if (
+          (token.type === 'NUMBER' || token.type === 'AMOUNT') &&
+          token.value.length === 1 &&
+          k > 0 &&
+          k < tokens.length - 1
+        ) {
+          candidatos.push({
+            codigo: 'Y_AS_NUMBER',
+            descripcion: `"${token.value}" es una "y"`,
+            lineaNumero,
+            editada: reemplazar(token.start, token.end, 'y'),
+          });
+        }
+      });
+    });
+
+    return candidatos;
+  }
+
+  /**
+   * Total calculado de la jugada formada por esas líneas y el total declarado
+   * (null si no se lee como una sola jugada)
+   */
+  private totalDe(lineas: string[], declarado: number, reglas = this.reglas): number | null {
+    let parser = this.parsers.get(reglas);
+    if (!parser) {
+      parser = new Parser({
+        ...this.config,
+        reglas,
+        timeout: 0,
+        cache: { enabled: false, ttl: 0, maxSize: 0 },
+      });
+      this.parsers.set(reglas, parser);
+    }
+
+    const result = parser.parse([...lineas, `Total: ${declarado}`].join('\n'));
+    return result.jugadas.length === 1 ? result.jugadas[0].totalCalculado : null;
+  }
+}
@@ -0,0 +1,115 @@
+import Decimal from 'decimal.js';
+import { DetalleApuesta, Jugada, ParseResult, ReglasCasa } from './types';
+import { DEFAULT_HOUSE_RULES } from './constants/payouts';
+import { DIAGNOSTIC_CODES } from './constants/diagnostics';
+import { ParserError } from './utils/errors';
+import { normalizeNumber } from './utils/formatters';
+
+/**
+ * Escribe jugadas en su forma canónica: el nombre, una línea por grupo de apuestas
+ * con los números en dos cifras y los montos explícitos, y el total recalculado.
+ *
+ * - fijo y corrido: `05 23 con 10 y 5` (solo corrido: `con 0 y 5`)
+ * - centena: `123 456 con 3`
+ * - parlé: `25*33 10*01 parle con 2` o `25 33 45 parle con 1`
+ * - candado: `25 33 45 candado con 6`
+ * - volteos, rangos y demás patrones: sus números expandidos, como un fijo
+ *
+ * El texto vuelve a parsearse (con las mismas reglas de la casa) a los mismos
+ * detalles y totales; sirve como comprobante para el jugador y copia normalizada.
+ */
+export class CanonicalSerializer {
+  constructor(private readonly reglas: ReglasCasa = DEFAULT_HOUSE_RULES) {}
+
+  /**
+   * Jugadas de un resultado, separadas por una línea en blanco
+   */
+  serialize(result: ParseResult): string {
+    return result.jugadas.map(jugada => this.serializeJugada(jugada)).join('\n\n');
+  }
+
+  serializeJugada(jugada: Jugada): string {
+    const lines = [jugada.jugador];
+    const { detalles } = jugada;
+
+    for (let i = 0; i < detalles.length; i++) {
+      const detalle = detalles[i];
+      const siguiente = detalles[i + 1];
+
+      // Un fijo seguido del corrido de los mismos números va en una sola línea
+      if (
+        detalle.tipo === 'fijo' &&
+        siguiente?.tipo === 'corrido' &&
+        mismosNumeros(detalle, siguiente)
+      ) {
+        lines.push(
+          `${numeros(detalle)} con ${monto(detalle.montoUnitario)} y ${monto(siguiente.montoUnitario)}`
+        );
+        i++;
+        continue;
+      }
+
+      lines.push(this.serializeDetalle(detalle));
+    }
+
+    const total = detalles.reduce((sum, d) => sum.plus(d.monto), new Decimal(0));
+    lines.push(`Total: ${monto(total.toNumber())}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Línea canónica de una sola apuesta
+   */
+  serializeDetalle(detalle: DetalleApuesta): string {
+    switch (detalle.tipo) {
+      // Los patrones se escriben expandidos: vuelven a parsearse como fijos
+      // (o centenas) con el mismo monto por número
+      case 'fijo':
+      case 'centena':
+      case 'especial':
+      case 'volteo':
+      case 'rango':
+        return `${numeros(detalle)} con ${monto(detalle.montoUnitario)}`;
+      case 'corrido':
+        return `${numeros(detalle)} con 0 y ${monto(detalle.montoUnitario)}`;
+      case 'parle':
+        return detalle.pares
+          ? `${detalle.pares.map(par => par.map(normalizeNumber).join('*')).join(' ')} parle con ${monto(detalle.montoUnitario)}`
+          : `${numeros(detalle)} parle con ${monto(detalle.montoUnitario)}`;
+      case 'candado': {
+        // Repartido: se declara el monto total; si no, el de cada combinación
+        const declarado = this.reglas.candadoRepartido ? detalle.monto : detalle.montoUnitario;
+        return `${numeros(detalle)} candado con ${monto(declarado)}`;
+      }
+      default:
+        throw new ParserError(
+          `El tipo de apuesta ${detalle.tipo} no tiene forma canónica`,
+          { detalle },
+          DIAGNOSTIC_CODES.INVALID_BET_TYPE
+        );
+    }
+  }
+}
+
+/**
+ * Texto canónico de un resultado o de una jugada
+ */
+export function serialize(
+  value: ParseResult | Jugada,
+  reglas: ReglasCasa = DEFAULT_HOUSE_RULES
+): string {
+  const serializer = new CanonicalSerializer(reglas);
+  return 'jugadas' in value ? serializer.serialize(value) : serializer.serializeJugada(value);
+}
+
+function numeros(detalle: DetalleApuesta): string {
+  return detalle.numeros.map(normalizeNumber).join(' ');
+}
+
+function mismosNumeros(a: DetalleApuesta, b: DetalleApuesta): boolean {
+  return a.numeros.length === b.numeros.length && a.numeros.every((n, i) => n === b.numeros[i]);
+}
+
+function monto(value: number): string {
+  return new Decimal(value).toFixed();
+}
@@ -0,0 +1,311 @@
+import * as http from 'http';
+import { Parser } from './parser';
+import { ParseResult, ParserConfig } from './types';
+import { analyzeParseResult, getExecutiveSummary } from './utils/analyzers';
+import { ParserError, TimeoutError, ValidationError } from './utils/errors';
+import { jsonReplacer } from './utils/formatters';
+
+export interface ServerOptions {
+  /**
+   * Configuración base del parser; cada petición puede cambiar con `config`
+   * las opciones de `REQUEST_CONFIG_KEYS`
+   */
+  config?: Partial<ParserConfig>;
+
+  /** Tamaño máximo del cuerpo de la petición en bytes (por defecto 1 MB) */
+  maxBodySize?: number;
+}
+
+/** Cuerpo JSON de las peticiones POST (también se acepta el texto plano como cuerpo) */
+export interface ParseRequest {
+  text: string;
+  config?: Partial<ParserConfig>;
+}
+
+/** Cuerpo de las respuestas de error */
+export interface ErrorResponse {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+/**
+ * Error con estado HTTP
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Opciones que una petición puede cambiar, con su tipo. Los límites
+ * (`timeout`, `maxJugadores`, `maxMonto`) solo pueden bajar respecto a los
+ * del servidor.
+ */
+export const REQUEST_CONFIG_KEYS = {
+  strictMode: 'boolean',
+  autoExpand: 'boolean',
+  validateTotals: 'boolean',
+  allowNegative: 'boolean',
+  numberWords: 'boolean',
+  currencySymbol: 'string',
+  decimalSeparator: 'string',
+  colector: 'string',
+  defaultMontoFijo: 'number',
+  defaultMontoCorrido: 'number',
+  timeout: 'number',
+  maxJugadores: 'number',
+  maxMonto: 'number',
+} as const;
+
+const LIMITS = ['timeout', 'maxJugadores', 'maxMonto'] as const;
+
+interface ActionResponse {
+  status: number;
+  body: unknown;
+}
+
+type Action = (parser: Parser, text: string) => ActionResponse | Promise<ActionResponse>;
+
+const ACTIONS: Record<string, Action> = {
+  '/parse': async (parser, text) => {
+    const result = await parser.parseAsync(text);
+    return { status: parseStatus(result), body: result };
+  },
+  '/validate': (parser, text) => ({ status: 200, body: parser.validate(text) }),
+  '/structure': (parser, text) => ({ status: 200, body: parser.extractStructure(text) }),
+  '/analyze': async (parser, text) => {
+    const result = await parser.parseAsync(text);
+    const analysis = analyzeParseResult(result);
+    return {
+      status: parseStatus(result),
+      body: { analysis, summary: getExecutiveSummary(analysis) },
+    };
+  },
+};
+
+/**
+ * Manejador de peticiones HTTP del parser:
+ * `POST /parse`, `POST /validate`, `POST /structure`, `POST /analyze` y `GET /info`.
+ *
+ * Las peticiones sin `config` comparten un parser (y su caché); con `config`
+ * se usa un parser propio con la configuración base más la de la petición.
+ * Un parseo que vence el tiempo límite responde 408 y uno que falla (por
+ * ejemplo en modo estricto) 422, ambos con el resultado como cuerpo.
+ */
+export function createRequestHandler(
+  options: ServerOptions = {}
+): (req: http.IncomingMessage, res: http.ServerResponse) => void {
+  const baseConfig = options.config ?? {};
+  const maxBodySize = options.maxBodySize ?? 1024 * 1024;
+  const shared = new Parser(baseConfig);
+  const limits = shared.getInfo().config;
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === '/info') {
+      allowMethod(req, 'GET');
+      return send(res, 200, shared.getInfo());
+    }
+
+    const action = ACTIONS[path];
+    if (!action) {
+      throw new HttpError(404, 'NOT_FOUND', `Ruta desconocida: ${path}`);
+    }
+    allowMethod(req, 'POST');
+
+    const { text, config } = parseBody(req, await readBody(req, maxBodySize));
+    if (!config) {
+      const { status, body } = await action(shared, text);
+      return send(res, status, body);
+    }
+
+    const parser = new Parser({ ...baseConfig, ...requestConfig(config, limits) });
+    try {
+      const { status, body } = await action(parser, text);
+      return send(res, status, body);
+    } finally {
+      await parser.cleanup();
+    }
+  };
+
+  return (req, res) => {
+    handle(req, res).catch(error => {
+      const { status, body } = toErrorResponse(error);
+      send(res, status, body);
+    });
+  };
+}
+
+/**
+ * Crea (sin iniciar) el servidor HTTP del parser
+ */
+export function createServer(options: ServerOptions = {}): http.Server {
+  return http.createServer(createRequestHandler(options));
+}
+
+/**
+ * Inicia el servidor y resuelve cuando está escuchando
+ */
+export function startServer(
+  port = 3000,
+  host = '127.0.0.1',
+  options: ServerOptions = {}
+): Promise<http.Server> {
+  const server = createServer(options);
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Convierte un error en estado HTTP y cuerpo JSON
+ */
+export function toErrorResponse(error: unknown): { status: number; body: ErrorResponse } {
+  const respuesta = (status: number, code: string, message: string, details?: unknown) => ({
+    status,
+    body: { error: { code, message, ...(details !== undefined && { details }) } },
+  });
+
+  if (error instanceof HttpError) {
+    return respuesta(error.status, error.code, error.message, error.details);
+  }
+  if (error instanceof ValidationError) {
+    return respuesta(422, 'VALIDATION_ERROR', error.message, error.validationErrors);
+  }
+  if (error instanceof TimeoutError) {
+    return respuesta(408, 'TIMEOUT_ERROR', error.message);
+  }
+  if (error instanceof ParserError) {
+    return respuesta(400, error.code ?? 'PARSER_ERROR', error.message);
+  }
+  return respuesta(500, 'INTERNAL_ERROR', 'Error interno del servidor');
+}
+
+/**
+ * Estado HTTP de un parseo: 408 si venció el tiempo límite, 422 si falló
+ */
+function parseStatus(result: ParseResult): number {
+  if (result.metadata.timedOut) {
+    return 408;
+  }
+  return result.success ? 200 : 422;
+}
+
+/**
+ * Configuración de una petición: solo las opciones permitidas, con su tipo, y
+ * los límites recortados a los del servidor
+ */
+function requestConfig(config: Partial<ParserConfig>, limits: ParserConfig): Partial<ParserConfig> {
+  const errors: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    const type = REQUEST_CONFIG_KEYS[key as keyof typeof REQUEST_CONFIG_KEYS];
+    if (!type) {
+      errors.push(`"${key}" no se puede cambiar por petición`);
+    } else if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      errors.push(`"${key}" debe ser de tipo ${type}`);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  for (const key of LIMITS) {
+    const value = result[key] as number | undefined;
+    if (value === undefined) continue;
+
+    if (value <= 0) {
+      errors.push(`"${key}" debe ser mayor que 0`);
+    } else if (limits[key] > 0) {
+      // Un límite del servidor en 0 (timeout) significa "sin límite"
+      result[key] = Math.min(value, limits[key]);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new HttpError(400, 'INVALID_CONFIG', 'Configuración no permitida', errors);
+  }
+  return result as Partial<ParserConfig>;
+}
+
+function allowMethod(req: http.IncomingMessage, method: string): void {
+  if (req.method !== method) {
+    throw new HttpError(405, 'METHOD_NOT_ALLOWED', `Use ${method}`, { allow: method });
+  }
+}
+
+function readBody(req: http.IncomingMessage, maxBodySize: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // Un cuerpo demasiado grande se descarta, pero se termina de leer para poder responder
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBodySize) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      if (size > maxBodySize) {
+        reject(new HttpError(413, 'PAYLOAD_TOO_LARGE', `El cuerpo supera ${maxBodySize} bytes`));
+      } else {
+        resolve(Buffer.concat(chunks).toString('utf8'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * JSON `{ text, config }` o, con otro content-type, el texto de la jugada
+ */
+function parseBody(req: http.IncomingMessage, body: string): ParseRequest {
+  if (!(req.headers['content-type'] ?? '').includes('application/json')) {
+    return { text: body };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'INVALID_JSON', 'El cuerpo no es JSON válido');
+  }
+
+  const { text, config } = (data ?? {}) as Partial<ParseRequest>;
+  if (typeof text !== 'string') {
+    throw new HttpError(400, 'INVALID_REQUEST', 'Falta el campo "text"');
+  }
+  if (
+    config !== undefined &&
+    (typeof config !== 'object' || config === null || Array.isArray(config))
+  ) {
+    throw new HttpError(400, 'INVALID_REQUEST', 'El campo "config" debe ser un objeto');
+  }
+
+  return { text, config };
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown): void {
+  const json = JSON.stringify(body, jsonReplacer);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  res.end(json);
+}
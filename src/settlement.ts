@@ -0,0 +1,203 @@
+import Decimal from 'decimal.js';
+import {
+  DetalleApuesta,
+  Jugada,
+  LiquidacionResult,
+  ParseResult,
+  PremioDetalle,
+  PremioJugada,
+  ReglasCasa,
+  ResultadoSorteo,
+  TablaPagos,
+  TipoApuesta,
+} from './types';
+import { DEFAULT_PAYOUT_TABLE } from './constants/payouts';
+import { ValidationError } from './utils/errors';
+
+/** Tipos que se pagan con la tarifa de otro */
+const PAGA_COMO: Partial<Record<TipoApuesta, TipoApuesta>> = {
+  especial: 'fijo',
+  volteo: 'fijo',
+  rango: 'fijo',
+};
+
+/**
+ * Liquida las jugadas de un `ParseResult` contra el resultado de un sorteo.
+ *
+ * - fijo: el número coincide con el fijo (también los patrones: volteo, rango y
+ *   especial se liquidan como fijos de sus números expandidos)
+ * - corrido: paga una vez por cada posición (fijo o corridos) que coincide
+ * - centena: el número coincide con la centena del sorteo
+ * - parlé y candado: pagan cada par cuyos dos números salieron
+ */
+export class SettlementEngine {
+  private readonly tabla: TablaPagos;
+
+  constructor(tabla: Partial<TablaPagos> = {}) {
+    this.tabla = { ...DEFAULT_PAYOUT_TABLE, ...tabla };
+  }
+
+  /**
+   * Motor con la tabla de pagos de un perfil de reglas
+   */
+  static fromHouseRules(reglas: ReglasCasa): SettlementEngine {
+    return new SettlementEngine(reglas.pagos);
+  }
+
+  get payouts(): TablaPagos {
+    return { ...this.tabla };
+  }
+
+  settle(result: ParseResult, sorteo: ResultadoSorteo): LiquidacionResult {
+    const normalizado = this.normalizeSorteo(sorteo);
+    const jugadas = result.jugadas.map(j => this.settleJugada(j, normalizado));
+
+    const totalApostado = jugadas.reduce((sum, j) => sum.plus(j.totalApostado), new Decimal(0));
+    const totalPremios = jugadas.reduce((sum, j) => sum.plus(j.totalPremio), new Decimal(0));
+
+    return {
+      sorteo: normalizado,
+      jugadas,
+      totalApostado: totalApostado.toNumber(),
+      totalPremios: totalPremios.toNumber(),
+      balance: totalApostado.minus(totalPremios).toNumber(),
+    };
+  }
+
+  settleJugada(jugada: Jugada, sorteo: ResultadoSorteo): PremioJugada {
+    let totalApostado = new Decimal(0);
+    let totalPremio = new Decimal(0);
+    const detalles: PremioDetalle[] = [];
+
+    jugada.detalles.forEach((detalle, index) => {
+      const premio = this.settleDetalle(detalle, sorteo, index);
+      totalApostado = totalApostado.plus(detalle.monto);
+      totalPremio = totalPremio.plus(premio.premio);
+      detalles.push(premio);
+    });
+
+    return {
+      jugador: jugada.jugador,
+      totalApostado: totalApostado.toNumber(),
+      totalPremio: totalPremio.toNumber(),
+      detalles,
+    };
+  }
+
+  settleDetalle(detalle: DetalleApuesta, sorteo: ResultadoSorteo, detalleIndex = 0): PremioDetalle {
+    const salidos = [sorteo.fijo, ...sorteo.corridos];
+    let numerosGanadores: string[] = [];
+    let paresGanadores: [string, string][] = [];
+
+    switch (detalle.tipo) {
+      case 'fijo':
+      case 'especial':
+      case 'volteo':
+      case 'rango':
+        numerosGanadores = detalle.numeros.filter(n => n === sorteo.fijo);
+        break;
+      case 'corrido':
+        numerosGanadores = detalle.numeros.flatMap(n => salidos.filter(s => s === n));
+        break;
+      case 'centena':
+        numerosGanadores = detalle.numeros.filter(
+          n => sorteo.centena !== undefined && n === sorteo.centena
+        );
+        break;
+      case 'parle':
+      case 'candado':
+        paresGanadores = (detalle.pares ?? combinarPares(detalle.numeros)).filter(par =>
+          parSalido(par, salidos)
+        );
+        break;
+      default:
+        break;
+    }
+
+    const aciertos = numerosGanadores.length + paresGanadores.length;
+    const premio = new Decimal(detalle.montoUnitario)
+      .times(this.tabla[PAGA_COMO[detalle.tipo] ?? detalle.tipo] ?? 0)
+      .times(aciertos);
+
+    return {
+      detalleIndex,
+      tipo: detalle.tipo,
+      monto: detalle.monto,
+      aciertos,
+      numerosGanadores,
+      paresGanadores,
+      premio: premio.toNumber(),
+      lineaOriginal: detalle.lineaOriginal,
+      lineaNumero: detalle.lineaNumero,
+    };
+  }
+
+  /**
+   * Valida el resultado del sorteo y completa los números a dos (o tres) cifras
+   */
+  private normalizeSorteo(sorteo: ResultadoSorteo): ResultadoSorteo {
+    const errors: string[] = [];
+    const dosCifras = (valor: string, campo: string): string => {
+      const texto = String(valor ?? '').trim();
+      if (!/^\d{1,2}$/.test(texto)) {
+        errors.push(`${campo} inválido: "${texto}"`);
+      }
+      return texto.padStart(2, '0');
+    };
+
+    const fijo = dosCifras(sorteo.fijo, 'Fijo');
+    const corridos = Array.isArray(sorteo.corridos) ? sorteo.corridos : [];
+    if (corridos.length !== 2) {
+      errors.push('El sorteo debe tener dos corridos');
+    }
+    const [primero, segundo] = [0, 1].map(i => dosCifras(corridos[i], `Corrido ${i + 1}`));
+
+    let centena: string | undefined;
+    if (sorteo.centena !== undefined) {
+      centena = String(sorteo.centena).trim().padStart(3, '0');
+      if (!/^\d{3}$/.test(centena)) {
+        errors.push(`Centena inválida: "${sorteo.centena}"`);
+      } else if (centena.slice(-2) !== fijo) {
+        errors.push(`La centena ${centena} no termina en el fijo ${fijo}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Resultado de sorteo inválido', errors, { sorteo });
+    }
+
+    return centena !== undefined
+      ? { centena, fijo, corridos: [primero, segundo] }
+      : { fijo, corridos: [primero, segundo] };
+  }
+}
+
+/**
+ * Liquida un resultado de parseo con la tabla de pagos indicada (o la de por defecto)
+ */
+export function settle(
+  result: ParseResult,
+  sorteo: ResultadoSorteo,
+  tabla: Partial<TablaPagos> = {}
+): LiquidacionResult {
+  return new SettlementEngine(tabla).settle(result, sorteo);
+}
+
+function combinarPares(numeros: string[]): [string, string][] {
+  const pares: [string, string][] = [];
+  for (let i = 0; i < numeros.length; i++) {
+    for (let j = i + 1; j < numeros.length; j++) {
+      pares.push([numeros[i], numeros[j]]);
+    }
+  }
+  return pares;
+}
+
+/**
+ * Un par sale si sus dos números ocupan posiciones distintas del sorteo
+ */
+function parSalido([a, b]: [string, string], salidos: string[]): boolean {
+  const indexA = salidos.indexOf(a);
+  if (indexA === -1) return false;
+  return salidos.some((s, i) => s === b && i !== indexA);
+}
@@ -0,0 +1,163 @@
+import Decimal from 'decimal.js';
+import { Parser } from './parser';
+import { BlockDetector } from './block-detector';
+import { Deadline } from './utils/deadline';
+import { Diagnostic, Jugada, ParserConfig } from './types';
+
+export interface StreamingParserOptions {
+  /** Se llama con cada jugada en cuanto su bloque está completo */
+  onJugada?: (jugada: Jugada) => void;
+}
+
+/**
+ * Parser incremental para textos que llegan por partes (p. ej. mensajes de chat).
+ *
+ * Emite cada jugada en cuanto su bloque está completo según las mismas reglas
+ * que `Parser.extractBloques` (línea vacía, nombre de otro jugador o línea de
+ * total). El último bloque se emite al llamar a `end()`.
+ */
+export class StreamingParser extends Parser {
+  private readonly detector = new BlockDetector();
+  private readonly emitidas: Jugada[] = [];
+  private readonly diagnosticos: Diagnostic[] = [];
+  private total = new Decimal(0);
+
+  /** Texto pendiente, desde el inicio del bloque abierto o la línea sin leer */
+  private buffer = '';
+  /** Offset del inicio del buffer dentro de todo lo recibido */
+  private bufferOffset = 0;
+  /** Inicio de la próxima línea sin leer dentro del buffer */
+  private scanned = 0;
+  private blockStart = -1;
+  private blockEnd = -1;
+
+  constructor(
+    config: Partial<ParserConfig> = {},
+    private readonly options: StreamingParserOptions = {}
+  ) {
+    super(config);
+  }
+
+  /**
+   * Agrega un fragmento de texto y devuelve las jugadas que quedaron completas
+   */
+  write(chunk: string): Jugada[] {
+    void this.initialize();
+
+    const nuevas: Jugada[] = [];
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf('\n', this.scanned);
+    while (newline !== -1) {
+      this.readLine(this.scanned, newline, nuevas);
+      this.scanned = newline + 1;
+      newline = this.buffer.indexOf('\n', this.scanned);
+    }
+
+    this.compact();
+    return nuevas;
+  }
+
+  /**
+   * Indica que no llegará más texto: procesa la última línea y cierra el bloque abierto
+   */
+  end(): Jugada[] {
+    void this.initialize();
+
+    const nuevas: Jugada[] = [];
+    if (this.scanned < this.buffer.length) {
+      this.readLine(this.scanned, this.buffer.length, nuevas);
+      this.scanned = this.buffer.length;
+    }
+
+    this.emitBlock(nuevas);
+    this.detector.reset();
+    this.compact();
+    return nuevas;
+  }
+
+  /** Jugadas emitidas hasta ahora */
+  get jugadas(): Jugada[] {
+    return [...this.emitidas];
+  }
+
+  /** Total calculado de las jugadas emitidas hasta ahora */
+  get runningTotal(): number {
+    return this.total.toNumber();
+  }
+
+  /** Diagnósticos de las jugadas emitidas (rangos sobre todo el texto recibido) */
+  get diagnostics(): Diagnostic[] {
+    return [...this.diagnosticos];
+  }
+
+  private readLine(start: number, end: number, nuevas: Jugada[]): void {
+    const raw = this.buffer.slice(start, end);
+    // Las líneas que el preprocesador vacía (solo símbolos) separan bloques
+    // como una línea en blanco, igual que en el parseo completo
+    const linea = raw.trim() ? this.preprocessor.process(raw) : '';
+    const paso = this.detector.next(linea);
+
+    if (paso.closeBefore) {
+      this.emitBlock(nuevas);
+    }
+    if (paso.include) {
+      if (this.blockStart === -1) {
+        this.blockStart = start;
+      }
+      this.blockEnd = end;
+    }
+    if (paso.closeAfter) {
+      this.emitBlock(nuevas);
+    }
+  }
+
+  private emitBlock(nuevas: Jugada[]): void {
+    if (this.blockStart === -1) {
+      return;
+    }
+
+    const raw = this.buffer.slice(this.blockStart, this.blockEnd);
+    const source = this.preprocessor.processWithMap(raw, this.bufferOffset + this.blockStart);
+    this.blockStart = -1;
+
+    if (!source.text.trim()) {
+      return;
+    }
+
+    const deadline = Deadline.start({}, this.config.timeout);
+    const resultado = this.processBloque(
+      { text: source.text, offset: 0 },
+      this.emitidas.length,
+      source,
+      deadline
+    );
+    this.diagnosticos.push(...resultado.diagnostics);
+
+    if (resultado.jugada) {
+      const jugada = resultado.jugada;
+      this.emitidas.push(jugada);
+      this.total = this.total.plus(jugada.totalCalculado);
+      nuevas.push(jugada);
+      this.options.onJugada?.(jugada);
+    }
+  }
+
+  /**
+   * Descarta del buffer el texto ya procesado
+   */
+  private compact(): void {
+    const keep = this.blockStart === -1 ? this.scanned : this.blockStart;
+    if (keep === 0) {
+      return;
+    }
+
+    this.buffer = this.buffer.slice(keep);
+    this.bufferOffset += keep;
+    this.scanned -= keep;
+    if (this.blockStart !== -1) {
+      this.blockStart -= keep;
+      this.blockEnd -= keep;
+    }
+  }
+}
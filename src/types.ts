@@ -2,6 +2,10 @@
  * Tipos principales para la librería Loteria Parser
  */
 
+import type { DiagnosticCode } from './constants/diagnostics';
+
+export type { DiagnosticCode };
+
 export interface ParserConfig {
   /** Modo estricto: lanza errores en lugar de advertencias */
   strictMode: boolean;
@@ -45,6 +49,29 @@ export interface ParserConfig {
     ttl: number; // Tiempo de vida en ms
     maxSize: number;
   };
+  
+  /** Reglas de la casa (banco) a la que se envía la jugada */
+  reglas?: ReglasCasa;
+  
+  /** Palabras que la normalización de caracteres no altera (se suman a `PROTECTED_KEYWORDS`) */
+  protectedKeywords?: string[];
+  
+  /** Diccionarios de alias y reescrituras que aplica el preprocesado (ver `DiccionarioCorrecciones`) */
+  diccionarios?: DiccionarioCorrecciones[];
+  
+  /** Colector que recogió la jugada; elige los diccionarios propios de ese colector */
+  colector?: string;
+  
+  /** Convertir a cifras los números en letras ("veinticinco", "mil quinientos"); por defecto sí */
+  numberWords?: boolean;
+}
+
+export interface ParseOptions {
+  /** Señal para cancelar el parseo en curso */
+  signal?: AbortSignal;
+  
+  /** Momento límite (epoch en ms); si no se indica se usa `config.timeout` */
+  deadline?: number;
 }
 
 export interface Jugada {
@@ -72,6 +99,18 @@ export interface Jugada {
   /** Errores críticos */
   errors: string[];
   
+  /** Advertencias y errores con su posición en el texto original */
+  diagnostics?: Diagnostic[];
+  
+  /** Confianza de la jugada y de cada una de sus líneas, con los factores que la explican */
+  confianza?: ConfianzaJugada;
+  
+  /** Líneas que admiten más de una lectura (solo si hay alguna) */
+  ambiguedades?: LineaAmbigua[];
+  
+  /** Correcciones automáticas aplicadas al texto antes de leerlo (solo si hay alguna) */
+  ediciones?: EdicionTexto[];
+  
   /** Metadatos adicionales */
   metadata: {
     timestamp: number;
@@ -79,9 +118,181 @@ export interface Jugada {
     lineCount: number;
     numberCount: number;
     betTypes: Set<TipoApuesta>;
+    bloqueIndex?: number;
+    enriched?: boolean;
+    /** Mensaje de chat del que proviene la jugada (importada con ChatImporter) */
+    message?: MensajeOrigen;
+    /** Plugins que intervinieron en el bloque, en el orden en que se ejecutaron */
+    plugins?: string[];
+    [key: string]: unknown;
   };
 }
 
+/** Factor que sube o baja la confianza de un parseo */
+export interface FactorConfianza {
+  /** Identificador estable del factor (ej: TOTAL_MISMATCH) */
+  codigo: string;
+  
+  /** Explicación legible (ej: "3 líneas sin monto") */
+  descripcion: string;
+  
+  /** Aporte a la confianza: negativo si la baja */
+  aporte: number;
+}
+
+export interface Confianza {
+  /** Confianza entre 0 y 1 */
+  valor: number;
+  
+  factores: FactorConfianza[];
+}
+
+export interface ConfianzaLinea extends Confianza {
+  /** Número de línea dentro del bloque (1-indexed, como `DetalleApuesta.lineaNumero`) */
+  lineaNumero: number;
+  
+  texto: string;
+  
+  /** Rango del texto original */
+  span?: SourceSpan;
+}
+
+export interface ConfianzaJugada extends Confianza {
+  lineas: ConfianzaLinea[];
+}
+
+/** Una forma de leer una línea ambigua y las apuestas que produce */
+export interface InterpretacionLinea {
+  /** Identificador estable de la lectura (ej: LAST_NUMBER_AMOUNT) */
+  codigo: string;
+  
+  /** Explicación legible (ej: "30 es el monto") */
+  descripcion: string;
+  
+  detalles: DetalleApuesta[];
+  
+  /** Suma de los montos de `detalles` */
+  total: number;
+  
+  /** Verosimilitud relativa entre las lecturas de la línea (suman 1) */
+  puntaje: number;
+}
+
+/** Línea que admite más de una lectura */
+export interface LineaAmbigua {
+  lineaNumero: number;
+  texto: string;
+  span?: SourceSpan;
+  
+  /** De la más a la menos probable; la primera es la que se aplicó */
+  interpretaciones: InterpretacionLinea[];
+  
+  /** La lectura aplicada es la que cuadra con el total declarado */
+  resueltaPorTotal: boolean;
+}
+
+/** Tipo de corrección que propone el conciliador de totales */
+export type TipoConciliacion =
+  'MISSING_CORRIDO' | 'Y_AS_NUMBER' | 'MISREAD_DIGIT' | 'DUPLICATED_LINE' | 'CANDADO_SPLIT';
+
+/** Corrección de una línea con la que el total calculado cuadra con el declarado */
+export interface SugerenciaConciliacion {
+  codigo: TipoConciliacion;
+  
+  /** Explicación legible (ej: "Falta el corrido: con 10 y 5") */
+  descripcion: string;
+  
+  lineaNumero: number;
+  
+  /** Línea tal como se leyó */
+  original: string;
+  
+  /** Línea corregida (null si hay que eliminarla) */
+  editada: string | null;
+  
+  /** Total de la jugada con la corrección */
+  totalCalculado: number;
+  
+  /** Verosimilitud de la corrección (0 a 1) */
+  puntaje: number;
+}
+
+/** Carácter que el preprocesado reemplazó por un dígito ("o" -> "0") */
+export interface Sustitucion {
+  original: string;
+  reemplazo: string;
+  
+  /** Palabra en la que se hizo el reemplazo, tal como estaba (ej: "1o") */
+  token: string;
+  
+  /** Rango del texto original */
+  span: SourceSpan;
+}
+
+/** Corrección automática del texto, para que un revisor la acepte o la rechace */
+export interface EdicionTexto {
+  /** Regla que la produjo (ej: "DASHED_NUMBERS") */
+  regla: string;
+  
+  /** Texto reemplazado */
+  original: string;
+  
+  reemplazo: string;
+  
+  /** Rango del texto original (en un plugin de `transform`, del texto que recibió) */
+  span: SourceSpan;
+  
+  /** Plugin que la aplicó */
+  plugin?: string;
+  
+  /** Diccionario de correcciones del que proviene la regla */
+  diccionario?: string;
+}
+
+/** Reescritura por expresión regular de un diccionario de correcciones */
+export interface ReglaCorreccion {
+  id: string;
+  
+  /** Expresión regular (fuente, sin barras) */
+  patron: string;
+  
+  /** Flags de la expresión; por defecto "gi" (la "g" se añade siempre) */
+  flags?: string;
+  
+  /** Reemplazo, admite referencias a grupos ("$1") */
+  reemplazo: string;
+  
+  descripcion?: string;
+}
+
+/**
+ * Abreviaturas y reescrituras de un ámbito: global, de una casa (`casa`, el
+ * nombre de sus `ReglasCasa`) o de un colector (`colector`)
+ */
+export interface DiccionarioCorrecciones {
+  nombre: string;
+  
+  casa?: string;
+  
+  colector?: string;
+  
+  /** Palabra abreviada -> texto completo (ej: "cn" -> "con"); se comparan palabras enteras */
+  alias: Record<string, string>;
+  
+  reglas: ReglaCorreccion[];
+}
+
+/** Mensaje de chat (WhatsApp, Telegram) del que proviene un texto */
+export interface MensajeOrigen {
+  /** Remitente del mensaje */
+  sender: string;
+  
+  /** Fecha del mensaje (epoch en ms) */
+  timestamp: number;
+  
+  source: 'whatsapp' | 'telegram';
+}
+
 export interface DetalleApuesta {
   /** Tipo de apuesta */
   tipo: TipoApuesta;
@@ -107,6 +318,9 @@ export interface DetalleApuesta {
   /** Número de línea (1-indexed) */
   lineaNumero?: number;
   
+  /** Rango del texto original (antes del preprocesado) que produjo la apuesta */
+  span?: SourceSpan;
+  
   /** Información de expansión (para patrones expandidos) */
   expansion?: {
     original: string;
@@ -132,6 +346,7 @@ export type PatternType =
   | 'terminal' 
   | 'pares_relativos' 
   | 'centenas_todas'
+  | 'repeticion'
   | 'simple';
 
 export interface ParseResult {
@@ -149,6 +364,8 @@ export interface ParseResult {
     difference: number;
     isValid: boolean;
     confidence: number; // 0-1
+    /** Factores que explican `confidence` */
+    confidenceFactors?: FactorConfianza[];
   };
   
   /** Metadatos del procesamiento */
@@ -158,6 +375,13 @@ export interface ParseResult {
     processedLength: number;
     warnings: string[];
     errors: string[];
+    diagnostics: Diagnostic[];
+    /** El parseo se interrumpió por timeout o cancelación; el resultado es parcial */
+    timedOut?: boolean;
+    /** Letras que el preprocesado leyó como dígitos (para revisarlas) */
+    substitutions?: Sustitucion[];
+    /** Correcciones de los diccionarios aplicadas por el preprocesado */
+    edits?: EdicionTexto[];
     cacheStats?: {
       hits: number;
       misses: number;
@@ -191,16 +415,28 @@ export interface ValidationResult {
   /** Sugerencias de mejora */
   suggestions: string[];
   
-  /** Información de validación */
+  /** Diagnósticos estructurados (mismos errores, advertencias y sugerencias con código) */
+  diagnostics?: Diagnostic[];
+  
+  /** Información de validación (el contenido depende del validador) */
   info: {
-    hasJugadores: boolean;
-    hasTotals: boolean;
-    hasNumbers: boolean;
-    estimatedLines: number;
-    complexity: 'simple' | 'medium' | 'complex';
+    hasJugadores?: boolean;
+    hasTotals?: boolean;
+    hasNumbers?: boolean;
+    estimatedLines?: number;
+    complexity?: 'simple' | 'medium' | 'complex';
+    [key: string]: unknown;
   };
 }
 
+/**
+ * Fase del pipeline de plugins de un bloque:
+ * - `transform`: reescribe el texto del bloque antes de leerlo
+ * - `extract`: extrae las apuestas de cada línea que acepta
+ * - `postprocess`: revisa la jugada ya armada
+ */
+export type PluginPhase = 'transform' | 'extract' | 'postprocess';
+
 export interface ProcessorPlugin {
   /** Nombre único del plugin */
   name: string;
@@ -211,12 +447,27 @@ export interface ProcessorPlugin {
   /** Prioridad (mayor = se ejecuta primero) */
   priority: number;
   
-  /** Indica si el plugin puede procesar el texto */
+  /** Fase en la que participa (por defecto `extract`) */
+  phase?: PluginPhase;
+  
+  /** Indica si el plugin puede procesar el texto (el bloque o, en `extract`, la línea) */
   canProcess(text: string): boolean;
   
-  /** Procesa el texto y devuelve una jugada */
+  /** Procesa el texto y devuelve una jugada (en `extract`, con las apuestas de una línea) */
   process(text: string, context: PluginContext): Jugada;
   
+  /**
+   * Procesa la línea actual del contexto (fase `extract`, se prefiere a `process`);
+   * null si el plugin no la reclama y debe ofrecerse al siguiente
+   */
+  processLine?(line: string, context: PluginContext): PluginLineResult | null;
+  
+  /** Reescribe el texto del bloque (fase `transform`), opcionalmente con las correcciones aplicadas */
+  transform?(text: string, context: PluginContext): string | PluginTransformResult;
+  
+  /** Revisa o completa la jugada armada (fase `postprocess`) */
+  postProcess?(jugada: Jugada, context: PluginContext): Jugada;
+  
   /** Valida una jugada procesada */
   validate(jugada: Jugada): ValidationResult;
   
@@ -245,6 +496,349 @@ export interface PluginContext {
   
   /** Índice de línea actual */
   lineIndex?: number;
+  
+  /** Estado que dejaron las líneas anteriores del bloque */
+  state?: PluginLineState;
+  
+  /** AST del bloque (construido por el parser) */
+  ast?: BloqueNode;
+}
+
+/**
+ * Texto reescrito por un plugin de `transform` y las correcciones que aplicó
+ */
+export interface PluginTransformResult {
+  text: string;
+  
+  edits: EdicionTexto[];
+}
+
+/**
+ * Estado que el parser lleva de una línea a la siguiente del bloque
+ */
+export interface PluginLineState {
+  /** Último monto de fijo (lo heredan las líneas sin "con X") */
+  montoFijo: number;
+  
+  /** Último monto de corrido */
+  montoCorrido: number;
+  
+  /** Jugador actual */
+  jugador: string;
+  
+  /** Números de líneas anteriores que esperan el monto de su parle ("25 33 parle") */
+  parlePendiente: string[];
+}
+
+/**
+ * Apuestas que un plugin extrae de una línea
+ */
+export interface PluginLineResult {
+  detalles: DetalleApuesta[];
+  
+  warnings?: string[];
+  
+  /** Cambios de estado para las líneas siguientes (los montos ya se toman de los detalles) */
+  state?: Partial<PluginLineState>;
+}
+
+/**
+ * Tokens emitidos por el Lexer
+ */
+export type TokenType =
+  | 'NUMBER'
+  | 'AMOUNT'
+  | 'CON'
+  | 'Y'
+  | 'PARLE'
+  | 'PARLE_INLINE'
+  | 'CANDADO'
+  | 'TIMES'
+  | 'VOLTEO_SUFFIX'
+  | 'RANGE_AL'
+  | 'DECENA'
+  | 'TERMINAL'
+  | 'PARES_RELATIVOS'
+  | 'CENTENAS_TODAS'
+  | 'TOTAL'
+  | 'NAME'
+  | 'WORD'
+  | 'NEWLINE';
+
+export interface Token {
+  type: TokenType;
+  
+  /** Texto del token tal como aparece en la entrada */
+  value: string;
+  
+  /** Offset inicial (inclusive) en el texto tokenizado */
+  start: number;
+  
+  /** Offset final (exclusivo) en el texto tokenizado */
+  end: number;
+}
+
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Diagnóstico estructurado (error, advertencia o sugerencia)
+ */
+export interface Diagnostic {
+  /** Código estable (ej: LP1001_NO_AMOUNT); no cambia aunque cambie el mensaje */
+  code: DiagnosticCode;
+  
+  severity: DiagnosticSeverity;
+  
+  /** Mensaje legible */
+  message: string;
+  
+  /** Rango del texto original al que se refiere */
+  span?: SourceSpan;
+  
+  /** Jugador al que pertenece */
+  player?: string;
+  
+  /** Índice del detalle relacionado en `jugada.detalles` */
+  detalleIndex?: number;
+  
+  /** Corrección sugerida */
+  fix?: DiagnosticFix;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export interface DiagnosticFix {
+  description: string;
+  
+  /** Texto que reemplaza al rango `span` (o al del diagnóstico) */
+  replacement?: string;
+  
+  span?: SourceSpan;
+}
+
+/**
+ * Nodos del AST de una jugada
+ */
+export interface NumeroNode {
+  kind: 'numero';
+  /** Dígitos tal como se escribieron (sin normalizar) */
+  value: string;
+  span: SourceSpan;
+}
+
+export interface ParNode {
+  kind: 'par';
+  numeros: [string, string];
+  span: SourceSpan;
+}
+
+export interface PatronNode {
+  kind: 'patron';
+  type: PatternType;
+  /** Texto original del patrón (ej: "10v", "05 al 15") */
+  raw: string;
+  /** Números resultantes de la expansión */
+  numeros: string[];
+  span: SourceSpan;
+}
+
+export interface MontoNode {
+  kind: 'monto';
+  value: number;
+  span: SourceSpan;
+}
+
+export interface ModificadorNode {
+  kind: 'parle' | 'candado';
+  /** Monto declarado (null si falta, ej: "parle con") */
+  monto: MontoNode | null;
+  /** Parle inline (p5) */
+  inline: boolean;
+  span: SourceSpan;
+}
+
+interface LineaNodeBase {
+  /** Índice de la línea dentro del bloque (0-indexed) */
+  index: number;
+  text: string;
+  tokens: Token[];
+  span: SourceSpan;
+}
+
+export interface NombreLineaNode extends LineaNodeBase {
+  kind: 'nombre';
+  nombre: string;
+}
+
+export interface TotalLineaNode extends LineaNodeBase {
+  kind: 'total';
+  monto: MontoNode | null;
+}
+
+export interface ApuestaLineaNode extends LineaNodeBase {
+  kind: 'apuesta';
+  numeros: NumeroNode[];
+  pares: ParNode[];
+  patrones: PatronNode[];
+  /** Montos "con A y B y C" */
+  montos: MontoNode[];
+  parle: ModificadorNode | null;
+  candado: ModificadorNode | null;
+  /** "por todas las centenas" */
+  todasLasCentenas: boolean;
+  /** Palabras no reconocidas */
+  desconocidos: Token[];
+}
+
+export interface DesconocidaLineaNode extends LineaNodeBase {
+  kind: 'desconocida';
+}
+
+export type LineaNode =
+  | NombreLineaNode
+  | TotalLineaNode
+  | ApuestaLineaNode
+  | DesconocidaLineaNode;
+
+export interface BloqueNode {
+  kind: 'bloque';
+  jugador: string | null;
+  totalDeclarado: number | null;
+  lineas: LineaNode[];
+  span: SourceSpan;
+}
+
+// Liquidación de premios
+
+/** Resultado de un sorteo */
+export interface ResultadoSorteo {
+  /** Número de tres cifras; sus dos últimas forman el fijo */
+  centena?: string;
+  
+  /** Fijo (dos cifras) */
+  fijo: string;
+  
+  /** Los dos corridos */
+  corridos: [string, string];
+}
+
+/** Veces el monto unitario que paga cada acierto, por tipo de apuesta */
+export type TablaPagos = Record<TipoApuesta, number>;
+
+/** Montos unitarios aceptados para un tipo de apuesta */
+export interface LimiteApuesta {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Perfil de reglas de una casa (banco). Es serializable a JSON.
+ */
+export interface ReglasCasa {
+  /** Nombre único del perfil */
+  nombre: string;
+  
+  /** Tabla de pagos */
+  pagos: TablaPagos;
+  
+  /** Montos mínimo y máximo por número o combinación */
+  limites: Partial<Record<TipoApuesta, LimiteApuesta>>;
+  
+  /** El monto del candado se reparte entre sus combinaciones (si no, es por combinación) */
+  candadoRepartido: boolean;
+  
+  /**
+   * Qué derivan los montos B y C de una centena "con A y B y C"
+   * sobre sus dos últimas cifras
+   */
+  centenaCompuesta: 'fijo-corrido' | 'corrido-fijo';
+}
+
+export interface PremioDetalle {
+  /** Índice del detalle dentro de la jugada */
+  detalleIndex: number;
+  
+  tipo: TipoApuesta;
+  
+  /** Monto apostado */
+  monto: number;
+  
+  /** Cantidad de aciertos (números o pares premiados) */
+  aciertos: number;
+  
+  /** Números premiados (fijo, corrido, centena) */
+  numerosGanadores: string[];
+  
+  /** Pares premiados (parlé, candado) */
+  paresGanadores: [string, string][];
+  
+  /** Monto a pagar */
+  premio: number;
+  
+  lineaOriginal: string;
+  lineaNumero?: number;
+}
+
+export interface PremioJugada {
+  jugador: string;
+  totalApostado: number;
+  totalPremio: number;
+  
+  /** Un elemento por detalle de la jugada, en el mismo orden */
+  detalles: PremioDetalle[];
+}
+
+export interface LiquidacionResult {
+  sorteo: ResultadoSorteo;
+  jugadas: PremioJugada[];
+  totalApostado: number;
+  totalPremios: number;
+  
+  /** Ganancia de la banca (apostado - premios) */
+  balance: number;
+}
+
+// Topes por número
+
+/** Monto máximo aceptado por número y tipo de apuesta en un sorteo */
+export interface TopesExposicion {
+  /** Tope general de cada tipo */
+  porTipo: Partial<Record<TipoApuesta, number>>;
+  
+  /** Topes propios de algunos números ("números topados"), p. ej. `{ '07': { fijo: 50 } }` */
+  porNumero?: Record<string, Partial<Record<TipoApuesta, number>>>;
+}
+
+export interface ExposicionNumero {
+  /** Número, o par (`"10-25"`) en parlés y candados */
+  numero: string;
+  tipo: TipoApuesta;
+  
+  /** Monto acumulado */
+  monto: number;
+  
+  /** Tope aplicable (null si no hay) */
+  tope: number | null;
+  
+  /** Monto por encima del tope */
+  exceso: number;
+}
+
+export interface AjusteExposicion {
+  jugador: string;
+  detalleIndex: number;
+  tipo: TipoApuesta;
+  
+  /** Números del detalle que superaban su tope */
+  numeros: string[];
+  
+  accion: 'rechazar' | 'recortar';
+  montoOriginal: number;
+  montoAceptado: number;
+  lineaNumero?: number;
 }
 
 export interface CacheEntry {
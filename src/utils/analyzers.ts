@@ -1,4 +1,5 @@
-import { DetalleApuesta, Jugada, ParseResult } from '../types';
+import Decimal from 'decimal.js';
+import { DetalleApuesta, Jugada, ParseResult, TipoApuesta } from '../types';
 import { PATTERNS, APUESTA_PATTERNS, LINE_PATTERNS } from '../constants/patterns';
 
 /**
@@ -20,6 +21,8 @@ export interface AnalysisResult {
     unique: number;
     distribution: Record<string, number>;
     mostCommon: Array<{ number: string; count: number }>;
+    /** Monto apostado por tipo y número (o par, en parlés y candados) */
+    exposure: Record<string, Record<string, number>>;
   };
   bets: {
     byType: Record<string, number>;
@@ -211,6 +214,46 @@ export function extractMetadata(text: string): {
   };
 }
 
+/**
+ * Campo de `ParseResult.stats` que acumula cada tipo de apuesta
+ * (volteos y rangos cuentan como especiales)
+ */
+const STATS_POR_TIPO: Record<TipoApuesta, keyof ParseResult['stats']> = {
+  fijo: 'fijos',
+  corrido: 'corridos',
+  parle: 'parles',
+  centena: 'centenas',
+  candado: 'candados',
+  especial: 'especiales',
+  volteo: 'especiales',
+  rango: 'especiales'
+};
+
+/**
+ * Estadísticas de un resultado: monto por tipo, cantidad de apuestas y de números
+ */
+export function calculateStats(jugadas: Jugada[]): ParseResult['stats'] {
+  const stats = {
+    fijos: 0,
+    corridos: 0,
+    parles: 0,
+    centenas: 0,
+    candados: 0,
+    especiales: 0,
+    totalApuestas: 0,
+    totalNumeros: 0
+  };
+  
+  for (const detalle of jugadas.flatMap(j => j.detalles)) {
+    const campo = STATS_POR_TIPO[detalle.tipo];
+    stats[campo] = new Decimal(stats[campo]).plus(detalle.monto).toNumber();
+    stats.totalApuestas++;
+    stats.totalNumeros += detalle.numeros.length;
+  }
+  
+  return stats;
+}
+
 /**
  * Analiza los detalles de apuestas para generar estadísticas
  */
@@ -408,7 +451,8 @@ export function analyzeParseResult(result: ParseResult): AnalysisResult {
         total: 0,
         unique: 0,
         distribution: {},
-        mostCommon: []
+        mostCommon: [],
+        exposure: {}
       },
       bets: {
         byType: {},
@@ -446,6 +490,15 @@ export function analyzeParseResult(result: ParseResult): AnalysisResult {
     numberDistribution[num] = (numberDistribution[num] || 0) + 1;
   });
   
+  // Monto expuesto por tipo y número
+  const exposure: Record<string, Record<string, number>> = {};
+  allDetalles.forEach(detalle => {
+    const porNumero = (exposure[detalle.tipo] = exposure[detalle.tipo] || {});
+    for (const { numero, monto } of detalleExposure(detalle)) {
+      porNumero[numero] = new Decimal(porNumero[numero] ?? 0).plus(monto).toNumber();
+    }
+  });
+  
   const mostCommonNumbers = Object.entries(numberDistribution)
     .sort(([, a], [, b]) => b - a)
     .slice(0, 5)
@@ -531,7 +584,8 @@ export function analyzeParseResult(result: ParseResult): AnalysisResult {
       total: allNumbers.length,
       unique: uniqueNumbers.size,
       distribution: numberDistribution,
-      mostCommon: mostCommonNumbers
+      mostCommon: mostCommonNumbers,
+      exposure
     },
     bets: {
       byType: betsByType,
@@ -550,6 +604,27 @@ export function analyzeParseResult(result: ParseResult): AnalysisResult {
   };
 }
 
+/**
+ * Monto que un detalle expone en cada número: el monto unitario por número,
+ * o por par (`"10-25"`) en parlés y candados
+ */
+export function detalleExposure(detalle: DetalleApuesta): Array<{ numero: string; monto: number }> {
+  if (detalle.tipo !== 'parle' && detalle.tipo !== 'candado') {
+    return detalle.numeros.map(numero => ({ numero, monto: detalle.montoUnitario }));
+  }
+  
+  const pares: [string, string][] = detalle.pares ?? [];
+  if (!detalle.pares) {
+    for (let i = 0; i < detalle.numeros.length; i++) {
+      for (let j = i + 1; j < detalle.numeros.length; j++) {
+        pares.push([detalle.numeros[i], detalle.numeros[j]]);
+      }
+    }
+  }
+  
+  return pares.map(par => ({ numero: [...par].sort().join('-'), monto: detalle.montoUnitario }));
+}
+
 /**
  * Detectar patrones específicos en el resultado
  */
@@ -0,0 +1,75 @@
+import { ParseOptions } from '../types';
+import { TimeoutError } from './errors';
+
+/**
+ * Límite de tiempo y cancelación de un parseo.
+ *
+ * El parseo es síncrono, así que no puede interrumpirse desde fuera:
+ * el parser consulta `check()` entre bloques, líneas y expansiones.
+ */
+export class Deadline {
+  /** Deadline que nunca vence */
+  static readonly NONE = new Deadline(null, 0);
+
+  private constructor(
+    /** Momento límite (epoch en ms) o null si no hay límite */
+    readonly expiresAt: number | null,
+    private readonly timeoutMs: number,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  /**
+   * Crea el deadline de un parseo.
+   * @param timeoutMs límite por defecto (0 = sin límite) cuando no se indica `deadline`
+   */
+  static start(options: ParseOptions = {}, timeoutMs = 0, now = Date.now()): Deadline {
+    if (options.deadline !== undefined) {
+      return new Deadline(options.deadline, Math.max(options.deadline - now, 0), options.signal);
+    }
+
+    return new Deadline(timeoutMs > 0 ? now + timeoutMs : null, timeoutMs, options.signal);
+  }
+
+  get aborted(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
+  get expired(): boolean {
+    return this.expiresAt !== null && Date.now() >= this.expiresAt;
+  }
+
+  /**
+   * Llama a `listener` cuando se cancela el parseo (en seguida si ya lo está).
+   * Devuelve la función que lo quita.
+   */
+  onAbort(listener: () => void): () => void {
+    const signal = this.signal;
+    if (!signal) {
+      return () => undefined;
+    }
+    if (signal.aborted) {
+      listener();
+      return () => undefined;
+    }
+
+    signal.addEventListener('abort', listener, { once: true });
+    return () => signal.removeEventListener('abort', listener);
+  }
+
+  /**
+   * Lanza TimeoutError si el parseo fue cancelado o excedió el tiempo límite
+   */
+  check(): void {
+    if (this.aborted) {
+      throw new TimeoutError('Parseo cancelado', this.timeoutMs, { aborted: true });
+    }
+
+    if (this.expired) {
+      throw new TimeoutError(
+        `Timeout excedido durante el parseo (${this.timeoutMs} ms)`,
+        this.timeoutMs,
+        { aborted: false }
+      );
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Diagnostic, DiagnosticCode, DiagnosticSeverity, ValidationResult } from '../types';
+import { DIAGNOSTIC_CODES } from '../constants/diagnostics';
+
+/** Campos opcionales de un diagnóstico */
+export type DiagnosticExtras = Partial<Omit<Diagnostic, 'code' | 'severity' | 'message'>>;
+
+/**
+ * Crea un diagnóstico
+ */
+export function createDiagnostic(
+  code: DiagnosticCode,
+  severity: DiagnosticSeverity,
+  message: string,
+  extras: DiagnosticExtras = {}
+): Diagnostic {
+  const diagnostic: Diagnostic = { code, severity, message };
+
+  // Solo incluir los campos definidos para mantener los diagnósticos serializables y compactos
+  for (const [key, value] of Object.entries(extras)) {
+    if (value !== undefined) {
+      Object.assign(diagnostic, { [key]: value });
+    }
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Acumula diagnósticos y genera un ValidationResult con las listas de texto equivalentes
+ */
+export class DiagnosticCollector {
+  private readonly items: Diagnostic[] = [];
+  private readonly suggestionList: string[] = [];
+
+  get diagnostics(): Diagnostic[] {
+    return this.items;
+  }
+
+  get errors(): string[] {
+    return this.messages('error');
+  }
+
+  get warnings(): string[] {
+    return this.messages('warning');
+  }
+
+  get suggestions(): string[] {
+    return this.suggestionList;
+  }
+
+  error(code: DiagnosticCode, message: string, extras?: DiagnosticExtras): void {
+    this.add(createDiagnostic(code, 'error', message, extras));
+  }
+
+  warning(code: DiagnosticCode, message: string, extras?: DiagnosticExtras): void {
+    this.add(createDiagnostic(code, 'warning', message, extras));
+  }
+
+  /**
+   * Sugerencia con código (también aparece en `suggestions`)
+   */
+  info(code: DiagnosticCode, message: string, extras?: DiagnosticExtras): void {
+    this.add(createDiagnostic(code, 'info', message, extras));
+  }
+
+  /**
+   * Agrega un diagnóstico; la descripción de su corrección pasa a `suggestions`
+   */
+  add(diagnostic: Diagnostic): void {
+    this.items.push(diagnostic);
+
+    if (diagnostic.severity === 'info') {
+      this.suggestionList.push(diagnostic.message);
+    } else if (diagnostic.fix) {
+      this.suggestionList.push(diagnostic.fix.description);
+    }
+  }
+
+  /**
+   * Incorpora otro resultado de validación.
+   * Los resultados sin diagnósticos (plugins externos) se convierten con códigos genéricos.
+   */
+  merge(result: ValidationResult, options: DiagnosticExtras & { prefix?: string } = {}): void {
+    const { prefix = '', ...extras } = options;
+
+    if (result.diagnostics) {
+      for (const { code, severity, message, ...rest } of result.diagnostics) {
+        // Los campos propios del diagnóstico tienen prioridad sobre los del contexto
+        this.items.push(
+          createDiagnostic(code, severity, `${prefix}${message}`, {
+            ...extras,
+            ...stripUndefined(rest),
+          })
+        );
+      }
+      this.suggestionList.push(...result.suggestions);
+      return;
+    }
+
+    result.errors.forEach(e => this.error(DIAGNOSTIC_CODES.PLUGIN_ERROR, `${prefix}${e}`, extras));
+    result.warnings.forEach(w =>
+      this.warning(DIAGNOSTIC_CODES.PLUGIN_WARNING, `${prefix}${w}`, extras)
+    );
+    result.suggestions.forEach(s => this.info(DIAGNOSTIC_CODES.PLUGIN_SUGGESTION, s, extras));
+  }
+
+  hasErrors(): boolean {
+    return this.items.some(d => d.severity === 'error');
+  }
+
+  toResult(info: ValidationResult['info']): ValidationResult {
+    return {
+      valid: !this.hasErrors(),
+      errors: this.errors,
+      warnings: this.warnings,
+      suggestions: this.suggestions,
+      diagnostics: this.diagnostics,
+      info,
+    };
+  }
+
+  private messages(severity: DiagnosticSeverity): string[] {
+    return this.items.filter(d => d.severity === severity).map(d => d.message);
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
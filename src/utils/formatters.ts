@@ -17,7 +17,7 @@ export function formatPercentage(value: number, decimals: number = 1): string {
 
 export function formatDuration(ms: number): string {
   if (ms < 1000) {
-    return `${ms}ms`;
+    return `${Number(ms.toFixed(1))}ms`;
   } else if (ms < 60000) {
     return `${(ms / 1000).toFixed(2)}s`;
   } else {
@@ -42,4 +42,11 @@ export function capitalizeWords(str: string): string {
     .split(' ')
     .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ');
-}
\ No newline at end of file
+}
+
+/**
+ * Replacer de `JSON.stringify` para resultados del parser (los `Set` pasan a arrays)
+ */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  return value instanceof Set ? Array.from(value) : value;
+}
@@ -0,0 +1,7 @@
+export * from './analyzers';
+export * from './cache';
+export * from './errors';
+export * from './formatters';
+export * from './source-map';
+export * from './diagnostics';
+export * from './deadline';
@@ -0,0 +1,213 @@
+import { SourceSpan } from '../types';
+
+type Replacer = (match: string, ...groups: string[]) => string;
+
+/** Forma serializable de un MappedText (p. ej. para enviarlo a un worker) */
+export interface MappedTextData {
+  text: string;
+  starts: number[];
+  ends: number[];
+  tail: number;
+}
+
+/**
+ * Texto con un mapa de offsets hacia la entrada original.
+ *
+ * Cada carácter guarda el rango del texto original que lo produjo, de modo que
+ * las transformaciones del preprocesador (normalización, expansión de patrones)
+ * no pierden la posición de lo que escribió el usuario.
+ */
+export class MappedText {
+  private constructor(
+    readonly text: string,
+    private readonly starts: number[],
+    private readonly ends: number[],
+    /** Offset original correspondiente al final del texto */
+    private readonly tail: number
+  ) {}
+
+  /**
+   * Crea un texto cuyo mapa es la identidad (texto original)
+   * @param offset posición del texto dentro de una entrada mayor
+   */
+  static identity(text: string, offset = 0): MappedText {
+    const starts = Array.from({ length: text.length }, (_, i) => i + offset);
+    const ends = starts.map(i => i + 1);
+    return new MappedText(text, starts, ends, text.length + offset);
+  }
+
+  /**
+   * Une varios textos con un separador, que se mapea al final del texto anterior
+   */
+  static join(parts: MappedText[], separator: string): MappedText {
+    const starts: number[] = [];
+    const ends: number[] = [];
+    let text = '';
+
+    parts.forEach((part, index) => {
+      if (index > 0) {
+        const anchor = parts[index - 1].tail;
+        text += separator;
+        for (let i = 0; i < separator.length; i++) {
+          starts.push(anchor);
+          ends.push(anchor);
+        }
+      }
+      text += part.text;
+      part.copyMap(starts, ends, 0, part.length);
+    });
+
+    return new MappedText(text, starts, ends, parts[parts.length - 1]?.tail ?? 0);
+  }
+
+  static fromJSON(data: MappedTextData): MappedText {
+    return new MappedText(data.text, data.starts, data.ends, data.tail);
+  }
+
+  toJSON(): MappedTextData {
+    return { text: this.text, starts: this.starts, ends: this.ends, tail: this.tail };
+  }
+
+  get length(): number {
+    return this.text.length;
+  }
+
+  /**
+   * Equivalente a `String.prototype.replace` que conserva el mapa.
+   * El texto de reemplazo se mapea al rango original del fragmento reemplazado
+   * (carácter a carácter si ambos tienen la misma longitud).
+   */
+  replace(pattern: RegExp, replacement: string | Replacer): MappedText {
+    const starts: number[] = [];
+    const ends: number[] = [];
+    let text = '';
+    let last = 0;
+
+    this.text.replace(pattern, (...args: unknown[]) => {
+      const hasNamedGroups = typeof args[args.length - 1] === 'object';
+      const offset = args[args.length - (hasNamedGroups ? 3 : 2)] as number;
+      const match = args[0] as string;
+      const groups = args.slice(1, args.length - (hasNamedGroups ? 3 : 2)) as string[];
+      const value =
+        typeof replacement === 'function'
+          ? replacement(match, ...groups)
+          : expandReplacement(replacement, match, groups);
+
+      text += this.text.slice(last, offset) + value;
+      this.copyMap(starts, ends, last, offset);
+
+      if (value.length === match.length) {
+        this.copyMap(starts, ends, offset, offset + match.length);
+      } else {
+        const span = this.originalSpan(offset, offset + match.length);
+        for (let i = 0; i < value.length; i++) {
+          starts.push(span.start);
+          ends.push(span.end);
+        }
+      }
+
+      last = offset + match.length;
+      return value;
+    });
+
+    text += this.text.slice(last);
+    this.copyMap(starts, ends, last, this.length);
+
+    return new MappedText(text, starts, ends, this.tail);
+  }
+
+  slice(start: number, end = this.text.length): MappedText {
+    return new MappedText(
+      this.text.slice(start, end),
+      this.starts.slice(start, end),
+      this.ends.slice(start, end),
+      this.originalOffset(end)
+    );
+  }
+
+  trim(): MappedText {
+    const start = this.text.length - this.text.trimStart().length;
+    const end = this.text.trimEnd().length;
+    return start >= end ? this.slice(start, start) : this.slice(start, end);
+  }
+
+  toLowerCase(): MappedText {
+    return this.replace(/[^\n]+/g, segment => segment.toLowerCase());
+  }
+
+  split(separator: string): MappedText[] {
+    const parts: MappedText[] = [];
+    let start = 0;
+    let index = this.text.indexOf(separator);
+
+    while (index !== -1) {
+      parts.push(this.slice(start, index));
+      start = index + separator.length;
+      index = this.text.indexOf(separator, start);
+    }
+    parts.push(this.slice(start));
+
+    return parts;
+  }
+
+  /**
+   * Transforma cada línea conservando el mapa
+   */
+  mapLines(fn: (line: MappedText, index: number) => MappedText): MappedText {
+    return MappedText.join(this.split('\n').map(fn), '\n');
+  }
+
+  /**
+   * Conserva solo las líneas que cumplen el predicado
+   */
+  filterLines(predicate: (line: MappedText) => boolean): MappedText {
+    return MappedText.join(this.split('\n').filter(predicate), '\n');
+  }
+
+  private copyMap(starts: number[], ends: number[], from: number, to: number): void {
+    for (let i = from; i < to; i++) {
+      starts.push(this.starts[i]);
+      ends.push(this.ends[i]);
+    }
+  }
+
+  /**
+   * Offset original de una posición del texto transformado
+   */
+  originalOffset(position: number): number {
+    return position < this.starts.length ? this.starts[position] : this.tail;
+  }
+
+  /**
+   * Rango original que produjo el rango [start, end) del texto transformado
+   */
+  originalSpan(start: number, end: number): SourceSpan {
+    if (end <= start) {
+      const offset = this.originalOffset(start);
+      return { start: offset, end: offset };
+    }
+
+    let originalStart = Infinity;
+    let originalEnd = -Infinity;
+    for (let i = Math.max(start, 0); i < Math.min(end, this.starts.length); i++) {
+      originalStart = Math.min(originalStart, this.starts[i]);
+      originalEnd = Math.max(originalEnd, this.ends[i]);
+    }
+
+    return originalStart === Infinity
+      ? { start: this.tail, end: this.tail }
+      : { start: originalStart, end: originalEnd };
+  }
+}
+
+/**
+ * Expande las referencias `$&`, `$1`… de un reemplazo de texto
+ */
+function expandReplacement(replacement: string, match: string, groups: string[]): string {
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match;
+    const index = Number(ref);
+    return index >= 1 && index <= groups.length ? (groups[index - 1] ?? '') : token;
+  });
+}
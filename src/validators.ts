@@ -1,105 +1,110 @@
-import { ParserConfig, Jugada, ValidationResult, DetalleApuesta } from './types';
-import { PATTERNS } from './constants/patterns';
+import {
+  ParserConfig,
+  Jugada,
+  ValidationResult,
+  DetalleApuesta,
+  LineaNode,
+  ApuestaLineaNode,
+  MontoNode
+} from './types';
+import { Lexer } from './lexer';
+import { AstBuilder } from './ast-builder';
+import { DiagnosticCollector } from './utils/diagnostics';
+import { Deadline } from './utils/deadline';
+import { DIAGNOSTIC_CODES } from './constants/diagnostics';
+import { DEFAULT_HOUSE_RULES } from './constants/payouts';
 
 /**
  * Validador para jugadas de lotería
  */
 export class Validator {
-  private patterns = PATTERNS;
+  private astBuilder: AstBuilder;
 
-  constructor(private config: ParserConfig) {}
+  constructor(private config: ParserConfig) {
+    this.astBuilder = new AstBuilder(config);
+  }
 
   /**
    * Valida la sintaxis del texto completo
+   * (los rangos de los diagnósticos son offsets dentro de `text`)
    */
-  validateSyntax(text: string): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+  validateSyntax(text: string, deadline = Deadline.NONE): ValidationResult {
+    const result = new DiagnosticCollector();
     
     const lines = text.split('\n').filter(l => l.trim());
     
     if (lines.length === 0) {
-      errors.push('Texto vacío');
-      return {
-        valid: false,
-        errors,
-        warnings,
-        suggestions,
-        info: this.getTextInfo(text)
-      };
+      result.error(DIAGNOSTIC_CODES.EMPTY_TEXT, 'Texto vacío');
+      return result.toResult(this.getTextInfo(text));
     }
     
     // Validar cada línea
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-      
-      const lineValidation = this.validateLine(line, lineNumber);
-      
-      if (!lineValidation.valid) {
-        errors.push(...lineValidation.errors);
-      }
-      
-      if (lineValidation.warnings.length > 0) {
-        warnings.push(...lineValidation.warnings);
-      }
-      
-      if (lineValidation.suggestions.length > 0) {
-        suggestions.push(...lineValidation.suggestions);
+    let lineNumber = 0;
+    let offset = 0;
+    let conMontos = false;
+    for (const line of text.split('\n')) {
+      if (line.trim()) {
+        deadline.check();
+        lineNumber++;
+        const leading = line.length - line.trimStart().length;
+        const node = this.astBuilder.parseLinea(
+          line.trim(),
+          lineNumber - 1,
+          offset + leading,
+          deadline
+        );
+        conMontos = conMontos || this.nodeAmounts(node).length > 0;
+        
+        result.merge(this.validateLine(node, lineNumber));
       }
+      offset += line.length + 1;
+    }
+    
+    // Sin ningún monto el texto no tiene apuestas
+    if (!conMontos) {
+      result.error(DIAGNOSTIC_CODES.NO_AMOUNTS, 'No se encontraron apuestas con monto');
     }
     
     // Validaciones globales
-    this.validateGlobal(text, errors, warnings, suggestions);
+    this.validateGlobal(text, result);
     
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-      suggestions,
-      info: this.getTextInfo(text)
-    };
+    return result.toResult(this.getTextInfo(text));
   }
 
   /**
    * Valida una jugada procesada
    */
   validateJugada(jugada: Jugada): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+    const result = new DiagnosticCollector();
+    const player = jugada.jugador;
     
     // Validar nombre del jugador
     if (!jugada.jugador || jugada.jugador === 'Desconocido') {
-      warnings.push('Nombre de jugador no identificado');
+      result.warning(DIAGNOSTIC_CODES.UNKNOWN_PLAYER, 'Nombre de jugador no identificado', { player });
     }
     
     // Validar montos
     if (jugada.totalCalculado < 0 && !this.config.allowNegative) {
-      errors.push('Total calculado negativo');
+      result.error(DIAGNOSTIC_CODES.NEGATIVE_TOTAL, 'Total calculado negativo', { player });
     }
     
     if (jugada.totalCalculado > this.config.maxMonto) {
-      warnings.push(`Total calculado (${jugada.totalCalculado}) excede el máximo permitido (${this.config.maxMonto})`);
+      result.warning(
+        DIAGNOSTIC_CODES.TOTAL_EXCEEDS_MAX,
+        `Total calculado (${jugada.totalCalculado}) excede el máximo permitido (${this.config.maxMonto})`,
+        { player }
+      );
     }
     
     // Validar detalles
-    for (const detalle of jugada.detalles) {
-      const detalleValidation = this.validateDetalle(detalle);
-      
-      if (!detalleValidation.valid) {
-        errors.push(...detalleValidation.errors.map(e => 
-          `Detalle línea ${detalle.lineaNumero}: ${e}`
-        ));
-      }
-      
-      if (detalleValidation.warnings.length > 0) {
-        warnings.push(...detalleValidation.warnings.map(w => 
-          `Detalle línea ${detalle.lineaNumero}: ${w}`
-        ));
-      }
-    }
+    jugada.detalles.forEach((detalle, detalleIndex) => {
+      result.merge(this.validateDetalle(detalle), {
+        prefix: `Detalle línea ${detalle.lineaNumero}: `,
+        player,
+        detalleIndex,
+        span: detalle.span
+      });
+    });
     
     // Validar consistencia de totales
     if (jugada.totalDeclarado !== null) {
@@ -108,14 +113,10 @@ export class Validator {
         const msg = `Diferencia entre total calculado (${jugada.totalCalculado.toFixed(2)}) ` +
                    `y declarado (${jugada.totalDeclarado.toFixed(2)}): ${difference.toFixed(2)}`;
         
-        if (this.config.validateTotals) {
-          if (difference < 1) {
-            warnings.push(msg);
-          } else {
-            errors.push(msg);
-          }
+        if (this.config.validateTotals && difference >= 1) {
+          result.error(DIAGNOSTIC_CODES.TOTAL_MISMATCH, msg, { player });
         } else {
-          warnings.push(msg);
+          result.warning(DIAGNOSTIC_CODES.TOTAL_MISMATCH, msg, { player });
         }
       }
     }
@@ -124,186 +125,198 @@ export class Validator {
     const allNumbers = jugada.detalles.flatMap(d => d.numeros);
     const duplicates = this.findDuplicates(allNumbers);
     if (duplicates.length > 0) {
-      warnings.push(`Números duplicados encontrados: ${duplicates.join(', ')}`);
+      result.warning(
+        DIAGNOSTIC_CODES.DUPLICATE_NUMBERS,
+        `Números duplicados encontrados: ${duplicates.join(', ')}`,
+        { player }
+      );
     }
     
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-      suggestions,
-      info: this.getJugadaInfo(jugada)
-    };
+    return result.toResult(this.getJugadaInfo(jugada));
   }
 
   /**
    * Valida una línea individual
    */
-  private validateLine(line: string, lineNumber: number): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
-    
-    // Línea vacía
-    if (!line.trim()) {
-      return { valid: true, errors, warnings, suggestions, info: this.getLineInfo(line) };
-    }
+  private validateLine(node: LineaNode, lineNumber: number): ValidationResult {
+    const result = new DiagnosticCollector();
+    const line = node.text;
+    const span = node.span;
     
     // Verificar si es línea de total
-    if (this.isTotalLine(line)) {
-      if (!this.validateTotalLine(line)) {
-        errors.push(`Línea ${lineNumber}: Formato de total inválido`);
-        suggestions.push('Use: "Total: 100" o "Total 100"');
+    if (node.kind === 'total') {
+      if (!node.monto) {
+        result.error(DIAGNOSTIC_CODES.INVALID_TOTAL, `Línea ${lineNumber}: Formato de total inválido`, {
+          span,
+          fix: { description: 'Use: "Total: 100" o "Total 100"' }
+        });
       }
-      return { valid: errors.length === 0, errors, warnings, suggestions, info: this.getLineInfo(line) };
+      return result.toResult(this.getLineInfo(line));
     }
     
     // Verificar si es nombre de jugador
-    if (this.isNombreJugador(line)) {
+    if (node.kind === 'nombre') {
       // Validaciones para nombres
       if (line.length > 35) {
-        warnings.push(`Línea ${lineNumber}: Nombre muy largo (${line.length} caracteres)`);
+        result.warning(
+          DIAGNOSTIC_CODES.NAME_TOO_LONG,
+          `Línea ${lineNumber}: Nombre muy largo (${line.length} caracteres)`,
+          { span }
+        );
       }
       
       if (line.length < 2) {
-        warnings.push(`Línea ${lineNumber}: Nombre muy corto`);
+        result.warning(DIAGNOSTIC_CODES.NAME_TOO_SHORT, `Línea ${lineNumber}: Nombre muy corto`, { span });
       }
       
-      return { valid: true, errors, warnings, suggestions, info: this.getLineInfo(line) };
+      return result.toResult(this.getLineInfo(line));
     }
     
     // Validar línea de apuesta
-    return this.validateBetLine(line, lineNumber);
+    return this.validateBetLine(node, lineNumber);
   }
 
   /**
    * Valida una línea de apuesta
    */
-  private validateBetLine(line: string, lineNumber: number): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+  private validateBetLine(node: LineaNode, lineNumber: number): ValidationResult {
+    const result = new DiagnosticCollector();
+    const line = node.text;
+    const span = node.span;
     
     // Verificar estructura básica
-    if (!this.hasNumbers(line)) {
-      errors.push(`Línea ${lineNumber}: No se encontraron números`);
+    if (!this.nodeHasNumbers(node)) {
+      result.error(DIAGNOSTIC_CODES.NO_NUMBERS, `Línea ${lineNumber}: No se encontraron números`, { span });
     }
     
     // Verificar montos
-    if (!this.hasAmounts(line)) {
-      warnings.push(`Línea ${lineNumber}: No se encontraron montos`);
-      suggestions.push('Agregue "con X" para especificar el monto');
+    const amounts = node.kind === 'apuesta' ? this.nodeAmountNodes(node) : [];
+    if (amounts.length === 0) {
+      result.warning(DIAGNOSTIC_CODES.NO_AMOUNT, `Línea ${lineNumber}: No se encontraron montos`, {
+        span,
+        fix: { description: 'Agregue "con X" para especificar el monto' }
+      });
     } else {
-      const amounts = this.extractAmounts(line);
-      
       // Validar montos individuales
-      for (const amount of amounts) {
+      for (const { value: amount, span: amountSpan } of amounts) {
         if (amount < 0 && !this.config.allowNegative) {
-          errors.push(`Línea ${lineNumber}: Monto negativo no permitido: ${amount}`);
+          result.error(
+            DIAGNOSTIC_CODES.NEGATIVE_AMOUNT,
+            `Línea ${lineNumber}: Monto negativo no permitido: ${amount}`,
+            { span: amountSpan }
+          );
         }
         
         if (amount > this.config.maxMonto) {
-          warnings.push(`Línea ${lineNumber}: Monto excesivo: ${amount}`);
+          result.warning(
+            DIAGNOSTIC_CODES.EXCESSIVE_AMOUNT,
+            `Línea ${lineNumber}: Monto excesivo: ${amount}`,
+            { span: amountSpan }
+          );
         }
         
         if (amount === 0) {
-          warnings.push(`Línea ${lineNumber}: Monto cero`);
+          result.warning(DIAGNOSTIC_CODES.ZERO_AMOUNT, `Línea ${lineNumber}: Monto cero`, {
+            span: amountSpan
+          });
         }
       }
     }
     
     // Verificar formato de números
-    const numbers = this.extractNumbers(line);
-    for (const num of numbers) {
+    const numbers = node.kind === 'apuesta' ? node.numeros : [];
+    for (const { value, span: numberSpan } of numbers) {
+      const num = value.padStart(2, '0');
       if (!this.validateNumber(num)) {
-        errors.push(`Línea ${lineNumber}: Número inválido: ${num}`);
+        result.error(DIAGNOSTIC_CODES.INVALID_NUMBER, `Línea ${lineNumber}: Número inválido: ${num}`, {
+          span: numberSpan
+        });
       }
     }
     
     // Verificar duplicados en la misma línea
-    const duplicates = this.findDuplicates(numbers);
+    const duplicates = this.findDuplicates(this.nodeNumbers(node));
     if (duplicates.length > 0) {
-      warnings.push(`Línea ${lineNumber}: Números duplicados en la misma línea: ${duplicates.join(', ')}`);
+      result.warning(
+        DIAGNOSTIC_CODES.DUPLICATE_NUMBERS,
+        `Línea ${lineNumber}: Números duplicados en la misma línea: ${duplicates.join(', ')}`,
+        { span }
+      );
     }
     
     // Validar patrones especiales
-    if (this.hasInvalidPatterns(line)) {
-      warnings.push(`Línea ${lineNumber}: Posible patrón no reconocido`);
+    if (node.kind === 'desconocida' || (node.kind === 'apuesta' && node.desconocidos.length > 0)) {
+      const [first] = node.kind === 'apuesta' ? node.desconocidos : [];
+      result.warning(
+        DIAGNOSTIC_CODES.UNRECOGNIZED_PATTERN,
+        `Línea ${lineNumber}: Posible patrón no reconocido`,
+        { span: first ? { start: first.start, end: first.end } : span }
+      );
     }
     
     // Validar estructura de parle/candado
-    if (this.hasParleOrCandado(line)) {
-      const validation = this.validateParleCandado(line, lineNumber);
-      if (!validation.valid) {
-        errors.push(...validation.errors);
-      }
-      warnings.push(...validation.warnings);
+    if (node.kind === 'apuesta' && (node.parle || node.candado)) {
+      result.merge(this.validateParleCandado(node, lineNumber));
     }
     
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-      suggestions,
-      info: this.getLineInfo(line)
-    };
+    return result.toResult(this.getLineInfo(line));
   }
 
   /**
    * Valida un detalle de apuesta
    */
   private validateDetalle(detalle: DetalleApuesta): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+    const result = new DiagnosticCollector();
     
     // Validar tipo
     if (!detalle.tipo || !['fijo', 'corrido', 'parle', 'centena', 'candado', 'especial'].includes(detalle.tipo)) {
-      errors.push(`Tipo de apuesta inválido: ${detalle.tipo}`);
+      result.error(DIAGNOSTIC_CODES.INVALID_BET_TYPE, `Tipo de apuesta inválido: ${detalle.tipo}`);
     }
     
     // Validar números
     if (!detalle.numeros || detalle.numeros.length === 0) {
-      errors.push('Sin números en la apuesta');
+      result.error(DIAGNOSTIC_CODES.BET_WITHOUT_NUMBERS, 'Sin números en la apuesta');
     } else {
       for (const num of detalle.numeros) {
         if (!this.validateNumber(num)) {
-          errors.push(`Número inválido: ${num}`);
+          result.error(DIAGNOSTIC_CODES.INVALID_NUMBER, `Número inválido: ${num}`);
         }
       }
     }
     
     // Validar monto
     if (detalle.monto === undefined || isNaN(detalle.monto)) {
-      errors.push('Monto inválido');
+      result.error(DIAGNOSTIC_CODES.INVALID_AMOUNT, 'Monto inválido');
     } else {
       if (detalle.monto < 0 && !this.config.allowNegative) {
-        errors.push(`Monto negativo: ${detalle.monto}`);
+        result.error(DIAGNOSTIC_CODES.NEGATIVE_AMOUNT, `Monto negativo: ${detalle.monto}`);
       }
       
       if (detalle.monto > this.config.maxMonto) {
-        warnings.push(`Monto excesivo: ${detalle.monto}`);
+        result.warning(DIAGNOSTIC_CODES.EXCESSIVE_AMOUNT, `Monto excesivo: ${detalle.monto}`);
       }
     }
     
     // Validar monto unitario
     if (detalle.montoUnitario === undefined || isNaN(detalle.montoUnitario)) {
-      errors.push('Monto unitario inválido');
+      result.error(DIAGNOSTIC_CODES.INVALID_UNIT_AMOUNT, 'Monto unitario inválido');
+    } else {
+      this.validateLimites(detalle, result);
     }
     
     // Validaciones específicas por tipo
     switch (detalle.tipo) {
       case 'parle':
         if (detalle.combinaciones === undefined) {
-          errors.push('Parle sin número de combinaciones');
+          result.error(DIAGNOSTIC_CODES.INVALID_COMBINATIONS, 'Parle sin número de combinaciones');
         } else if (detalle.combinaciones < 1) {
-          warnings.push('Parle con 0 combinaciones');
+          result.warning(DIAGNOSTIC_CODES.INVALID_COMBINATIONS, 'Parle con 0 combinaciones');
         }
         break;
         
       case 'candado':
         if (detalle.combinaciones === undefined) {
-          errors.push('Candado sin número de combinaciones');
+          result.error(DIAGNOSTIC_CODES.INVALID_COMBINATIONS, 'Candado sin número de combinaciones');
         }
         break;
         
@@ -311,75 +324,115 @@ export class Validator {
         // Centenas deben tener números de 3 dígitos
         const invalidCentenas = detalle.numeros.filter(n => n.length !== 3);
         if (invalidCentenas.length > 0) {
-          errors.push(`Centenas inválidas: ${invalidCentenas.join(', ')}`);
+          result.error(
+            DIAGNOSTIC_CODES.INVALID_CENTENA,
+            `Centenas inválidas: ${invalidCentenas.join(', ')}`
+          );
         }
         break;
     }
     
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-      suggestions,
-      info: this.getDetalleInfo(detalle)
-    };
+    return result.toResult(this.getDetalleInfo(detalle));
+  }
+
+  /**
+   * Valida el monto unitario contra los límites de la casa para el tipo de apuesta
+   */
+  private validateLimites(detalle: DetalleApuesta, result: DiagnosticCollector): void {
+    const reglas = this.config.reglas ?? DEFAULT_HOUSE_RULES;
+    const limite = reglas.limites[detalle.tipo];
+    if (!limite) return;
+    
+    if (limite.min !== undefined && detalle.montoUnitario < limite.min) {
+      result.warning(
+        DIAGNOSTIC_CODES.BELOW_MIN_BET,
+        `Monto de ${detalle.tipo} (${detalle.montoUnitario}) menor al mínimo de ${reglas.nombre} (${limite.min})`
+      );
+    }
+    
+    if (limite.max !== undefined && detalle.montoUnitario > limite.max) {
+      result.warning(
+        DIAGNOSTIC_CODES.ABOVE_MAX_BET,
+        `Monto de ${detalle.tipo} (${detalle.montoUnitario}) mayor al máximo de ${reglas.nombre} (${limite.max})`
+      );
+    }
   }
 
   /**
    * Valida línea de parle o candado
    */
-  private validateParleCandado(line: string, lineNumber: number): ValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
+  private validateParleCandado(node: LineaNode, lineNumber: number): ValidationResult {
+    const result = new DiagnosticCollector();
+    const span = node.span;
     
-    // Verificar que tenga números
-    const numbers = this.extractNumbers(line);
+    // Verificar que tenga números (un número de 4 cifras es un par)
+    const numbers = this.nodeNumbers(node).flatMap(n =>
+      n.length === 4 ? [n.slice(0, 2), n.slice(2)] : [n]
+    );
     if (numbers.length < 2) {
-      errors.push(`Línea ${lineNumber}: Parle/candado requiere al menos 2 números`);
+      result.error(
+        DIAGNOSTIC_CODES.PARLE_MIN_NUMBERS,
+        `Línea ${lineNumber}: Parle/candado requiere al menos 2 números`,
+        { span }
+      );
     }
     
     // Verificar montos
-    const amounts = this.extractAmounts(line);
-    if (amounts.length === 0) {
-      warnings.push(`Línea ${lineNumber}: Parle/candado sin monto especificado`);
+    if (node.kind !== 'apuesta' || (!node.parle?.monto && !node.candado?.monto)) {
+      result.warning(
+        DIAGNOSTIC_CODES.PARLE_NO_AMOUNT,
+        `Línea ${lineNumber}: Parle/candado sin monto especificado`,
+        { span }
+      );
     }
     
     // Verificar formato específico
-    if (line.includes('parle') && !line.includes('con')) {
-      suggestions.push(`Línea ${lineNumber}: Use "parle con X" en lugar de solo "parle"`);
-    }
-    
-    if (line.includes('candado') && !line.includes('con')) {
-      suggestions.push(`Línea ${lineNumber}: Use "candado con X" en lugar de solo "candado"`);
+    const hasCon = node.tokens.some(t => t.type === 'CON');
+    
+    for (const keyword of ['parle', 'candado'] as const) {
+      const token = node.tokens.find(t => t.type === keyword.toUpperCase());
+      if (token && !hasCon) {
+        result.info(
+          DIAGNOSTIC_CODES.PARLE_FORMAT,
+          `Línea ${lineNumber}: Use "${keyword} con X" en lugar de solo "${keyword}"`,
+          {
+            span: { start: token.start, end: token.end },
+            fix: {
+              description: `Agregar "con" después de "${keyword}"`,
+              replacement: `${token.value} con`
+            }
+          }
+        );
+      }
     }
     
-    return { valid: errors.length === 0, errors, warnings, suggestions, info: this.getLineInfo(line) };
+    return result.toResult(this.getLineInfo(node.text));
   }
 
   /**
    * Validaciones globales del texto
    */
-  private validateGlobal(
-    text: string,
-    errors: string[],
-    warnings: string[],
-    suggestions: string[]
-  ): void {
+  private validateGlobal(text: string, result: DiagnosticCollector): void {
     const lines = text.split('\n').filter(l => l.trim());
     
     // Contar jugadores
     const jugadores = lines.filter(l => this.isNombreJugador(l));
     if (jugadores.length === 0) {
-      warnings.push('No se detectaron nombres de jugador');
+      result.warning(DIAGNOSTIC_CODES.NO_PLAYERS, 'No se detectaron nombres de jugador');
     } else if (jugadores.length > this.config.maxJugadores) {
-      errors.push(`Demasiados jugadores: ${jugadores.length} (máximo: ${this.config.maxJugadores})`);
+      result.error(
+        DIAGNOSTIC_CODES.TOO_MANY_PLAYERS,
+        `Demasiados jugadores: ${jugadores.length} (máximo: ${this.config.maxJugadores})`
+      );
     }
     
     // Verificar totales
     const totalLines = lines.filter(l => this.isTotalLine(l));
     if (totalLines.length > 1) {
-      warnings.push(`Múltiples líneas de total encontradas: ${totalLines.length}`);
+      result.warning(
+        DIAGNOSTIC_CODES.MULTIPLE_TOTALS,
+        `Múltiples líneas de total encontradas: ${totalLines.length}`
+      );
     }
     
     // Verificar líneas sin procesar
@@ -391,7 +444,10 @@ export class Validator {
     
     if (processedLines.length < lines.length) {
       const unprocessed = lines.length - processedLines.length;
-      warnings.push(`${unprocessed} líneas no fueron procesadas (posiblemente vacías o inválidas)`);
+      result.warning(
+        DIAGNOSTIC_CODES.UNPROCESSED_LINES,
+        `${unprocessed} líneas no fueron procesadas (posiblemente vacías o inválidas)`
+      );
     }
   }
 
@@ -399,53 +455,55 @@ export class Validator {
    * Herramientas de validación
    */
   public isNombreJugador(line: string): boolean {
-    const trimmed = line.trim();
-    
-    if (!trimmed || trimmed.length < 2) return false;
-    if (/^\d/.test(trimmed)) return false;
-    if (/\b(con|parle|candado|total|fijo|corrido|al|pr|v|d|t)\b/i.test(trimmed)) return false;
-    
-    // Debe contener principalmente letras
-    const letterCount = (trimmed.match(/[A-Za-zÁ-ÿ]/g) || []).length;
-    const totalCount = trimmed.length;
-    
-    return letterCount / totalCount > 0.6;
+    return Lexer.isNombreJugador(line);
   }
 
   public isTotalLine(line: string): boolean {
-    return /^\s*total\b/i.test(line.trim());
-  }
-
-  private validateTotalLine(line: string): boolean {
-    return /\btotal\b[:\s]*\d+(?:[.,]\d+)?/i.test(line);
+    return this.astBuilder.parseLinea(line.trim()).kind === 'total';
   }
 
   private hasNumbers(line: string): boolean {
-    return /\d/.test(line);
+    return this.nodeHasNumbers(this.astBuilder.parseLinea(line.trim()));
   }
 
   private hasAmounts(line: string): boolean {
-    return /(?:con|de|a)\s*\d+(?:[.,]\d+)?/i.test(line);
+    return this.nodeAmounts(this.astBuilder.parseLinea(line.trim())).length > 0;
   }
 
-  private extractNumbers(line: string): string[] {
-    const matches = line.match(/\d{1,4}/g) || [];
-    return matches.map(m => m.padStart(2, '0'));
+  private nodeHasNumbers(node: LineaNode): boolean {
+    return node.tokens.some(t => t.type === 'NUMBER' || t.type === 'AMOUNT');
   }
 
-  private extractAmounts(line: string): number[] {
-    const amounts: number[] = [];
-    const matches = line.match(/\d+(?:[.,]\d+)?/g) || [];
-    
-    for (const match of matches) {
-      const normalized = match.replace(',', '.');
-      const amount = parseFloat(normalized);
-      if (!isNaN(amount)) {
-        amounts.push(amount);
-      }
-    }
+  /**
+   * Montos declarados en la línea: "con A y B y C", parle y candado
+   */
+  private nodeAmounts(node: LineaNode): number[] {
+    return node.kind === 'apuesta' ? this.nodeAmountNodes(node).map(m => m.value) : [];
+  }
+
+  private nodeAmountNodes(node: ApuestaLineaNode): MontoNode[] {
+    return [
+      ...node.montos,
+      ...(node.parle?.monto ? [node.parle.monto] : []),
+      ...(node.candado?.monto ? [node.candado.monto] : [])
+    ];
+  }
+
+  /**
+   * Números jugados en la línea (sin montos ni patrones expandidos)
+   */
+  private nodeNumbers(node: LineaNode): string[] {
+    if (node.kind !== 'apuesta') return [];
     
-    return amounts;
+    return [
+      ...node.numeros.map(n => n.value.padStart(2, '0')),
+      ...node.pares.flatMap(p => p.numeros)
+    ];
+  }
+
+  private extractNumbers(line: string): string[] {
+    const matches = line.match(/\d{1,4}/g) || [];
+    return matches.map(m => m.padStart(2, '0'));
   }
 
   private validateNumber(num: string): boolean {
@@ -465,34 +523,6 @@ export class Validator {
     return false;
   }
 
-  private hasInvalidPatterns(line: string): boolean {
-    // Buscar patrones que no coincidan con ninguno conocido
-    const knownPatterns = [
-      this.patterns.VOLTEO,
-      this.patterns.RANGO,
-      this.patterns.DECENA,
-      this.patterns.TERMINAL,
-      this.patterns.PARES_RELATIVOS,
-      this.patterns.CENTENAS_TODAS,
-      /\d+\s*[*x]\s*\d+/, // Parlés
-      /\bcandado\b/i,
-      /\bparle\b/i,
-      /\bcon\b/i,
-      /\by\b/i
-    ];
-    
-    // Si la línea tiene contenido pero no coincide con patrones conocidos
-    if (line.trim() && !knownPatterns.some(p => p.test(line))) {
-      return true;
-    }
-    
-    return false;
-  }
-
-  private hasParleOrCandado(line: string): boolean {
-    return /\b(parle|candado)\b/i.test(line);
-  }
-
   private findDuplicates<T>(array: T[]): T[] {
     const seen = new Set<T>();
     const duplicates = new Set<T>();
@@ -0,0 +1,256 @@
+/**
+ * Generador de jugadas válidas al azar (con semilla) y de su total esperado,
+ * para las pruebas de propiedades del parser
+ */
+
+export type Random = () => number;
+
+/** PRNG mulberry32: la misma semilla produce los mismos casos */
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface GeneratedLinea {
+  kind: LineaKind;
+  text: string;
+  total: number;
+}
+
+export interface GeneratedJugada {
+  jugador: string;
+  lineas: GeneratedLinea[];
+  total: number;
+  text: string;
+}
+
+export interface GeneratedCase {
+  seed: number;
+  jugadas: GeneratedJugada[];
+  total: number;
+  text: string;
+}
+
+export type LineaKind =
+  | 'fijo'
+  | 'fijo-corrido'
+  | 'parle'
+  | 'parle-combinado'
+  | 'candado'
+  | 'centena'
+  | 'volteo'
+  | 'rango'
+  | 'decena'
+  | 'terminal'
+  | 'pares-relativos';
+
+export const LINEA_KINDS: LineaKind[] = [
+  'fijo',
+  'fijo-corrido',
+  'parle',
+  'parle-combinado',
+  'candado',
+  'centena',
+  'volteo',
+  'rango',
+  'decena',
+  'terminal',
+  'pares-relativos',
+];
+
+const NOMBRES = ['Juan', 'Maria', 'Zuzel', 'Pedro', 'Ana', 'Luis', 'Carmen', 'José', 'Yanet'];
+
+const int = (random: Random, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+const pick = <T>(random: Random, items: T[]): T => items[int(random, 0, items.length - 1)];
+
+/** Número de dos cifras, a veces escrito sin el cero ("7" en vez de "07") */
+const numero = (random: Random) => {
+  const n = int(random, 0, 99);
+  return n < 10 && random() < 0.5 ? String(n) : String(n).padStart(2, '0');
+};
+const numeros = (random: Random, min: number, max: number) =>
+  Array.from({ length: int(random, min, max) }, () => numero(random));
+
+/** Monto entero o con medio peso */
+const monto = (random: Random) => int(random, 1, 50) + (random() < 0.2 ? 0.5 : 0);
+
+const combinaciones = (n: number) => (n * (n - 1)) / 2;
+
+/**
+ * Una línea de apuestas del tipo indicado y su total
+ */
+export function generateLinea(random: Random, kind: LineaKind): GeneratedLinea {
+  switch (kind) {
+    case 'fijo': {
+      const nums = numeros(random, 1, 6);
+      const fijo = monto(random);
+      return { kind, text: `${nums.join(' ')} con ${fijo}`, total: nums.length * fijo };
+    }
+    case 'fijo-corrido': {
+      const nums = numeros(random, 1, 6);
+      const [fijo, corrido] = [monto(random), monto(random)];
+      return {
+        kind,
+        text: `${nums.join(' ')} con ${fijo} y ${corrido}`,
+        total: nums.length * (fijo + corrido),
+      };
+    }
+    case 'parle': {
+      const pares = Array.from({ length: int(random, 1, 4) }, () => [
+        numero(random),
+        numero(random),
+      ]);
+      const parle = monto(random);
+      return {
+        kind,
+        text: `${pares.map(p => p.join('*')).join(' ')} parle con ${parle}`,
+        total: pares.length * parle,
+      };
+    }
+    case 'parle-combinado': {
+      const nums = numeros(random, 2, 5);
+      const parle = monto(random);
+      return {
+        kind,
+        text: `${nums.join(' ')} parle con ${parle}`,
+        total: combinaciones(nums.length) * parle,
+      };
+    }
+    case 'candado': {
+      const nums = numeros(random, 2, 5);
+      const candado = int(random, 2, 100);
+      return { kind, text: `${nums.join(' ')} candado con ${candado}`, total: candado };
+    }
+    case 'centena': {
+      const nums = Array.from({ length: int(random, 1, 4) }, () => String(int(random, 100, 999)));
+      const montos = [monto(random), monto(random), monto(random)];
+      return {
+        kind,
+        text: `${nums.join(' ')} con ${montos.join(' y ')}`,
+        total: nums.length * (montos[0] + montos[1] + montos[2]),
+      };
+    }
+    case 'volteo': {
+      const nums = numeros(random, 1, 3);
+      const fijo = monto(random);
+      return {
+        kind,
+        text: `${nums.map(n => `${n}v`).join(' ')} con ${fijo}`,
+        total: nums.length * 2 * fijo,
+      };
+    }
+    case 'rango': {
+      const inicio = int(random, 0, 90);
+      const fin = inicio + int(random, 1, 9);
+      const fijo = monto(random);
+      return {
+        kind,
+        text: `${String(inicio).padStart(2, '0')} al ${String(fin).padStart(2, '0')} con ${fijo}`,
+        total: (fin - inicio + 1) * fijo,
+      };
+    }
+    case 'decena':
+    case 'terminal': {
+      const fijo = monto(random);
+      return {
+        kind,
+        text: `${kind === 'decena' ? 'd' : 't'}${int(random, 0, 9)} con ${fijo}`,
+        total: 10 * fijo,
+      };
+    }
+    case 'pares-relativos': {
+      const cantidad = int(random, 1, 20);
+      const parle = monto(random);
+      return {
+        kind,
+        text: `${String(int(random, 10, 99))} pr ${cantidad} con ${parle}`,
+        total: cantidad * parle,
+      };
+    }
+  }
+}
+
+/**
+ * Jugada de un jugador, opcionalmente con su total declarado
+ */
+export function generateJugada(random: Random, jugador = pick(random, NOMBRES)): GeneratedJugada {
+  const lineas = Array.from({ length: int(random, 1, 6) }, () =>
+    generateLinea(random, pick(random, LINEA_KINDS))
+  );
+  const total = lineas.reduce((sum, l) => sum + l.total, 0);
+  const text = [jugador, ...lineas.map(l => l.text)];
+  if (random() < 0.5) text.push(`Total: ${total}`);
+
+  return { jugador, lineas, total, text: text.join('\n') };
+}
+
+/**
+ * Texto con varios jugadores (nombres distintos) y su total esperado
+ */
+export function generateCase(seed: number): GeneratedCase {
+  const random = seededRandom(seed);
+  const nombres = [...NOMBRES].sort(() => random() - 0.5).slice(0, int(random, 1, 4));
+  const jugadas = nombres.map(nombre => generateJugada(random, nombre));
+
+  return {
+    seed,
+    jugadas,
+    total: jugadas.reduce((sum, j) => sum + j.total, 0),
+    text: jugadas.map(j => j.text).join('\n\n'),
+  };
+}
+
+const RUIDO = [
+  ' ',
+  '  ',
+  '\n',
+  '\t',
+  '*',
+  'x',
+  '×',
+  '-',
+  ',',
+  '.',
+  ':',
+  '$',
+  'con',
+  ' y ',
+  'parle',
+  'p',
+  'candado',
+  'v',
+  'd',
+  't',
+  'al',
+  'pr',
+  'total',
+  'por todas las centenas',
+  '0',
+  '5',
+  '12',
+  '123',
+  '1001',
+  'ñ',
+  'é',
+  '🎲',
+  '‎',
+  ' ',
+];
+
+/**
+ * Texto aleatorio formado por piezas del lenguaje de jugadas y ruido
+ */
+export function generateNoise(random: Random, length = 200): string {
+  let text = '';
+  while (text.length < length) {
+    text += random() < 0.1 ? String.fromCharCode(int(random, 32, 0x2fff)) : pick(random, RUIDO);
+  }
+  return text;
+}
@@ -0,0 +1,15 @@
+import * as path from 'path';
+import { runCorpus } from '../../src/corpus';
+
+/**
+ * Listas reales (anonimizadas) que rompieron el parser alguna vez.
+ * Para actualizar los resultados esperados: `loteria corpus tests/corpus --accept`
+ */
+describe('Golden corpus', () => {
+  test('every case should match its expected.json', async () => {
+    const report = await runCorpus(path.join(__dirname, '..', 'corpus'));
+
+    expect(report.cases.length).toBeGreaterThan(0);
+    expect(report.cases.filter(c => c.status !== 'pass')).toEqual([]);
+  });
+});
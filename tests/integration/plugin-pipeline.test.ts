@@ -0,0 +1,243 @@
+import { BasePlugin, DEFAULT_HOUSE_RULES, DIAGNOSTIC_CODES, createParser } from '../../src';
+import {
+  AutoCorrectPlugin,
+  BasicBetPlugin,
+  CandadoPlugin,
+  CentenaPlugin,
+  ParlePlugin,
+} from '../../src/plugins/default-plugins';
+import { Jugada, PluginContext } from '../../src/types';
+
+describe('Plugin Pipeline', () => {
+  const sinCache = { timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } };
+
+  test('should hand each line to the plugin that accepts it', () => {
+    const parser = createParser(sinCache);
+    [new AutoCorrectPlugin(), new BasicBetPlugin(), new ParlePlugin(), new CandadoPlugin()].forEach(
+      plugin => parser.registerPlugin(plugin)
+    );
+
+    const text = 'Juan\n05 10 candado con 10\n25*33 parle con 5\n40 50 con 2';
+    const result = parser.parse(text);
+    const jugada = result.jugadas[0];
+
+    expect(jugada.detalles.map(d => [d.tipo, d.lineaNumero])).toEqual([
+      ['candado', 2],
+      ['parle', 3],
+      ['fijo', 4],
+    ]);
+    expect(jugada.metadata.plugins).toEqual([
+      'auto-correct-plugin',
+      'candado-plugin',
+      'parle-plugin',
+      'basic-bet-plugin',
+    ]);
+    expect(jugada.totalCalculado).toBe(createParser(sinCache).parse(text).summary.totalCalculado);
+  });
+
+  test('should claim every candado and centena line of a block', () => {
+    const parser = createParser(sinCache);
+    [new BasicBetPlugin(), new CentenaPlugin(), new CandadoPlugin()].forEach(plugin =>
+      parser.registerPlugin(plugin)
+    );
+
+    const text = 'Juan\n05 10 candado con 10\n325 con 2\n20 30 candado con 3\n150 con 1';
+    const jugada = parser.parse(text).jugadas[0];
+
+    expect(jugada.detalles.map(d => [d.tipo, d.numeros.join(' '), d.lineaNumero])).toEqual([
+      ['candado', '05 10', 2],
+      ['centena', '325', 3],
+      ['candado', '20 30', 4],
+      ['centena', '150', 5],
+    ]);
+    expect(jugada.totalCalculado).toBe(createParser(sinCache).parse(text).summary.totalCalculado);
+  });
+
+  test.each([
+    ['inline parle', 'Juan\n25 33 p5', () => [new ParlePlugin()]],
+    ['explicit parle pairs', 'Juan\n25*33 45*47 parle con 5', () => [new ParlePlugin()]],
+    ['centena with a derived fijo', 'Juan\n325 con 10 y 5', () => [new CentenaPlugin()]],
+    ['candado', 'Juan\n05 10 15 con 2 candado con 30', () => [new CandadoPlugin()]],
+    ['candado without its plugin', 'Juan\n25 33 candado con 30', () => [new BasicBetPlugin()]],
+  ])('should price %s like the core parser', (_, text, plugins) => {
+    const reglas = {
+      ...DEFAULT_HOUSE_RULES,
+      nombre: 'por-combinacion',
+      candadoRepartido: false,
+      centenaCompuesta: 'corrido-fijo' as const,
+    };
+
+    for (const config of [sinCache, { ...sinCache, reglas }]) {
+      const parser = createParser(config);
+      plugins().forEach(plugin => parser.registerPlugin(plugin));
+      const jugada = parser.parse(text).jugadas[0];
+      const core = createParser(config).parse(text).jugadas[0];
+
+      expect(jugada.detalles.map(d => [d.tipo, d.monto])).toEqual(
+        core.detalles.map(d => [d.tipo, d.monto])
+      );
+      expect(jugada.totalCalculado).toBe(core.totalCalculado);
+    }
+  });
+
+  test('should carry amounts and pending parles between lines', () => {
+    const parser = createParser(sinCache);
+    [new BasicBetPlugin(), new ParlePlugin()].forEach(plugin => parser.registerPlugin(plugin));
+
+    const jugada = parser.parse('Juan\n05 10 con 3 y 1\n20 30\n25 33 parle\n47 parle con 2')
+      .jugadas[0];
+
+    expect(jugada.detalles.map(d => [d.tipo, d.numeros.join(' '), d.montoUnitario])).toEqual([
+      ['fijo', '05 10', 3],
+      ['corrido', '05 10', 1],
+      ['fijo', '20 30', 3],
+      ['corrido', '20 30', 1],
+      ['parle', '25 33 47', 2],
+    ]);
+
+    const pendiente = parser.parse('Juan\n25 33 parle\n05 con 1').jugadas[0];
+    expect(pendiente.diagnostics?.map(d => d.code)).toContain('LP1010_PARLE_NO_AMOUNT');
+  });
+
+  test('should give processLine the current line and its index', () => {
+    const lineas: Array<[string | undefined, number | undefined]> = [];
+    const parser = createParser(sinCache);
+    parser.registerPlugin({
+      name: 'spy-plugin',
+      version: '1.0.0',
+      priority: 10,
+      canProcess: () => true,
+      process: jest.fn(),
+      validate: jest.fn(),
+      processLine: (line: string, context: PluginContext) => {
+        lineas.push([context.currentLine, context.lineIndex]);
+        return null;
+      },
+    });
+
+    const jugada = parser.parse('Juan\n05 con 1\n10 con 2').jugadas[0];
+
+    expect(lineas).toEqual([
+      ['05 con 1', 1],
+      ['10 con 2', 2],
+    ]);
+    expect(jugada.totalCalculado).toBe(3);
+  });
+
+  test('should read the text rewritten by transform plugins', () => {
+    class DashPlugin extends BasePlugin {
+      name = 'dash-plugin';
+      version = '1.0.0';
+      priority = 10;
+      phase = 'transform' as const;
+
+      canProcess(): boolean {
+        return true;
+      }
+
+      transform(text: string): string {
+        return text.replace(/ a /g, ' con ');
+      }
+
+      process(text: string, context: PluginContext): Jugada {
+        return this.createJugada(context.jugador, [], null, []);
+      }
+    }
+
+    const parser = createParser(sinCache);
+    parser.registerPlugin(new DashPlugin());
+    const text = 'Juan\n05 10 a 20';
+    const jugada = parser.parse(text).jugadas[0];
+
+    expect(jugada.totalCalculado).toBe(40);
+    expect(jugada.metadata.plugins).toEqual(['dash-plugin']);
+    const span = jugada.detalles[0].span!;
+    expect(text.slice(span.start, span.end)).toBe('05 10 a 20');
+  });
+
+  test('should parse the auto-corrected text and expose each edit', () => {
+    // Sin números en letras, que ya leerían "2 y media" en el preprocesado
+    const parser = createParser({ ...sinCache, numberWords: false });
+    parser.registerPlugin(new AutoCorrectPlugin());
+    const text = 'Juan\n05 10 con 2 y media\nTotal: 5';
+    const jugada = parser.parse(text).jugadas[0];
+
+    expect(jugada.totalCalculado).toBe(5);
+    expect(jugada.isValid).toBe(true);
+    expect(jugada.ediciones).toEqual([
+      {
+        regla: 'Y_MEDIA',
+        original: '2 y media',
+        reemplazo: '2.5',
+        span: { start: 15, end: 24 },
+        plugin: 'auto-correct-plugin',
+        diccionario: 'autocorreccion',
+      },
+    ]);
+    expect(text.slice(15, 24)).toBe('2 y media');
+  });
+
+  test('should report auto-corrections against the text it received', () => {
+    const plugin = new AutoCorrectPlugin();
+    plugin.init(createParser().getInfo().config);
+
+    const { text, edits } = plugin.transform('05-10 con 3 pesos\n33 con 1y2', {} as PluginContext);
+
+    expect(text).toBe('0510 con 3\n33 con 1 y 2');
+    expect(edits.map(e => [e.regla, e.original, e.span])).toEqual([
+      ['DASHED_NUMBERS', '5-1', { start: 1, end: 4 }],
+      ['CURRENCY_WORD', 'con 3 pesos', { start: 6, end: 17 }],
+      ['Y_SPACING', '1y2', { start: 25, end: 28 }],
+    ]);
+  });
+
+  test('should auto-correct with the given dictionaries', () => {
+    const parser = createParser(sinCache);
+    parser.registerPlugin(
+      new AutoCorrectPlugin([{ nombre: 'pedro', alias: { cn: 'con' }, reglas: [] }])
+    );
+    const text = 'Juan\n05 10 cn 20';
+    const jugada = parser.parse(text).jugadas[0];
+
+    expect(jugada.totalCalculado).toBe(40);
+    expect(jugada.ediciones?.map(e => [e.regla, e.diccionario, e.plugin])).toEqual([
+      ['cn', 'pedro', 'auto-correct-plugin'],
+    ]);
+    expect(text.slice(11, 13)).toBe('cn');
+    expect(jugada.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: DIAGNOSTIC_CODES.CORRECTION_APPLIED,
+        span: { start: 11, end: 13 },
+      })
+    );
+  });
+
+  test('should run post-processors on the assembled jugada', () => {
+    class LimitPlugin extends BasePlugin {
+      name = 'limit-plugin';
+      version = '1.0.0';
+      priority = 10;
+      phase = 'postprocess' as const;
+
+      canProcess(): boolean {
+        return true;
+      }
+
+      postProcess(jugada: Jugada): Jugada {
+        return { ...jugada, warnings: [...jugada.warnings, `Total ${jugada.totalCalculado}`] };
+      }
+
+      process(text: string, context: PluginContext): Jugada {
+        return this.createJugada(context.jugador, [], null, []);
+      }
+    }
+
+    const parser = createParser(sinCache);
+    parser.registerPlugin(new LimitPlugin());
+    const jugada = parser.parse('Juan\n05 10 con 20\n33 con 5').jugadas[0];
+
+    expect(jugada.detalles).toHaveLength(2);
+    expect(jugada.warnings).toContain('Total 45');
+    expect(jugada.metadata.plugins).toEqual(['limit-plugin']);
+  });
+});
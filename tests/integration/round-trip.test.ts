@@ -0,0 +1,132 @@
+import { ParseResult, Preprocessor, createParser, serialize } from '../../src';
+import { ParserConfig } from '../../src/types';
+import {
+  LINEA_KINDS,
+  generateCase,
+  generateLinea,
+  generateNoise,
+  seededRandom,
+} from '../fixtures/jugada-generator';
+
+/**
+ * Pruebas de propiedades: jugadas generadas al azar con su total conocido.
+ * FUZZ_RUNS y FUZZ_SEED permiten ampliar la búsqueda o repetir un caso.
+ */
+const RUNS = Number(process.env.FUZZ_RUNS ?? 150);
+const SEED = Number(process.env.FUZZ_SEED ?? 20261019);
+const seeds = Array.from({ length: RUNS }, (_, i) => SEED + i);
+
+describe('Property Tests - Round trip', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+
+  const resumen = (result: ParseResult) =>
+    result.jugadas.map(j => ({
+      jugador: j.jugador,
+      totalCalculado: j.totalCalculado,
+      detalles: j.detalles.map(d => ({
+        tipo: d.tipo,
+        numeros: d.numeros,
+        monto: d.monto,
+        montoUnitario: d.montoUnitario,
+        combinaciones: d.combinaciones,
+        pares: d.pares,
+      })),
+    }));
+
+  test.each(LINEA_KINDS)('should compute the expected total of %s lines', kind => {
+    const random = seededRandom(SEED);
+
+    for (let i = 0; i < 20; i++) {
+      const linea = generateLinea(random, kind);
+      const jugada = parser.parse(`Juan\n${linea.text}`).jugadas[0];
+
+      expect({ text: linea.text, total: jugada?.totalCalculado }).toEqual({
+        text: linea.text,
+        total: linea.total,
+      });
+    }
+  });
+
+  test('should reproduce the totals of generated jugadas', () => {
+    for (const seed of seeds) {
+      const generated = generateCase(seed);
+      const result = parser.parse(generated.text);
+
+      expect({
+        seed,
+        jugadas: result.jugadas.map(j => [j.jugador, j.totalCalculado, j.warnings]),
+        total: result.summary.totalCalculado,
+      }).toEqual({
+        seed,
+        jugadas: generated.jugadas.map(j => [j.jugador, j.total, []]),
+        total: generated.total,
+      });
+      expect(result.jugadas.every(j => j.isValid)).toBe(true);
+    }
+  });
+
+  test('should survive a round trip through the canonical text', () => {
+    for (const seed of seeds) {
+      const result = parser.parse(generateCase(seed).text);
+      const canonical = serialize(result);
+      const reparsed = parser.parse(canonical);
+
+      expect({ seed, jugadas: resumen(reparsed) }).toEqual({ seed, jugadas: resumen(result) });
+      expect(serialize(reparsed)).toBe(canonical);
+    }
+  });
+});
+
+describe('Fuzz Tests - Preprocessor', () => {
+  const config: ParserConfig = {
+    strictMode: false,
+    autoExpand: true,
+    validateTotals: true,
+    maxJugadores: 100,
+    currencySymbol: '$',
+    decimalSeparator: '.',
+    allowNegative: false,
+    maxMonto: 1000000,
+    defaultMontoFijo: 1,
+    defaultMontoCorrido: 0,
+    debug: false,
+    timeout: 0,
+    cache: { enabled: false, ttl: 0, maxSize: 0 },
+  };
+  const preprocessor = new Preprocessor(config);
+
+  const elapsed = (fn: () => unknown) => {
+    const start = Date.now();
+    fn();
+    return Date.now() - start;
+  };
+
+  test('should not crash on noisy input', () => {
+    const random = seededRandom(SEED);
+    const parser = createParser(config);
+
+    for (let i = 0; i < RUNS * 2; i++) {
+      const text = generateNoise(random, 300);
+
+      expect(() => preprocessor.process(text)).not.toThrow();
+      expect(parser.parse(text)).toHaveProperty('jugadas');
+    }
+  });
+
+  test.each([
+    ['numbers', '1 '],
+    ['"con"', 'con '],
+    ['digits', '1'],
+    ['decimals', '1.'],
+    ['volteos', '1v'],
+    ['ranges', '1 al '],
+    ['pares relativos', '12 pr '],
+    ['"por todas"', 'por todas '],
+    ['spaces', ' '],
+  ])('should process long runs of %s in linear time', (_, unit) => {
+    const text = unit.repeat(Math.ceil(8000 / unit.length)) + 'x';
+
+    // Un backtracking catastrófico tarda segundos con este tamaño
+    expect(elapsed(() => preprocessor.process(text))).toBeLessThan(1000);
+  });
+});
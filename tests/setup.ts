@@ -26,6 +26,11 @@ expect.extend({
 });
 
 // Variables globales de test
+declare global {
+  // eslint-disable-next-line no-var
+  var TEST_TIMEOUT: number;
+}
+
 global.TEST_TIMEOUT = 10000;
 
 // Mock console para tests
@@ -0,0 +1,79 @@
+import { DIAGNOSTIC_CODES, MAX_COMBINACIONES, combinarLecturas, createParser } from '../../src';
+
+describe('Unit Tests - Ambiguity', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+
+  test('should rank the readings of a line without amount', () => {
+    const [jugada] = parser.parse('Juan\n05 10 15 20 30').jugadas;
+
+    expect(jugada.totalCalculado).toBe(5);
+    expect(jugada.ambiguedades).toHaveLength(1);
+    const [ambigua] = jugada.ambiguedades!;
+    expect(ambigua).toMatchObject({
+      lineaNumero: 2,
+      texto: '05 10 15 20 30',
+      resueltaPorTotal: false,
+    });
+    expect(ambigua.interpretaciones.map(i => [i.codigo, i.total, i.puntaje])).toEqual([
+      ['LITERAL', 5, 0.6],
+      ['LAST_NUMBER_AMOUNT', 120, 0.4],
+    ]);
+    expect(ambigua.interpretaciones[1].detalles).toEqual([
+      expect.objectContaining({
+        tipo: 'fijo',
+        numeros: ['05', '10', '15', '20'],
+        montoUnitario: 30,
+      }),
+    ]);
+  });
+
+  test('should pick the reading that matches the declared total', () => {
+    const [jugada] = parser.parse('Juan\n05 10 15 20 30\nTotal: 120').jugadas;
+
+    expect(jugada.isValid).toBe(true);
+    expect(jugada.totalCalculado).toBe(120);
+    expect(jugada.ambiguedades![0].resueltaPorTotal).toBe(true);
+    expect(jugada.ambiguedades![0].interpretaciones[0].codigo).toBe('LAST_NUMBER_AMOUNT');
+    expect(jugada.diagnostics).toContainEqual(
+      expect.objectContaining({ code: DIAGNOSTIC_CODES.AMBIGUOUS_LINE, severity: 'info' })
+    );
+  });
+
+  test('should read a centena as a parle when the total says so', () => {
+    const centena = parser.parse('Ana\n325 con 10 y 10\nTotal: 20').jugadas[0];
+    expect(centena.detalles.map(d => d.tipo)).toEqual(['centena', 'fijo']);
+    expect(centena.ambiguedades![0].interpretaciones.map(i => i.codigo)).toEqual([
+      'LITERAL',
+      'CENTENA_AS_PARLE',
+    ]);
+
+    const parle = parser.parse('Ana\n325 con 10 y 10\nTotal: 10').jugadas[0];
+    expect(parle.isValid).toBe(true);
+    expect(parle.detalles).toEqual([
+      expect.objectContaining({ tipo: 'parle', pares: [['03', '25']], monto: 10 }),
+    ]);
+  });
+
+  test('should keep the literal reading when no combination matches', () => {
+    const [jugada] = parser.parse('Leo\n05 10 con 2\n15 20\n33 40\nTotal: 1000').jugadas;
+
+    expect(jugada.isValid).toBe(false);
+    expect(jugada.totalCalculado).toBe(12);
+    expect(jugada.ambiguedades!.map(a => a.interpretaciones[0].codigo)).toEqual([
+      'LITERAL',
+      'LITERAL',
+    ]);
+  });
+
+  test('should try the combinations that change fewer lines first', () => {
+    expect(combinarLecturas([2, 3])).toEqual([
+      [0, 1],
+      [1, 0],
+      [0, 2],
+      [1, 1],
+      [1, 2],
+    ]);
+    expect(combinarLecturas(Array(20).fill(2))).toHaveLength(20);
+    expect(combinarLecturas(Array(20).fill(2)).length).toBeLessThanOrEqual(MAX_COMBINACIONES);
+  });
+});
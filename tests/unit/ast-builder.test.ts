@@ -0,0 +1,102 @@
+import { AstBuilder } from '../../src/ast-builder';
+import { ApuestaLineaNode, ParserConfig } from '../../src/types';
+
+describe('Unit Tests - AstBuilder', () => {
+  let builder: AstBuilder;
+
+  const apuesta = (text: string): ApuestaLineaNode => {
+    const node = builder.parseLinea(text);
+    expect(node.kind).toBe('apuesta');
+    return node as ApuestaLineaNode;
+  };
+
+  beforeEach(() => {
+    const config: ParserConfig = {
+      strictMode: false,
+      autoExpand: true,
+      validateTotals: true,
+      maxJugadores: 100,
+      currencySymbol: '$',
+      decimalSeparator: '.',
+      allowNegative: false,
+      maxMonto: 1000000,
+      defaultMontoFijo: 1,
+      defaultMontoCorrido: 0,
+      debug: false,
+      timeout: 5000,
+      cache: { enabled: true, ttl: 60000, maxSize: 1000 }
+    };
+
+    builder = new AstBuilder(config);
+  });
+
+  describe('Bloques', () => {
+    test('should build a block with player and declared total', () => {
+      const bloque = builder.parseBloque('Juan\n05 10 con 20\nTotal: 40');
+
+      expect(bloque.jugador).toBe('Juan');
+      expect(bloque.totalDeclarado).toBe(40);
+      expect(bloque.lineas.map(l => l.kind)).toEqual(['nombre', 'apuesta', 'total']);
+      expect(bloque.lineas.map(l => l.index)).toEqual([0, 1, 2]);
+    });
+
+    test('should keep line spans relative to the source text', () => {
+      const text = 'Juan\n\n  05 con 20';
+      const bloque = builder.parseBloque(text);
+      const linea = bloque.lineas[1];
+
+      expect(text.slice(linea.span.start, linea.span.end)).toBe('05 con 20');
+    });
+  });
+
+  describe('Líneas', () => {
+    test('should collect numbers and amounts', () => {
+      const node = apuesta('33 25 88 con 20 y 30');
+
+      expect(node.numeros.map(n => n.value)).toEqual(['33', '25', '88']);
+      expect(node.montos.map(m => m.value)).toEqual([20, 30]);
+    });
+
+    test('should build parle and candado modifiers', () => {
+      const inline = apuesta('33 25 p5');
+      expect(inline.parle).toMatchObject({ kind: 'parle', inline: true, monto: { value: 5 } });
+
+      const candado = apuesta('05 10 20 candado con 60');
+      expect(candado.candado).toMatchObject({ kind: 'candado', inline: false, monto: { value: 60 } });
+    });
+
+    test('should build explicit pairs', () => {
+      const node = apuesta('5*33 44x55 parle con 2');
+
+      expect(node.pares.map(p => p.numeros)).toEqual([['05', '33'], ['44', '55']]);
+      expect(node.numeros).toHaveLength(0);
+    });
+
+    test('should expand special patterns', () => {
+      const node = apuesta('10v y d0 con 1');
+
+      expect(node.patrones.map(p => [p.type, p.raw])).toEqual([['volteo', '10v'], ['decena', 'd0']]);
+      expect(node.patrones[0].numeros).toEqual(['10', '01']);
+      expect(node.patrones[1].numeros).toHaveLength(10);
+    });
+
+    test('should only build ranges between two-digit numbers', () => {
+      expect(apuesta('05 al 08 con 1').patrones[0].numeros).toEqual(['05', '06', '07', '08']);
+      expect(apuesta('12 al 123510015 con 1').patrones).toEqual([]);
+    });
+
+    test('should flag "por todas las centenas"', () => {
+      expect(apuesta('15 18 por todas las centenas con 5').todasLasCentenas).toBe(true);
+    });
+
+    test('should collect unknown tokens', () => {
+      expect(apuesta('05 10 con 20 extra').desconocidos.map(t => t.value)).toEqual(['extra']);
+    });
+
+    test('should classify lines without bets', () => {
+      expect(builder.parseLinea('Total 100').kind).toBe('total');
+      expect(builder.parseLinea('María').kind).toBe('nombre');
+      expect(builder.parseLinea('$$$').kind).toBe('desconocida');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { ChatImporter, ParserError, createParser } from '../../src';
+
+describe('Unit Tests - ChatImporter', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+  const importer = new ChatImporter();
+
+  const whatsapp = [
+    '[19/10/26 14:32:05] Zuzel: 33 25 con 20',
+    '‎[19/10/26 14:33:00] Zuzel: 45 con 10',
+    '19/10/26, 14:34 - Los mensajes y las llamadas están cifrados de extremo a extremo.',
+    '[19/10/26 14:35:10] Pedro: Maria',
+    '12 con 5',
+    'total 5',
+    '[19/10/26 14:36:00] Ana: <Multimedia omitido>',
+  ].join('\n');
+
+  test('should strip WhatsApp prefixes and merge multi-line messages', () => {
+    const messages = importer.parseWhatsApp(whatsapp);
+
+    expect(messages.map(m => [m.sender, m.text])).toEqual([
+      ['Zuzel', '33 25 con 20'],
+      ['Zuzel', '45 con 10'],
+      ['Pedro', 'Maria\n12 con 5\ntotal 5'],
+    ]);
+    expect(messages[0].timestamp).toBe(new Date(2026, 9, 19, 14, 32, 5).getTime());
+  });
+
+  test('should read the Android format with 12-hour clock', () => {
+    const android = '19/10/26, 2:32 p. m. - Zuzel: 33 con 5\n10/19/26, 9:05 a. m. - Ana: 12 con 2';
+
+    expect(importer.parseWhatsApp(android)[0]).toEqual({
+      sender: 'Zuzel',
+      timestamp: new Date(2026, 9, 19, 14, 32).getTime(),
+      source: 'whatsapp',
+      text: '33 con 5',
+    });
+    expect(new ChatImporter({ dateOrder: 'mdy' }).parseWhatsApp(android)[1].timestamp).toBe(
+      new Date(2026, 9, 19, 9, 5).getTime()
+    );
+  });
+
+  test('should use the sender as jugador when there is no name line', () => {
+    const { text } = importer.import(whatsapp);
+
+    expect(text).toBe('Zuzel\n33 25 con 20\n45 con 10\n\nMaria\n12 con 5\ntotal 5');
+    expect(new ChatImporter({ mergeConsecutive: false }).import(whatsapp).text).toContain(
+      'Zuzel\n33 25 con 20\n\nZuzel\n45 con 10'
+    );
+  });
+
+  test('should not take chatter without bets as the jugador', () => {
+    const chat = [
+      '[19/10/26 14:32:05] Luis: hola como estan',
+      '[19/10/26 14:32:40] Luis: 12 con 2',
+      '[19/10/26 14:33:00] Ana: gracias',
+    ].join('\n');
+
+    expect(importer.import(chat).text).toBe('Luis\n12 con 2');
+    expect(importer.parse(chat, parser).jugadas.map(j => [j.jugador, j.totalCalculado])).toEqual([
+      ['Luis', 2],
+    ]);
+  });
+
+  test('should keep the message in the jugada metadata', () => {
+    const result = importer.parse(whatsapp, parser);
+
+    expect(result.jugadas.map(j => [j.jugador, j.totalCalculado])).toEqual([
+      ['Zuzel', 50],
+      ['Maria', 5],
+    ]);
+    expect(result.jugadas[1].metadata.message).toEqual({
+      sender: 'Pedro',
+      timestamp: new Date(2026, 9, 19, 14, 35, 10).getTime(),
+      source: 'whatsapp',
+    });
+  });
+
+  test('should not read senders that are not names as bets', () => {
+    const chat = [
+      '19/10/26, 14:32 - +53 5 2345678: 05 10 con 20',
+      '19/10/26, 14:33 - Juan D: 33 con 40',
+      '19/10/26, 14:34 - Tito al Bate: 12 con 5',
+    ].join('\n');
+
+    expect(importer.import(chat).text).toBe('05 10 con 20\n\n33 con 40\n\n12 con 5');
+
+    const result = importer.parse(chat, parser);
+    expect(result.jugadas.map(j => [j.totalCalculado, j.metadata.message?.sender])).toEqual([
+      [40, '+53 5 2345678'],
+      [40, 'Juan D'],
+      [5, 'Tito al Bate'],
+    ]);
+    expect(result.jugadas.map(j => j.lineas)).toEqual([['05 10 con 20'], ['33 con 40'], ['12 con 5']]);
+  });
+
+  test('should import Telegram JSON exports', () => {
+    const telegram = JSON.stringify({
+      name: 'Jugadas',
+      messages: [
+        { id: 1, type: 'service', actor: 'Luis', action: 'join_group_by_link' },
+        {
+          id: 2,
+          type: 'message',
+          date: '2026-10-19T10:00:00',
+          date_unixtime: '1792404000',
+          from: 'Luis',
+          text: ['25 ', { type: 'bold', text: 'con 10' }],
+        },
+      ],
+    });
+    const result = importer.parse(telegram, parser);
+
+    expect(result.jugadas).toHaveLength(1);
+    expect(result.jugadas[0]).toMatchObject({
+      jugador: 'Luis',
+      totalCalculado: 10,
+      metadata: { message: { sender: 'Luis', timestamp: 1792404000000, source: 'telegram' } },
+    });
+    expect(() => importer.parseTelegram('{ "chats": [] }')).toThrow(ParserError);
+  });
+});
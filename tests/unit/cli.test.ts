@@ -0,0 +1,117 @@
+import { CliIO, main } from '../../src/cli/main';
+import { UsageError, parseArgs } from '../../src/cli/args';
+
+describe('Unit Tests - CLI', () => {
+  const text = 'Juan\n23 45 con 10 y 5\nTotal: 30\n\nMaria\n123 con 2 y 4';
+
+  const run = async (argv: string[], files: Record<string, string> = { 'jugadas.txt': text }) => {
+    let stdout = '';
+    let stderr = '';
+    const io: CliIO = {
+      readFile: async path => {
+        if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+        return files[path];
+      },
+      readStdin: async () => text,
+      stdout: t => (stdout += t),
+      stderr: t => (stderr += t),
+    };
+    const code = await main(argv, io);
+    return { code, stdout, stderr };
+  };
+
+  test('should map flags to ParserConfig', () => {
+    const args = parseArgs([
+      'parse',
+      'a.txt',
+      '--strict',
+      '--no-expand',
+      '--max-monto=500',
+      '--json',
+    ]);
+
+    expect(args).toMatchObject({
+      command: 'parse',
+      file: 'a.txt',
+      format: 'json',
+      config: { strictMode: true, autoExpand: false, maxMonto: 500 },
+    });
+    expect(parseArgs(['parse', '-']).file).toBeNull();
+    expect(() => parseArgs(['parse', '--max-monto', 'mucho'])).toThrow(UsageError);
+    expect(() => parseArgs(['bailar'])).toThrow(UsageError);
+  });
+
+  test('should print the ParseResult as JSON', async () => {
+    const { code, stdout } = await run(['parse', 'jugadas.txt', '--json']);
+    const result = JSON.parse(stdout);
+
+    expect(code).toBe(0);
+    expect(result.jugadas.map((j: any) => j.jugador)).toEqual(['Juan', 'Maria']);
+    expect(result.jugadas[0].metadata.betTypes).toEqual(['fijo', 'corrido']);
+  });
+
+  test('should read stdin and print a readable report', async () => {
+    const { code, stdout } = await run(['parse']);
+
+    expect(code).toBe(0);
+    expect(stdout).toContain('✓ Juan: $30.00 (declarado $30.00)');
+    expect(stdout).toContain('fijo 23, 45: 2 × $10.00 = $20.00');
+  });
+
+  test('should exit non-zero when validation fails', async () => {
+    const ok = await run(['validate', 'jugadas.txt']);
+    const bad = await run(['validate', 'vacio.txt'], { 'vacio.txt': '   ' });
+
+    expect(ok.code).toBe(0);
+    expect(bad.code).toBe(1);
+    expect(bad.stdout).toContain('LP2001_EMPTY_TEXT');
+  });
+
+  test('should print the structure and the analysis', async () => {
+    const structure = await run(['structure', 'jugadas.txt', '--json']);
+    const analysis = await run(['analyze', 'jugadas.txt']);
+
+    expect(JSON.parse(structure.stdout).map((b: any) => b.jugador)).toEqual(['Juan', 'Maria']);
+    expect(analysis.stdout).toContain('Análisis completado: 2 jugadores');
+  });
+
+  test('should settle against the given draw and house rules', async () => {
+    const reglas = JSON.stringify({ nombre: 'cli-test', pagos: { fijo: 80 } });
+    const { code, stdout } = await run(
+      [
+        'settle',
+        'jugadas.txt',
+        '--centena',
+        '123',
+        '--corridos',
+        '45,67',
+        '--reglas',
+        'reglas.json',
+        '--json',
+      ],
+      { 'jugadas.txt': text, 'reglas.json': reglas }
+    );
+    const liquidacion = JSON.parse(stdout);
+
+    expect(code).toBe(0);
+    expect(liquidacion.sorteo).toEqual({ centena: '123', fijo: '23', corridos: ['45', '67'] });
+    expect(liquidacion.jugadas[0].totalPremio).toBe(10 * 80 + 2 * 5 * 25);
+  });
+
+  test('should report usage errors with exit code 2', async () => {
+    const missing = await run(['settle', 'jugadas.txt', '--fijo', '23']);
+    const unknown = await run(['parse', '--color']);
+
+    expect(missing.code).toBe(2);
+    expect(missing.stderr).toContain('--corridos');
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain('Uso: loteria');
+  });
+
+  test('should report unreadable input with exit code 1', async () => {
+    const { code, stderr } = await run(['parse', 'otro.txt']);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain('ENOENT');
+  });
+});
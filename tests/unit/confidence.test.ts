@@ -0,0 +1,97 @@
+import { createParser, sortByConfidence } from '../../src';
+
+describe('Unit Tests - Confidence', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+
+  test('should break the result confidence into named factors', () => {
+    const result = parser.parse('Juan\n05 10 con 20\nTotal: 40\n\nMaria\n20 30 con 10\nTotal: 50');
+    const { confidence, confidenceFactors } = result.summary;
+
+    expect(confidenceFactors).toEqual(
+      expect.arrayContaining([
+        {
+          codigo: 'TOTAL_MISMATCH',
+          descripcion: '1 de 2 jugadas con total que no coincide',
+          aporte: -0.15,
+        },
+        {
+          codigo: 'TOTALS_MATCHED',
+          descripcion: '1 de 2 totales declarados coinciden',
+          aporte: 0.1,
+        },
+      ])
+    );
+    const suma = confidenceFactors!.reduce((sum, f) => sum + f.aporte, 1);
+    expect(confidence).toBeCloseTo(Math.max(0, Math.min(1, suma)));
+  });
+
+  test('should penalize lines without amount', () => {
+    const result = parser.parse('Juan\n05 10 con 20\n15 20\n25 30\n33\nTotal: 140');
+    const [jugada] = result.jugadas;
+
+    expect(result.summary.confidenceFactors).toContainEqual({
+      codigo: 'LINES_WITHOUT_AMOUNT',
+      descripcion: '3 líneas sin monto',
+      aporte: -0.15,
+    });
+    expect(jugada.confianza?.factores.map(f => f.codigo)).toEqual([
+      'TOTAL_MATCHED',
+      'LINES_WITHOUT_AMOUNT',
+    ]);
+  });
+
+  test('should explain the confidence of each line', () => {
+    const text = 'Juan\n05 10 con 20\n15 20\nhola 33 con 2\nTotal: 90';
+    const { confianza } = parser.parse(text).jugadas[0];
+
+    expect(confianza?.lineas.map(l => [l.lineaNumero, l.valor])).toEqual([
+      [2, 1],
+      [3, 0.7],
+      [4, 0.9],
+    ]);
+    expect(confianza?.lineas[2].factores[0]).toMatchObject({
+      codigo: 'UNKNOWN_WORDS',
+      aporte: -0.1,
+    });
+    const { start, end } = confianza!.lineas[1].span!;
+    expect(text.slice(start, end)).toBe('15 20');
+    expect(confianza?.factores).toContainEqual(
+      expect.objectContaining({
+        codigo: 'TOTAL_MISMATCH',
+        descripcion: 'El total no coincide (declarado 90, calculado 82)',
+      })
+    );
+  });
+
+  test('should not rate the result above its least confident jugada', () => {
+    const result = parser.parse('Juan\n05 10 con 20\nTotal: 40\n\nAna\nhola mundo');
+    const ana = result.jugadas.find(j => j.jugador === 'Ana');
+
+    expect(ana?.confianza?.valor).toBe(0);
+    expect(result.summary.confidence).toBe(0);
+    expect(result.summary.confidenceFactors).toContainEqual({
+      codigo: 'LOWEST_JUGADA',
+      descripcion: 'La jugada menos confiable tiene confianza 0',
+      aporte: -1.1,
+    });
+  });
+
+  test('should not cap a clean result', () => {
+    const result = parser.parse('Juan\n05 10 con 20\nTotal: 40');
+
+    expect(result.summary.confidence).toBe(1);
+    expect(result.summary.confidenceFactors?.map(f => f.codigo)).not.toContain('LOWEST_JUGADA');
+  });
+
+  test('should sort jugadas from the lowest confidence', () => {
+    const result = parser.parse(
+      'Juan\n05 10 con 20\nTotal: 40\n\nMaria\n20 30 con 10\nTotal: 50\n\nAna\n45 con 5'
+    );
+
+    expect(sortByConfidence(result.jugadas).map(j => [j.jugador, j.confianza?.valor])).toEqual([
+      ['Maria', 0.7],
+      ['Ana', 0.9],
+      ['Juan', 1],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compareExpectation, loadCorpus, runCorpus } from '../../src/corpus';
+import { CliIO, main } from '../../src/cli/main';
+
+describe('Unit Tests - Corpus runner', () => {
+  let dir: string;
+
+  const writeCase = async (name: string, files: Record<string, string>) => {
+    await fs.mkdir(path.join(dir, name), { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(dir, name, file), content);
+    }
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'loteria-corpus-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should report the differences with the expected result', async () => {
+    await writeCase('juan', {
+      'input.txt': 'Juan\n05 10 con 20\nTotal: 40',
+      'expected.json': JSON.stringify({
+        totalCalculado: 50,
+        jugadas: [{ jugador: 'Juan', detalles: [{ tipo: 'fijo', numeros: ['05', '10', '15'] }] }],
+      }),
+    });
+    await writeCase('maria', {
+      'input.txt': 'Maria\n20 con 5',
+      'expected.json': JSON.stringify({ totalCalculado: 5, diagnostics: [] }),
+    });
+
+    const report = await runCorpus(dir);
+
+    expect(report).toMatchObject({ passed: 1, failed: 1, accepted: 0 });
+    expect(report.cases[0]).toMatchObject({
+      name: 'juan',
+      status: 'fail',
+      differences: [
+        { path: 'totalCalculado', expected: 50, actual: 40 },
+        { path: 'jugadas[0].detalles[0].numeros.length', expected: 3, actual: 2 },
+      ],
+    });
+    expect(report.cases[1].status).toBe('pass');
+  });
+
+  test('should write the goldens in accept mode', async () => {
+    await writeCase('nuevo', { 'input.txt': 'Ana\n25 33 45 candado con 6' });
+
+    expect((await runCorpus(dir)).cases[0].status).toBe('new');
+    expect((await runCorpus(dir, { accept: true })).cases[0].status).toBe('accepted');
+
+    const [caso] = await loadCorpus(dir);
+    expect(caso.expected).toMatchObject({
+      totalCalculado: 6,
+      jugadas: [{ jugador: 'Ana', detalles: [{ tipo: 'candado', monto: 6, combinaciones: 3 }] }],
+    });
+    expect((await runCorpus(dir)).cases[0].status).toBe('pass');
+  });
+
+  test('should apply the config of each case', async () => {
+    await writeCase('monto-por-defecto', {
+      'input.txt': 'Luis\n05 10',
+      'config.json': JSON.stringify({ defaultMontoFijo: 3 }),
+      'expected.json': JSON.stringify({ totalCalculado: 6 }),
+    });
+
+    expect((await runCorpus(dir)).passed).toBe(1);
+  });
+
+  test('should compare only the expected fields', () => {
+    expect(compareExpectation({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2], c: 3 })).toEqual([]);
+    expect(compareExpectation({ a: { b: 'x' } }, { a: null })).toEqual([
+      { path: 'a', expected: { b: 'x' }, actual: null },
+    ]);
+  });
+
+  test('should run from the CLI and fail on differences', async () => {
+    await writeCase('juan', {
+      'input.txt': 'Juan\n05 10 con 20',
+      'expected.json': JSON.stringify({ totalCalculado: 30 }),
+    });
+    let stdout = '';
+    const io: CliIO = {
+      readFile: async () => '',
+      readStdin: async () => '',
+      stdout: t => (stdout += t),
+      stderr: () => undefined,
+    };
+
+    expect(await main(['corpus', dir], io)).toBe(1);
+    expect(stdout).toContain('totalCalculado: esperado 30, obtenido 40');
+    expect(await main(['corpus', dir, '--accept'], io)).toBe(0);
+    expect(await main(['corpus', dir], io)).toBe(0);
+  });
+});
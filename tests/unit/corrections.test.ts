@@ -0,0 +1,134 @@
+import {
+  DEFAULT_HOUSE_RULES,
+  DIAGNOSTIC_CODES,
+  DiccionarioCorrecciones,
+  MappedText,
+  ValidationError,
+  applyCorrections,
+  createParser,
+  loadCorrectionDictionary,
+  selectDictionaries,
+} from '../../src';
+
+describe('Unit Tests - Correction dictionaries', () => {
+  const config = { timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } };
+  const global: DiccionarioCorrecciones = {
+    nombre: 'comun',
+    alias: { cn: 'con', cand: 'candado' },
+    reglas: [],
+  };
+  const casa: DiccionarioCorrecciones = {
+    nombre: 'sur',
+    casa: 'banca-sur',
+    alias: { parl: 'parle', x100: 'por todas las centenas' },
+    reglas: [],
+  };
+  const colector: DiccionarioCorrecciones = {
+    nombre: 'pedro',
+    colector: 'pedro',
+    alias: { cn: 'con' },
+    reglas: [{ id: 'PUNTO_CON', patron: '(\\d)\\.con', reemplazo: '$1 con' }],
+  };
+
+  test('should load a JSON dictionary', () => {
+    const diccionario = loadCorrectionDictionary(
+      '{"nombre":" pedro ","colector":"pedro","alias":{"CN":"con"},"reglas":[{"id":"A","patron":"a+","reemplazo":"a"}]}'
+    );
+
+    expect(diccionario).toEqual({
+      nombre: 'pedro',
+      colector: 'pedro',
+      alias: { cn: 'con' },
+      reglas: [{ id: 'A', patron: 'a+', reemplazo: 'a' }],
+    });
+  });
+
+  test('should reject invalid dictionaries', () => {
+    expect(() => loadCorrectionDictionary('{')).toThrow(ValidationError);
+    expect(() => loadCorrectionDictionary([] as any)).toThrow(ValidationError);
+
+    try {
+      loadCorrectionDictionary({
+        alias: { cn: 5 },
+        reglas: [{ id: 'MAL', patron: '(', reemplazo: '' }, { patron: 'x' }],
+      } as any);
+    } catch (error) {
+      expect((error as ValidationError).validationErrors).toHaveLength(4);
+    }
+  });
+
+  test('should select dictionaries by scope, most specific first', () => {
+    const otro = { ...colector, nombre: 'ana', colector: 'ana' };
+    const todos = [global, casa, colector, otro];
+
+    expect(selectDictionaries(todos, {}).map(d => d.nombre)).toEqual(['comun']);
+    expect(
+      selectDictionaries(todos, { casa: 'banca-sur', colector: 'pedro' }).map(d => d.nombre)
+    ).toEqual(['pedro', 'sur', 'comun']);
+  });
+
+  test('should rewrite whole words only and record where each edit came from', () => {
+    const { source, ediciones } = applyCorrections(
+      MappedText.identity('05 cn 2\ncandado x1000 x100'),
+      [colector, casa]
+    );
+
+    expect(source.text).toBe('05 con 2\ncandado x1000 por todas las centenas');
+    expect(ediciones).toEqual([
+      {
+        regla: 'cn',
+        original: 'cn',
+        reemplazo: 'con',
+        span: { start: 3, end: 5 },
+        diccionario: 'pedro',
+      },
+      {
+        regla: 'x100',
+        original: 'x100',
+        reemplazo: 'por todas las centenas',
+        span: { start: 22, end: 26 },
+        diccionario: 'sur',
+      },
+    ]);
+  });
+
+  test('should apply the scoped dictionaries before character normalization', () => {
+    const parser = createParser({
+      ...config,
+      reglas: { ...DEFAULT_HOUSE_RULES, nombre: 'banca-sur' },
+      colector: 'pedro',
+      diccionarios: [global, casa, colector],
+    });
+    const text = 'Juan\n25*33 parl cn 5\n10 20 30 cand 2\nTotal: 7';
+    const result = parser.parse(text);
+
+    expect(result.jugadas[0].detalles.map(d => d.tipo)).toEqual(['parle', 'candado']);
+    expect(result.summary.isValid).toBe(true);
+    expect(result.metadata.edits?.map(e => [e.regla, e.diccionario])).toEqual([
+      ['parl', 'sur'],
+      ['cn', 'pedro'],
+      ['cand', 'comun'],
+    ]);
+
+    const [parl] = result.metadata.edits ?? [];
+    expect(text.slice(parl.span.start, parl.span.end)).toBe('parl');
+    expect(result.metadata.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: DIAGNOSTIC_CODES.CORRECTION_APPLIED,
+        severity: 'info',
+        span: parl.span,
+      })
+    );
+  });
+
+  test('should ignore dictionaries of other houses and collectors', () => {
+    const result = createParser({ ...config, diccionarios: [casa, colector] }).parse(
+      'Juan\n25*33 parl con 5'
+    );
+
+    expect(result.metadata.edits).toBeUndefined();
+    expect(() => createParser({ ...config, diccionarios: [{ nombre: '' } as any] })).toThrow(
+      ValidationError
+    );
+  });
+});
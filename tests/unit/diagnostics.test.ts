@@ -0,0 +1,70 @@
+import { DiagnosticCollector, createDiagnostic } from '../../src/utils/diagnostics';
+import { DIAGNOSTIC_CODES } from '../../src/constants/diagnostics';
+
+describe('Unit Tests - Diagnostics', () => {
+  test('should omit undefined fields', () => {
+    const diagnostic = createDiagnostic(DIAGNOSTIC_CODES.NO_AMOUNT, 'warning', 'Sin monto', {
+      span: undefined,
+      player: 'Juan'
+    });
+
+    expect(diagnostic).toEqual({
+      code: 'LP1001_NO_AMOUNT',
+      severity: 'warning',
+      message: 'Sin monto',
+      player: 'Juan'
+    });
+  });
+
+  test('should build a validation result', () => {
+    const collector = new DiagnosticCollector();
+    collector.error(DIAGNOSTIC_CODES.NO_NUMBERS, 'Sin números');
+    collector.warning(DIAGNOSTIC_CODES.NO_AMOUNT, 'Sin monto', {
+      fix: { description: 'Agregue "con X"' }
+    });
+    collector.info(DIAGNOSTIC_CODES.PARLE_FORMAT, 'Use "parle con X"');
+
+    const result = collector.toResult({});
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(['Sin números']);
+    expect(result.warnings).toEqual(['Sin monto']);
+    expect(result.suggestions).toEqual(['Agregue "con X"', 'Use "parle con X"']);
+    expect(result.diagnostics).toHaveLength(3);
+  });
+
+  test('should merge results with context', () => {
+    const inner = new DiagnosticCollector();
+    inner.error(DIAGNOSTIC_CODES.INVALID_NUMBER, 'Número inválido', { span: { start: 3, end: 5 } });
+
+    const outer = new DiagnosticCollector();
+    outer.merge(inner.toResult({}), { prefix: 'Línea 2: ', player: 'Juan', span: { start: 0, end: 9 } });
+
+    expect(outer.diagnostics).toEqual([
+      {
+        code: 'LP1003_INVALID_NUMBER',
+        severity: 'error',
+        message: 'Línea 2: Número inválido',
+        player: 'Juan',
+        span: { start: 3, end: 5 }
+      }
+    ]);
+  });
+
+  test('should convert plain results with generic plugin codes', () => {
+    const collector = new DiagnosticCollector();
+    collector.merge({
+      valid: false,
+      errors: ['Falla'],
+      warnings: ['Aviso'],
+      suggestions: ['Idea'],
+      info: {}
+    });
+
+    expect(collector.diagnostics.map(d => d.code)).toEqual([
+      'LP5001_PLUGIN_ERROR',
+      'LP5002_PLUGIN_WARNING',
+      'LP5003_PLUGIN_SUGGESTION'
+    ]);
+  });
+});
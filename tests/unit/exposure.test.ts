@@ -0,0 +1,88 @@
+import { DIAGNOSTIC_CODES, ExposureTracker, analyzeParseResult, createParser } from '../../src';
+
+describe('Unit Tests - ExposureTracker', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+
+  test('should add up amounts per number and bet type across jugadas', () => {
+    const tracker = new ExposureTracker().add(
+      parser.parse('Juan\n05 10 con 20 y 5\n\nMaria\n05 con 30\n25*33 parle 2')
+    );
+
+    expect(tracker.exposure).toEqual([
+      { numero: '05', tipo: 'fijo', monto: 50, tope: null, exceso: 0 },
+      { numero: '10', tipo: 'fijo', monto: 20, tope: null, exceso: 0 },
+      { numero: '05', tipo: 'corrido', monto: 5, tope: null, exceso: 0 },
+      { numero: '10', tipo: 'corrido', monto: 5, tope: null, exceso: 0 },
+      { numero: '25-33', tipo: 'parle', monto: 2, tope: null, exceso: 0 },
+    ]);
+  });
+
+  test('should report numbers over the cap across a session', () => {
+    const tracker = new ExposureTracker({
+      porTipo: { fijo: 40 },
+      porNumero: { '10': { fijo: 10 } },
+    });
+    tracker.add(parser.parse('Juan\n05 10 con 20'));
+    tracker.add(parser.parse('Maria\n05 con 30'));
+
+    expect(tracker.check()).toEqual([
+      { numero: '05', tipo: 'fijo', monto: 50, tope: 40, exceso: 10 },
+      { numero: '10', tipo: 'fijo', monto: 20, tope: 10, exceso: 10 },
+    ]);
+  });
+
+  test('should reject the offending detalles', () => {
+    const tracker = new ExposureTracker({ porTipo: { fijo: 40 } });
+    tracker.add(parser.parse('Juan\n05 con 30'));
+
+    const { result, ajustes } = tracker.enforce(parser.parse('Maria\n05 10 con 20 y 5'));
+
+    expect(result.jugadas[0].detalles.map(d => d.tipo)).toEqual(['corrido']);
+    expect(result.summary.totalCalculado).toBe(10);
+    expect(ajustes).toEqual([
+      expect.objectContaining({
+        jugador: 'Maria',
+        tipo: 'fijo',
+        numeros: ['05'],
+        accion: 'rechazar',
+        montoAceptado: 0,
+      }),
+    ]);
+    expect(result.metadata.diagnostics.map(d => d.code)).toContain(DIAGNOSTIC_CODES.EXPOSURE_LIMIT);
+    expect(tracker.check()).toEqual([]);
+  });
+
+  test('should recompute stats and confidence after adjusting', () => {
+    const tracker = new ExposureTracker({ porTipo: { fijo: 40 } });
+    tracker.add(parser.parse('Juan\n05 con 40'));
+
+    const { result } = tracker.enforce(parser.parse('Maria\n05 10 con 20 y 5\nTotal: 50'));
+    const [jugada] = result.jugadas;
+
+    expect(result.stats).toMatchObject({ fijos: 0, corridos: 10, totalApuestas: 1 });
+    expect(jugada.confianza?.factores.map(f => f.codigo)).toContain('TOTAL_MISMATCH');
+    expect(result.summary.confidence).toBe(jugada.confianza?.valor);
+    expect(result.summary.confidenceFactors?.map(f => f.codigo)).toContain('TOTAL_MISMATCH');
+  });
+
+  test('should trim the offending detalles to the remaining room', () => {
+    const tracker = new ExposureTracker({ porTipo: { fijo: 40 } });
+    tracker.add(parser.parse('Juan\n05 con 30'));
+
+    const { result, ajustes } = tracker.enforce(parser.parse('Maria\n05 10 con 20'), 'recortar');
+    const [fijo] = result.jugadas[0].detalles;
+
+    expect([fijo.montoUnitario, fijo.monto]).toEqual([10, 20]);
+    expect(ajustes[0]).toMatchObject({ accion: 'recortar', montoOriginal: 40, montoAceptado: 20 });
+    expect(tracker.exposure.find(e => e.numero === '05')?.monto).toBe(40);
+  });
+
+  test('should expose amounts per number in analyzeParseResult', () => {
+    const analysis = analyzeParseResult(
+      parser.parse('Juan\n05 10 con 20\n10 con 5\n10 20 30 candado 30')
+    );
+
+    expect(analysis.numbers.exposure.fijo).toEqual({ '05': 20, '10': 25 });
+    expect(analysis.numbers.exposure.candado).toEqual({ '10-20': 10, '10-30': 10, '20-30': 10 });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  DEFAULT_HOUSE_RULES,
+  DIAGNOSTIC_CODES,
+  HouseRulesRegistry,
+  SettlementEngine,
+  ValidationError,
+  createParser,
+  getHouseRules,
+  loadHouseRules,
+} from '../../src';
+
+describe('Unit Tests - House rules', () => {
+  const config = { timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } };
+  const perfil = JSON.stringify({
+    nombre: 'banco-norte',
+    pagos: { fijo: 80, parle: 900 },
+    limites: { fijo: { min: 1, max: 50 } },
+    candadoRepartido: false,
+    centenaCompuesta: 'corrido-fijo',
+  });
+
+  test('should load a JSON profile over the default rules', () => {
+    const reglas = loadHouseRules(perfil);
+
+    expect(reglas.pagos).toEqual({ ...DEFAULT_HOUSE_RULES.pagos, fijo: 80, parle: 900 });
+    expect(reglas.limites).toEqual({ fijo: { min: 1, max: 50 } });
+    expect(JSON.parse(JSON.stringify(reglas))).toEqual(reglas);
+  });
+
+  test('should reject invalid profiles', () => {
+    expect(() => loadHouseRules('{')).toThrow(ValidationError);
+    expect(() => loadHouseRules({ pagos: { fijo: -1 } } as any)).toThrow(ValidationError);
+
+    try {
+      loadHouseRules({
+        nombre: 'x',
+        limites: { fijo: { min: 10, max: 5 } },
+        pagos: { loteria: 2 },
+      } as any);
+    } catch (error) {
+      expect((error as ValidationError).validationErrors).toHaveLength(2);
+    }
+  });
+
+  test('should register and look up profiles by name', () => {
+    const registry = HouseRulesRegistry.getInstance();
+    registry.register(perfil);
+
+    expect(registry.getNames()).toEqual(expect.arrayContaining(['estandar', 'banco-norte']));
+    expect(getHouseRules('banco-norte').pagos.fijo).toBe(80);
+    expect(() => getHouseRules('inexistente')).toThrow(ValidationError);
+    expect(registry.remove('estandar')).toBe(false);
+  });
+
+  test('should price candado per combination when the house does not split it', () => {
+    const text = 'Juan\n10 20 30 candado 5';
+    const [repartido] = createParser(config).parse(text).jugadas[0].detalles;
+    const [porCombinacion] = createParser({ ...config, reglas: loadHouseRules(perfil) }).parse(text)
+      .jugadas[0].detalles;
+
+    expect([repartido.monto, repartido.montoUnitario]).toEqual([5, 5 / 3]);
+    expect([porCombinacion.monto, porCombinacion.montoUnitario]).toEqual([15, 5]);
+  });
+
+  test('should swap the derived centena amounts', () => {
+    const parser = createParser({ ...config, reglas: loadHouseRules(perfil) });
+    const detalles = parser.parse('Juan\n123 con 2 y 4 y 6').jugadas[0].detalles;
+
+    expect(detalles.map(d => [d.tipo, d.monto])).toEqual([
+      ['centena', 2],
+      ['fijo', 6],
+      ['corrido', 4],
+    ]);
+  });
+
+  test('should report bets outside the house limits', () => {
+    const parser = createParser({ ...config, reglas: loadHouseRules(perfil) });
+    const codes = parser.parse('Juan\n10 con 60').metadata.diagnostics.map(d => d.code);
+
+    expect(codes).toContain(DIAGNOSTIC_CODES.ABOVE_MAX_BET);
+    expect(
+      createParser(config)
+        .parse('Juan\n10 con 60')
+        .metadata.diagnostics.map(d => d.code)
+    ).not.toContain(DIAGNOSTIC_CODES.ABOVE_MAX_BET);
+  });
+
+  test('should settle with the profile payouts', () => {
+    const engine = SettlementEngine.fromHouseRules(loadHouseRules(perfil));
+    const result = engine.settle(createParser(config).parse('Juan\n23 con 2'), {
+      fijo: '23',
+      corridos: ['45', '67'],
+    });
+
+    expect(result.totalPremios).toBe(160);
+  });
+});
@@ -0,0 +1,61 @@
+import { Lexer } from '../../src/lexer';
+import { TokenType } from '../../src/types';
+
+describe('Unit Tests - Lexer', () => {
+  let lexer: Lexer;
+
+  const types = (text: string): TokenType[] => lexer.tokenize(text).map(t => t.type);
+
+  beforeEach(() => {
+    lexer = new Lexer();
+  });
+
+  describe('Tokens', () => {
+    test('should distinguish numbers from amounts', () => {
+      expect(types('05 10 con 20 y 30')).toEqual(['NUMBER', 'NUMBER', 'CON', 'AMOUNT', 'Y', 'AMOUNT']);
+    });
+
+    test('should tokenize parle and candado modifiers', () => {
+      expect(types('33 25 p5')).toEqual(['NUMBER', 'NUMBER', 'PARLE_INLINE', 'AMOUNT']);
+      expect(types('25*33 parle con 5')).toEqual(['NUMBER', 'TIMES', 'NUMBER', 'PARLE', 'CON', 'AMOUNT']);
+      expect(types('25x33')).toEqual(['NUMBER', 'TIMES', 'NUMBER']);
+      expect(types('05 10 candado 50')).toEqual(['NUMBER', 'NUMBER', 'CANDADO', 'AMOUNT']);
+    });
+
+    test('should tokenize special patterns', () => {
+      expect(types('10v')).toEqual(['NUMBER', 'VOLTEO_SUFFIX']);
+      expect(types('05 al 15')).toEqual(['NUMBER', 'RANGE_AL', 'NUMBER']);
+      expect(types('d0 t5')).toEqual(['DECENA', 'NUMBER', 'TERMINAL', 'NUMBER']);
+      expect(types('10 pr 5')).toEqual(['NUMBER', 'PARES_RELATIVOS', 'NUMBER']);
+      expect(types('15 por todas las centenas')).toEqual(['NUMBER', 'CENTENAS_TODAS']);
+    });
+
+    test('should tokenize names and totals', () => {
+      expect(types('Juan Pérez')).toEqual(['NAME']);
+      expect(types('Total: 100')).toEqual(['TOTAL', 'AMOUNT']);
+    });
+
+    test('should keep unknown words as WORD tokens', () => {
+      expect(types('05 10 con 20 extra')).toEqual(['NUMBER', 'NUMBER', 'CON', 'AMOUNT', 'WORD']);
+    });
+  });
+
+  describe('Offsets', () => {
+    test('should report source offsets across lines', () => {
+      const text = 'Juan\n05 con 20';
+      const tokens = lexer.tokenize(text);
+
+      expect(tokens.map(t => t.type)).toEqual(['NAME', 'NEWLINE', 'NUMBER', 'CON', 'AMOUNT']);
+      tokens.forEach(t => {
+        expect(text.slice(t.start, t.end)).toBe(t.value);
+      });
+    });
+
+    test('should apply the given offset', () => {
+      const [token] = lexer.tokenize('05', 10);
+
+      expect(token.start).toBe(10);
+      expect(token.end).toBe(12);
+    });
+  });
+});
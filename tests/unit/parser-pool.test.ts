@@ -0,0 +1,112 @@
+import { ParserPool } from '../../src/parser-pool';
+import { Worker } from 'worker_threads';
+import { Parser, createParser } from '../../src';
+
+describe('Unit Tests - ParserPool', () => {
+  // Los workers cargan el fuente con ts-node, el arranque es lento
+  jest.setTimeout(60000);
+
+  const config = { timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } };
+  const text = Array.from(
+    { length: 7 },
+    (_, i) => `Jugador${i}\n05 10 con ${i + 1}\n25*33 parle 2\ntotal ${2 * (i + 1) + 2}`
+  ).join('\n\n');
+
+  let pool: ParserPool;
+
+  beforeAll(() => {
+    pool = new ParserPool(config, { size: 2, chunkSize: 2 });
+  });
+
+  afterAll(async () => {
+    await pool.cleanup();
+  });
+
+  test('should merge worker results in block order', async () => {
+    const result = await pool.parseAsync(text);
+    const expected = createParser(config).parse(text);
+
+    expect(result.success).toBe(true);
+    expect(result.jugadas.map(j => j.jugador)).toEqual(expected.jugadas.map(j => j.jugador));
+    expect(result.jugadas.map(j => j.detalles)).toEqual(expected.jugadas.map(j => j.detalles));
+    expect(result.summary).toEqual(expected.summary);
+    expect(result.stats).toEqual(expected.stats);
+    expect(result.metadata.diagnostics).toEqual(expected.metadata.diagnostics);
+  });
+
+  test('should map spans to the original text', async () => {
+    const result = await pool.parseAsync(text);
+    const detalle = result.jugadas[5].detalles[0];
+
+    expect(text.slice(detalle.span!.start, detalle.span!.end)).toBe('05 10 con 6');
+  });
+
+  test('should prepare the text in the workers', async () => {
+    const prepareText = jest.spyOn(Parser.prototype as any, 'prepareText');
+
+    try {
+      expect((await pool.parseAsync(text)).success).toBe(true);
+      expect(prepareText).not.toHaveBeenCalled();
+    } finally {
+      prepareText.mockRestore();
+    }
+  });
+
+  test('should report preparation errors like parse', async () => {
+    const strict = new ParserPool({ ...config, strictMode: true }, { size: 1 });
+
+    try {
+      const result = await strict.parseAsync('Juan\ncon 20');
+      const expected = createParser({ ...config, strictMode: true }).parse('Juan\ncon 20');
+
+      expect(result.success).toBe(false);
+      expect(result.metadata.diagnostics.map(d => d.code)).toEqual(
+        expected.metadata.diagnostics.map(d => d.code)
+      );
+    } finally {
+      await strict.cleanup();
+    }
+  });
+
+  test('should return a timed out result when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await pool.parseAsync(text, { signal: controller.signal });
+
+    expect(result.metadata.timedOut).toBe(true);
+    expect(result.jugadas).toHaveLength(0);
+  });
+
+  test('should terminate the busy worker when cancelled mid-chunk', async () => {
+    const single = new ParserPool({ ...config, maxJugadores: 1000 }, { size: 1, chunkSize: 1000 });
+    await single.parseAsync(text);
+
+    const largo = Array.from({ length: 500 }, (_, i) => `Jugador${i}\n05 10 con 1`).join('\n\n');
+    const controller = new AbortController();
+    const postMessage = jest.spyOn(Worker.prototype, 'postMessage').mockImplementationOnce(
+      function (this: Worker, job: unknown) {
+        postMessage.mockRestore();
+        this.postMessage(job);
+        setImmediate(() => controller.abort());
+      }
+    );
+    const terminate = jest.spyOn(Worker.prototype, 'terminate');
+
+    try {
+      const result = await single.parseAsync(largo, { signal: controller.signal });
+
+      expect(result.metadata.timedOut).toBe(true);
+      expect(result.jugadas).toHaveLength(0);
+      expect(terminate).toHaveBeenCalledTimes(1);
+      expect((await single.parseAsync(text)).success).toBe(true);
+    } finally {
+      terminate.mockRestore();
+      await single.cleanup();
+    }
+  });
+
+  test('should reject unknown plugins', () => {
+    expect(() => new ParserPool(config, { plugins: ['no-existe'] })).toThrow('Plugin desconocido');
+  });
+});
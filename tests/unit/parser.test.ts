@@ -1,4 +1,5 @@
-import { createParser, Parser } from '../../src/parser';
+import { createParser, AutoCorrectPlugin, BasicBetPlugin } from '../../src';
+import { Parser } from '../../src/parser';
 import { ParseResult, Jugada, ParserConfig } from '../../src/types';
 
 describe('Unit Tests - Parser', () => {
@@ -17,7 +18,7 @@ describe('Unit Tests - Parser', () => {
       expect(info.version).toBe('1.0.0');
       expect(info.config.strictMode).toBe(false);
       expect(info.config.autoExpand).toBe(true);
-      expect(info.plugins.length).toBeGreaterThan(0);
+      expect(info.plugins).toEqual([]);
     });
 
     test('should create parser with custom config', () => {
@@ -60,7 +61,7 @@ describe('Unit Tests - Parser', () => {
       
       expect(result.success).toBe(true);
       expect(result.jugadas[0].lineas).toHaveLength(3);
-      expect(result.summary.totalCalculado).toBe(60 + 90 + 120);
+      expect(result.summary.totalCalculado).toBe(40 + 60 + 80);
     });
 
     test('should extract player names', () => {
@@ -89,6 +90,116 @@ describe('Unit Tests - Parser', () => {
     });
   });
 
+  describe('Line Parsing', () => {
+    const detallesDe = (text: string, config: Partial<ParserConfig> = {}) =>
+      createParser(config).parse(text).jugadas[0].detalles.map(d => ({
+        tipo: d.tipo,
+        numeros: d.numeros,
+        monto: d.monto
+      }));
+
+    test('should parse fijo and corrido amounts', () => {
+      expect(detallesDe('05 10 15 con 20 y 30')).toEqual([
+        { tipo: 'fijo', numeros: ['05', '10', '15'], monto: 60 },
+        { tipo: 'corrido', numeros: ['05', '10', '15'], monto: 90 }
+      ]);
+    });
+
+    test('should parse inline parle per combination', () => {
+      const result = parser.parse('33 25 88 7 14 con 20 y 30 p5');
+      const parle = result.jugadas[0].detalles.find(d => d.tipo === 'parle');
+
+      expect(parle?.numeros).toEqual(['33', '25', '88', '07', '14']);
+      expect(parle?.combinaciones).toBe(10);
+      expect(parle?.monto).toBe(50);
+      expect(result.summary.totalCalculado).toBe(300);
+    });
+
+    test('should parse explicit parle pairs', () => {
+      const result = parser.parse('25*33 parle con 5');
+      const [parle] = result.jugadas[0].detalles;
+
+      expect(parle.tipo).toBe('parle');
+      expect(parle.pares).toEqual([['25', '33']]);
+      expect(parle.monto).toBe(5);
+    });
+
+    test('should split candado amount across combinations', () => {
+      const result = parser.parse('26 78 98 45 con 1 y 3 candado con 50');
+      const candado = result.jugadas[0].detalles.find(d => d.tipo === 'candado');
+
+      expect(candado?.combinaciones).toBe(6);
+      expect(candado?.monto).toBe(50);
+      expect(result.summary.totalCalculado).toBe(4 + 12 + 50);
+    });
+
+    test('should derive fijo and corrido from centenas', () => {
+      expect(detallesDe('325 175 con 10 y 5 y 2')).toEqual([
+        { tipo: 'centena', numeros: ['325', '175'], monto: 20 },
+        { tipo: 'fijo', numeros: ['25', '75'], monto: 10 },
+        { tipo: 'corrido', numeros: ['25', '75'], monto: 4 }
+      ]);
+    });
+
+    test('should inherit the last amounts on lines without "con"', () => {
+      const result = parser.parse('Jugador\n05 10 con 20 y 5\n15 20\nTotal: 100');
+
+      expect(result.summary.totalCalculado).toBe(100);
+      expect(result.jugadas[0].isValid).toBe(true);
+    });
+
+    test('should expand special patterns when autoExpand is disabled', () => {
+      const result = createParser({ autoExpand: false }).parse('10v 20v con 10');
+      const [fijo] = result.jugadas[0].detalles;
+
+      expect(fijo.numeros).toEqual(['10', '01', '20', '02']);
+      expect(fijo.expansion?.patternType).toBe('volteo');
+      expect(result.summary.totalCalculado).toBe(40);
+    });
+  });
+
+  describe('Source Spans', () => {
+    const textoDe = (input: string, span?: { start: number; end: number }) =>
+      span ? input.slice(span.start, span.end) : undefined;
+
+    test('should map details to the original input', () => {
+      const input = 'Juan\n  05   10 con 20 y 5\n25*33 parle 2';
+      const [fijo, corrido, parle] = parser.parse(input).jugadas[0].detalles;
+
+      expect(textoDe(input, fijo.span)).toBe('05   10 con 20');
+      expect(textoDe(input, corrido.span)).toBe('05   10 con 20 y 5');
+      expect(textoDe(input, parle.span)).toBe('25*33 parle 2');
+    });
+
+    test('should map expanded patterns to the pattern text', () => {
+      const input = '10V y d0 con 1';
+      const [fijo] = parser.parse(input).jugadas[0].detalles;
+
+      expect(fijo.numeros).toHaveLength(12);
+      expect(textoDe(input, fijo.span)).toBe(input);
+    });
+
+    test('should attach spans to line diagnostics', () => {
+      const input = 'Juan\n05 con 1\n  ???  \nal por';
+      const [diagnostic] = parser.parse(input).jugadas[0].diagnostics ?? [];
+
+      expect(diagnostic.severity).toBe('warning');
+      expect(diagnostic.message).toContain('Línea 3');
+      expect(textoDe(input, diagnostic.span)).toBe('al por');
+    });
+
+    test('should report error diagnostics outside strict mode', () => {
+      const input = 'Pedro\n05 10 con 20\nTotal: 80';
+      const result = parser.parse(input);
+      const mismatch = result.metadata.diagnostics.find(d => d.code === 'LP3004_TOTAL_MISMATCH');
+
+      expect(result.success).toBe(true);
+      expect(mismatch?.severity).toBe('error');
+      expect(textoDe(input, mismatch?.span)).toBe(input);
+      expect(createParser({ strictMode: true }).parse(input).success).toBe(false);
+    });
+  });
+
   describe('Block Extraction', () => {
     test('should extract single block', () => {
       const text = 'Jugador\n05 10 con 20\nTotal: 40';
@@ -120,6 +231,21 @@ describe('Unit Tests - Parser', () => {
       expect(structure[2].jugador).toBe('Pedro');
     });
 
+    test('should start a new block at another player name', () => {
+      const text = 'Juan\n05 con 10\nMaria\n10 con 20';
+      const structure = parser.extractStructure(text);
+
+      expect(structure.map((b: any) => b.jugador)).toEqual(['Juan', 'Maria']);
+    });
+
+    test('should close a block after its total line', () => {
+      const text = 'Juan\n05 con 10\nTotal: 10\n10 con 20';
+      const structure = parser.extractStructure(text);
+
+      expect(structure).toHaveLength(2);
+      expect(structure[0].lineCount).toBe(3);
+    });
+
     test('should handle empty blocks', () => {
       const text = '\n\n\n';
       const structure = parser.extractStructure(text);
@@ -205,6 +331,96 @@ describe('Unit Tests - Parser', () => {
     });
   });
 
+  describe('Timeout and Cancellation', () => {
+    test('should not schedule timers for the timeout', () => {
+      jest.useFakeTimers();
+      try {
+        createParser({ timeout: 10 }).parse('05 10 con 20');
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test('should return a timed out result when the signal is already aborted', () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = parser.parse('Juan\n05 10 con 20', { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.metadata.timedOut).toBe(true);
+      expect(result.jugadas).toHaveLength(0);
+      expect(result.metadata.diagnostics[0].code).toBe('LP4006_ABORTED');
+    });
+
+    test('should stop at an expired deadline', () => {
+      const result = parser.parse('05 10 con 20', { deadline: Date.now() - 1 });
+
+      expect(result.metadata.timedOut).toBe(true);
+      expect(result.metadata.diagnostics[0].code).toBe('LP4005_TIMEOUT');
+    });
+
+    test('should keep the work done before cancelling', () => {
+      const controller = new AbortController();
+      parser.registerPlugin({
+        name: 'abort-plugin',
+        version: '1.0.0',
+        priority: 100,
+        canProcess: () => {
+          controller.abort();
+          return false;
+        },
+        process: jest.fn(),
+        validate: jest.fn().mockReturnValue({ valid: true, errors: [], warnings: [], suggestions: [] })
+      });
+
+      const result = parser.parse('Juan\n05 10 con 20', { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.metadata.timedOut).toBe(true);
+      expect(result.jugadas).toHaveLength(1);
+      expect(result.jugadas[0].jugador).toBe('Juan');
+      expect(result.jugadas[0].detalles).toHaveLength(0);
+    });
+
+    test('should not cache timed out results', () => {
+      const controller = new AbortController();
+      controller.abort();
+      parser.parse('05 10 con 20', { signal: controller.signal });
+
+      expect(parser.parse('05 10 con 20').metadata.timedOut).toBe(false);
+    });
+  });
+
+  describe('Async Parsing', () => {
+    const text = 'Juan\n05 10 con 20\n\nMaria\n25*33 parle 2\n\nPedro\n10v con 5';
+
+    test('should produce the same result as parse', async () => {
+      const asyncParser = createParser({ cache: { enabled: false, ttl: 0, maxSize: 0 } });
+      const result = await asyncParser.parseAsync(text);
+      const expected = asyncParser.parse(text);
+
+      expect(result.jugadas).toHaveLength(3);
+      expect(result.jugadas.map(j => j.jugador)).toEqual(expected.jugadas.map(j => j.jugador));
+      expect(result.summary).toEqual(expected.summary);
+      expect(result.stats).toEqual(expected.stats);
+    });
+
+    test('should yield to the event loop between blocks', async () => {
+      let yielded = false;
+      setImmediate(() => {
+        yielded = true;
+      });
+
+      const pending = parser.parseAsync(text);
+      expect(yielded).toBe(false);
+
+      await pending;
+      expect(yielded).toBe(true);
+    });
+  });
+
   describe('Validation', () => {
     test('should validate text syntax', () => {
       const validText = '05 10 con 20';
@@ -226,6 +442,15 @@ describe('Unit Tests - Parser', () => {
       expect(result.suggestions.length).toBeGreaterThan(0);
       expect(result.suggestions[0]).toContain('con');
     });
+
+    test('should map validation diagnostics to the original input', () => {
+      const text = 'Juan\n   05 10';
+      const result = parser.validate(text);
+      const diagnostic = result.diagnostics?.find(d => d.code === 'LP1001_NO_AMOUNT');
+
+      expect(diagnostic).toBeDefined();
+      expect(text.slice(diagnostic!.span!.start, diagnostic!.span!.end)).toBe('05 10');
+    });
   });
 
   describe('Metadata and Statistics', () => {
@@ -294,9 +519,11 @@ describe('Unit Tests - Parser', () => {
 
   describe('Plugin System Integration', () => {
     test('should register plugins', () => {
+      parser.registerPlugin(new BasicBetPlugin());
+      parser.registerPlugin(new AutoCorrectPlugin());
       const info = parser.getInfo();
       
-      expect(info.plugins.length).toBeGreaterThan(0);
+      expect(info.plugins).toEqual(['auto-correct-plugin', 'basic-bet-plugin']);
       expect(info.plugins).toContain('basic-bet-plugin');
       expect(info.plugins).toContain('auto-correct-plugin');
     });
@@ -340,6 +567,25 @@ describe('Unit Tests - Parser', () => {
       const result = parser.parse('test');
       expect(mockPlugin.canProcess).toHaveBeenCalled();
     });
+
+    test('should fail the parse when a plugin cannot initialize', () => {
+      parser.registerPlugin({
+        name: 'broken-plugin',
+        version: '1.0.0',
+        priority: 10,
+        init: () => {
+          throw new Error('Sin configuración');
+        },
+        canProcess: () => false,
+        process: jest.fn(),
+        validate: jest.fn()
+      });
+
+      const result = parser.parse('05 10 con 20');
+
+      expect(result.success).toBe(false);
+      expect(result.metadata.errors).toEqual(['Sin configuración']);
+    });
   });
 
   describe('Cleanup', () => {
@@ -1,5 +1,7 @@
 import { Preprocessor } from '../../src/preprocessor';
 import { ParserConfig } from '../../src/types';
+import { Deadline } from '../../src/utils/deadline';
+import { TimeoutError } from '../../src/utils/errors';
 
 describe('Unit Tests - Preprocessor', () => {
   let preprocessor: Preprocessor;
@@ -83,6 +85,38 @@ describe('Unit Tests - Preprocessor', () => {
       });
     });
 
+    test('should not corrupt keywords next to numbers', () => {
+      const testCases = [
+        { input: 'Total1o', expected: 'total 10' },
+        { input: '05 fijo1o', expected: '05 fijo 10' },
+        { input: '33 al3l con 2', expected: '33 al 31 con 2' },
+        { input: '05 lo con 10', expected: '05 lo con 10' }
+      ];
+
+      testCases.forEach(({ input, expected }) => {
+        expect(preprocessor.process(input)).toBe(expected);
+      });
+    });
+
+    test('should protect configured keywords', () => {
+      expect(preprocessor.process('1o bolo5')).toBe('10 bolo5');
+
+      const custom = new Preprocessor({ ...config, protectedKeywords: ['bolo'] });
+      expect(custom.process('1o bolo5')).toBe('10 bolo 5');
+    });
+
+    test('should record each substitution', () => {
+      const text = '05 1o con 2l';
+      const { source, sustituciones } = preprocessor.processDetailed(text);
+
+      expect(source.text).toBe('05 10 con 21');
+      expect(sustituciones).toEqual([
+        { original: 'o', reemplazo: '0', token: '1o', span: { start: 4, end: 5 } },
+        { original: 'l', reemplazo: '1', token: '2l', span: { start: 11, end: 12 } }
+      ]);
+      expect(text.slice(4, 5)).toBe('o');
+    });
+
     test('should normalize multiplication operator', () => {
       const text = '25×33 parle con 5';
       const processed = preprocessor.process(text);
@@ -138,6 +172,65 @@ describe('Unit Tests - Preprocessor', () => {
     });
   });
 
+  describe('Number Words', () => {
+    test('should convert spoken cardinals to digits', () => {
+      const testCases = [
+        { input: 'cinco diez con veinticinco', expected: '05 10 con 25' },
+        { input: '25 con mil quinientos', expected: '25 con 1500' },
+        { input: '10 con ciento veinte', expected: '10 con 120' },
+        { input: 'Dieciséis con Veintitrés', expected: '16 con 23' },
+        { input: 'Total: doscientos cuarenta y cinco', expected: 'total 245' }
+      ];
+
+      testCases.forEach(({ input, expected }) => {
+        expect(preprocessor.process(input)).toBe(expected);
+      });
+    });
+
+    test('should read halves, cents and colloquial amounts', () => {
+      const testCases = [
+        { input: '33 con diez y medio', expected: '33 con 10.5' },
+        { input: '05 con dos pesos con cincuenta', expected: '05 con 2.5' },
+        { input: '05 con dos fuertes', expected: '05 con 10' },
+        { input: '05 con una luca', expected: '05 con 1000' },
+        { input: '05 con una peseta', expected: '05 con 0.2' }
+      ];
+
+      testCases.forEach(({ input, expected }) => {
+        expect(preprocessor.process(input)).toBe(expected);
+      });
+    });
+
+    test('should keep "y" between amounts as part of the bet', () => {
+      expect(preprocessor.process('05 10 con veinte y diez')).toBe('05 10 con 20 y 10');
+      expect(preprocessor.process('05 con treinta y cinco')).toBe('05 con 30 y 5');
+      expect(preprocessor.process('05 con treinta y cinco pesos')).toBe('05 con 35');
+      expect(preprocessor.process('treinta y cinco con dos')).toBe('35 con 2');
+    });
+
+    test('should leave names and articles alone', () => {
+      expect(preprocessor.process('José Cinco')).toBe('José Cinco');
+      expect(preprocessor.process('una centena con cinco')).toBe('una centena con 5');
+
+      const disabled = new Preprocessor({ ...config, numberWords: false });
+      expect(disabled.process('05 con cinco')).toBe('05 con cinco');
+    });
+
+    test('should record each conversion as an edit', () => {
+      const text = 'Ana\n05  con mil quinientos';
+      const { ediciones } = preprocessor.processDetailed(text);
+
+      expect(ediciones).toEqual([
+        {
+          regla: 'NUMBER_WORDS',
+          original: 'mil quinientos',
+          reemplazo: '1500',
+          span: { start: 12, end: 26 }
+        }
+      ]);
+    });
+  });
+
   describe('Pattern Expansion', () => {
     test('should expand volteos when autoExpand is true', () => {
       const text = '10v con 20';
@@ -184,6 +277,13 @@ describe('Unit Tests - Preprocessor', () => {
       expect(processed).toBe('1001 1002 1003 1004 1005 con 2');
     });
 
+    test('should stop at an expired deadline', () => {
+      const expired = Deadline.start({ deadline: Date.now() - 1 });
+
+      expect(() => preprocessor.processDetailed('10v con 20', 0, expired)).toThrow(TimeoutError);
+      expect(preprocessor.processDetailed('10v con 20', 0).source.text).toBe('10 01 con 20');
+    });
+
     test('should expand "todas las centenas"', () => {
       const text = '05 10 por todas las centenas con 5';
       const processed = preprocessor.process(text);
@@ -0,0 +1,58 @@
+import { TotalReconciler, createParser } from '../../src';
+
+describe('Unit Tests - TotalReconciler', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+  const reconciler = new TotalReconciler();
+  const sugerencias = (text: string) => reconciler.reconcileJugada(parser.parse(text).jugadas[0]);
+
+  test('should suggest the missing corrido amount', () => {
+    const [conciliacion] = reconciler.reconcile(parser.parse('Juan\n05 10 con 10\nTotal: 30'));
+
+    expect(conciliacion).toMatchObject({ jugador: 'Juan', diferencia: 10 });
+    expect(conciliacion.sugerencias).toEqual([
+      {
+        codigo: 'MISSING_CORRIDO',
+        descripcion: 'Falta el corrido de 5',
+        lineaNumero: 2,
+        original: '05 10 con 10',
+        editada: '05 10 con 10 y 5',
+        totalCalculado: 30,
+        puntaje: 0.8,
+      },
+    ]);
+  });
+
+  test('should suggest removing a duplicated line', () => {
+    expect(sugerencias('Juan\n05 10 con 10\n20 con 5\n20 con 5\nTotal: 25')).toEqual([
+      expect.objectContaining({ codigo: 'DUPLICATED_LINE', lineaNumero: 4, editada: null }),
+    ]);
+  });
+
+  test('should suggest misread digits and "y" read as a number', () => {
+    expect(sugerencias('Juan\n05 10 con 10\nTotal: 80')).toContainEqual(
+      expect.objectContaining({ codigo: 'MISREAD_DIGIT', editada: '05 10 con 40' })
+    );
+    expect(sugerencias('Juan\n33 con 10 4 5\nTotal: 15')).toContainEqual(
+      expect.objectContaining({ codigo: 'Y_AS_NUMBER', editada: '33 con 10 y 5' })
+    );
+  });
+
+  test('should suggest reading the candado per combination', () => {
+    expect(sugerencias('Juan\n05 10 20 candado con 30\nTotal: 90')).toEqual([
+      expect.objectContaining({
+        codigo: 'CANDADO_SPLIT',
+        descripcion: 'El candado es por combinación',
+        totalCalculado: 90,
+      }),
+    ]);
+  });
+
+  test('should rank suggestions and skip jugadas that already match', () => {
+    const ranked = sugerencias('Juan\n05 10 con 10\n20 con 5\n20 con 5\nTotal: 35');
+    const puntajes = ranked.map(s => s.puntaje);
+    expect(puntajes).toEqual([...puntajes].sort((a, b) => b - a));
+    expect(ranked[0].codigo).toBe('MISSING_CORRIDO');
+
+    expect(reconciler.reconcile(parser.parse('Juan\n05 10 con 10\nTotal: 20'))).toEqual([]);
+  });
+});
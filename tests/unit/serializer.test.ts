@@ -0,0 +1,94 @@
+import {
+  CanonicalSerializer,
+  DEFAULT_HOUSE_RULES,
+  ParseResult,
+  createParser,
+  serialize,
+} from '../../src';
+import { SpecialPatternsPlugin } from '../../src/plugins/default-plugins';
+
+describe('Unit Tests - CanonicalSerializer', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+
+  // Lo que debe conservarse al volver a parsear el texto canónico
+  const resumen = (result: ParseResult) =>
+    result.jugadas.map(j => ({
+      jugador: j.jugador,
+      totalCalculado: j.totalCalculado,
+      detalles: j.detalles.map(d => ({
+        tipo: d.tipo,
+        numeros: d.numeros,
+        monto: d.monto,
+        montoUnitario: d.montoUnitario,
+        combinaciones: d.combinaciones,
+        pares: d.pares,
+      })),
+    }));
+
+  test('should write one bet group per line with padded numbers and a recomputed total', () => {
+    const result = parser.parse('Juan\n5 23 con 10 y 5\n7 con 0 y 2.5\nTotal 100');
+
+    expect(serialize(result)).toBe('Juan\n05 23 con 10 y 5\n07 con 0 y 2.5\nTotal: 32.5');
+  });
+
+  test('should write explicit parle, candado and centena lines', () => {
+    const result = parser.parse(
+      'Maria\n123 con 3 y 1 y 2\n25*33 1001 parle 2\n25 33 45 parle con 1\n25 33 45 candado 6'
+    );
+
+    expect(serialize(result.jugadas[0])).toBe(
+      [
+        'Maria',
+        '123 con 3',
+        '23 con 1 y 2',
+        '25*33 10*01 parle con 2',
+        '25 33 45 parle con 1',
+        '25 33 45 candado con 6',
+        'Total: 19',
+      ].join('\n')
+    );
+  });
+
+  test('should re-parse to an identical result', () => {
+    const result = parser.parse(
+      'Juan\n05 10-15 con 20 y 5\n33 d2 con 1\n\nMaria\n25 33 45 candado 10\n123 456 con 2 y 3'
+    );
+    const canonical = serialize(result);
+    const reparsed = parser.parse(canonical);
+
+    expect(resumen(reparsed)).toEqual(resumen(result));
+    expect(reparsed.jugadas.every(j => j.isValid)).toBe(true);
+    expect(serialize(reparsed)).toBe(canonical);
+  });
+
+  test('should write pattern bets in their expanded form', () => {
+    const conPatrones = createParser({
+      timeout: 0,
+      cache: { enabled: false, ttl: 0, maxSize: 0 },
+      autoExpand: false,
+    });
+    conPatrones.registerPlugin(new SpecialPatternsPlugin());
+    const result = conPatrones.parse('Juan\n10v con 5');
+
+    expect(result.jugadas[0].detalles[0].tipo).toBe('especial');
+    expect(serialize(result)).toBe('Juan\n10 01 con 5\nTotal: 10');
+    expect(parser.parse(serialize(result)).summary.totalCalculado).toBe(
+      result.summary.totalCalculado
+    );
+  });
+
+  test('should declare the candado amount according to the house rules', () => {
+    const reglas = { ...DEFAULT_HOUSE_RULES, nombre: 'por-combinacion', candadoRepartido: false };
+    const porCombinacion = createParser({
+      timeout: 0,
+      cache: { enabled: false, ttl: 0, maxSize: 0 },
+      reglas,
+    });
+    const result = porCombinacion.parse('Juan\n25 33 45 candado 2');
+
+    expect(new CanonicalSerializer(reglas).serialize(result)).toBe(
+      'Juan\n25 33 45 candado con 2\nTotal: 6'
+    );
+    expect(resumen(porCombinacion.parse(serialize(result, reglas)))).toEqual(resumen(result));
+  });
+});
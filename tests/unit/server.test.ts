@@ -0,0 +1,136 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { startServer, toErrorResponse } from '../../src/server';
+import { Parser, ParserError, TimeoutError, ValidationError } from '../../src';
+
+describe('Unit Tests - HTTP server', () => {
+  let server: Server;
+  let baseUrl: string;
+  const text = 'Juan\n05 10 con 20\nTotal: 40';
+
+  beforeAll(async () => {
+    server = await startServer(0, '127.0.0.1', {
+      config: { timeout: 0, maxJugadores: 2, cache: { enabled: false, ttl: 0, maxSize: 0 } },
+      maxBodySize: 1000,
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  const post = async (path: string, body: unknown, json = true) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': json ? 'application/json' : 'text/plain' },
+      body: json ? JSON.stringify(body) : (body as string),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  test('should parse JSON and plain text bodies', async () => {
+    const fromJson = await post('/parse', { text });
+    const fromText = await post('/parse', text, false);
+
+    expect(fromJson.status).toBe(200);
+    expect(fromJson.body.summary.totalCalculado).toBe(40);
+    expect(fromJson.body.jugadas[0].metadata.betTypes).toEqual(['fijo']);
+    expect(fromText.body.summary).toEqual(fromJson.body.summary);
+  });
+
+  test('should apply per-request config overrides', async () => {
+    const { body } = await post('/parse', { text: 'Juan\n05 10', config: { defaultMontoFijo: 3 } });
+
+    expect(body.summary.totalCalculado).toBe(6);
+  });
+
+  test('should answer failed and timed out parses with error statuses', async () => {
+    const strict = await post('/parse', {
+      text: 'Juan\n05 10 con 20\nTotal: 80',
+      config: { strictMode: true },
+    });
+    expect(strict.status).toBe(422);
+    expect(strict.body.success).toBe(false);
+    expect(strict.body.metadata.diagnostics[0].code).toBe('LP3004_TOTAL_MISMATCH');
+
+    const parsed = await post('/parse', { text });
+    jest.spyOn(Parser.prototype, 'parseAsync').mockResolvedValueOnce({
+      ...parsed.body,
+      success: false,
+      metadata: { ...parsed.body.metadata, timedOut: true },
+    });
+    expect((await post('/parse', { text })).status).toBe(408);
+  });
+
+  test('should only accept allowed config overrides within the server limits', async () => {
+    const notAllowed = await post('/parse', { text, config: { debug: true, timeout: 0 } });
+    expect(notAllowed.status).toBe(400);
+    expect(notAllowed.body.error).toEqual({
+      code: 'INVALID_CONFIG',
+      message: 'Configuración no permitida',
+      details: ['"debug" no se puede cambiar por petición', '"timeout" debe ser mayor que 0'],
+    });
+    expect((await post('/parse', { text, config: { strictMode: 'si' } })).status).toBe(400);
+
+    const tresJugadores = 'Ana\n05 con 1\n\nLuis\n10 con 2\n\nEva\n15 con 3';
+    const limited = await post('/parse', { text: tresJugadores, config: { maxJugadores: 50 } });
+    expect(limited.status).toBe(422);
+    expect(limited.body.metadata.errors[0]).toContain('Número máximo de jugadores excedido');
+  });
+
+  test('should validate, extract structure and analyze', async () => {
+    const validate = await post('/validate', { text: '' });
+    const structure = await post('/structure', { text });
+    const analyze = await post('/analyze', { text });
+
+    expect(validate.body.valid).toBe(false);
+    expect(validate.body.diagnostics[0].code).toBe('LP2001_EMPTY_TEXT');
+    expect(structure.body[0].jugador).toBe('Juan');
+    expect(analyze.body.summary.overview).toContain('1 jugadores');
+  });
+
+  test('should return parser info', async () => {
+    const response = await fetch(`${baseUrl}/info`);
+    const info = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(info.version).toBe('1.0.0');
+    expect(info.config.timeout).toBe(0);
+    expect(Array.isArray(info.plugins)).toBe(true);
+  });
+
+  test('should map parser errors to HTTP errors', () => {
+    expect(toErrorResponse(new ValidationError('Inválido', ['a']))).toEqual({
+      status: 422,
+      body: { error: { code: 'VALIDATION_ERROR', message: 'Inválido', details: ['a'] } },
+    });
+    expect(toErrorResponse(new TimeoutError(undefined, 10)).status).toBe(408);
+    expect(
+      toErrorResponse(new ParserError('x', undefined, 'LP1009_PARLE_MIN_NUMBERS')).body.error.code
+    ).toBe('LP1009_PARLE_MIN_NUMBERS');
+    expect(toErrorResponse(new Error('secreto'))).toEqual({
+      status: 500,
+      body: { error: { code: 'INTERNAL_ERROR', message: 'Error interno del servidor' } },
+    });
+  });
+
+  test('should reject bad requests with JSON errors', async () => {
+    expect((await post('/parse', { texto: text })).body.error.code).toBe('INVALID_REQUEST');
+    // Como texto plano, "{" es una jugada sin apuestas y no JSON inválido
+    expect((await post('/parse', '{', false)).body.success).toBe(false);
+    expect((await post('/nada', { text })).status).toBe(404);
+    expect((await post('/parse', { text: 'x'.repeat(2000) })).status).toBe(413);
+
+    const get = await fetch(`${baseUrl}/parse`);
+    expect(get.status).toBe(405);
+    expect((await get.json()).error.code).toBe('METHOD_NOT_ALLOWED');
+
+    const invalid = await fetch(`${baseUrl}/parse`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{',
+    });
+    expect((await invalid.json()).error.code).toBe('INVALID_JSON');
+  });
+});
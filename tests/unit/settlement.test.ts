@@ -0,0 +1,102 @@
+import {
+  DEFAULT_PAYOUT_TABLE,
+  SettlementEngine,
+  ValidationError,
+  createParser,
+  settle,
+} from '../../src';
+import { SpecialPatternsPlugin } from '../../src/plugins/default-plugins';
+
+describe('Unit Tests - SettlementEngine', () => {
+  const parser = createParser({ timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } });
+  const sorteo = { centena: '123', fijo: '23', corridos: ['45', '67'] as [string, string] };
+
+  const premios = (text: string, tabla = {}) =>
+    new SettlementEngine(tabla).settle(parser.parse(text), sorteo).jugadas[0].detalles;
+
+  test('should pay fijo only on the fijo', () => {
+    const [fijo] = premios('Juan\n23 45 con 10');
+
+    expect(fijo.numerosGanadores).toEqual(['23']);
+    expect(fijo.premio).toBe(10 * DEFAULT_PAYOUT_TABLE.fijo);
+  });
+
+  test('should pay corrido once per matching position', () => {
+    const [, corrido] = premios('Juan\n23 45 11 con 10 y 4');
+
+    expect(corrido.aciertos).toBe(2);
+    expect(corrido.premio).toBe(2 * 4 * 25);
+  });
+
+  test('should pay centena and its derived fijo and corrido', () => {
+    const detalles = premios('Juan\n123 523 con 2 y 4 y 6');
+
+    expect(detalles.map(d => [d.tipo, d.premio])).toEqual([
+      ['centena', 2 * 500],
+      ['fijo', 2 * 4 * 75],
+      ['corrido', 2 * 6 * 25],
+    ]);
+  });
+
+  test('should pay parle per winning pair', () => {
+    const [parle] = premios('Juan\n23*45 11*67 45*67 parle 3');
+
+    expect(parle.paresGanadores).toEqual([
+      ['23', '45'],
+      ['45', '67'],
+    ]);
+    expect(parle.premio).toBe(2 * 3 * 1000);
+  });
+
+  test('should pay candado per hit pair on the unit amount', () => {
+    const [candado] = premios('Juan\n23 45 11 candado 30');
+
+    expect(candado.paresGanadores).toEqual([['23', '45']]);
+    expect(candado.premio).toBe(10 * 1000);
+  });
+
+  test('should pay pattern bets as fijos on their expanded numbers', () => {
+    const patrones = createParser({
+      timeout: 0,
+      cache: { enabled: false, ttl: 0, maxSize: 0 },
+      autoExpand: false,
+    });
+    patrones.registerPlugin(new SpecialPatternsPlugin());
+    const [especial] = new SettlementEngine({ fijo: 80 }).settle(
+      patrones.parse('Juan\n32v con 5'),
+      sorteo
+    ).jugadas[0].detalles;
+
+    expect(especial.tipo).toBe('especial');
+    expect(especial.numerosGanadores).toEqual(['23']);
+    expect(especial.premio).toBe(5 * 80);
+  });
+
+  test('should compute totals per jugada and overall', () => {
+    const result = settle(parser.parse('Juan\n23 con 10\n\nMaria\n10 con 5'), sorteo, { fijo: 80 });
+
+    expect(result.jugadas.map(j => [j.jugador, j.totalApostado, j.totalPremio])).toEqual([
+      ['Juan', 10, 800],
+      ['Maria', 5, 0],
+    ]);
+    expect(result.totalApostado).toBe(15);
+    expect(result.totalPremios).toBe(800);
+    expect(result.balance).toBe(-785);
+  });
+
+  test('should normalize and validate the draw', () => {
+    const engine = new SettlementEngine();
+    const empty = parser.parse('');
+
+    expect(engine.settle(empty, { fijo: '5', corridos: ['7', '45'] }).sorteo).toEqual({
+      fijo: '05',
+      corridos: ['07', '45'],
+    });
+    expect(() =>
+      engine.settle(empty, { centena: '124', fijo: '23', corridos: ['45', '67'] })
+    ).toThrow(ValidationError);
+    expect(() => engine.settle(empty, { fijo: 'x', corridos: ['45', '67'] })).toThrow(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import { MappedText } from '../../src/utils/source-map';
+
+describe('Unit Tests - MappedText', () => {
+  const slice = (original: string, mapped: MappedText, start: number, end: number): string => {
+    const span = mapped.originalSpan(start, end);
+    return original.slice(span.start, span.end);
+  };
+
+  test('should behave like String.prototype.replace', () => {
+    const original = 'Juan\r\n05 - 10 con 20 pesos';
+    const mapped = MappedText.identity(original)
+      .replace(/\r\n/g, '\n')
+      .replace(/(\d)\s*-\s*(\d)/g, '$1 $2')
+      .replace(/\b(\d+)\s*pesos\b/gi, (match, monto) => monto);
+
+    expect(mapped.text).toBe('Juan\n05 10 con 20');
+  });
+
+  test('should map unchanged characters one to one', () => {
+    const original = '  05   10 con 20  ';
+    const mapped = MappedText.identity(original)
+      .replace(/ +/g, ' ')
+      .trim();
+
+    expect(mapped.text).toBe('05 10 con 20');
+    expect(slice(original, mapped, 3, 5)).toBe('10');
+    expect(slice(original, mapped, 10, 12)).toBe('20');
+  });
+
+  test('should map expanded text to the expanded pattern', () => {
+    const original = 'd0 con 5';
+    const mapped = MappedText.identity(original).replace(/d(\d)/g, (match, unidad) =>
+      Array.from({ length: 10 }, (_, d) => `${d}${unidad}`).join(' ')
+    );
+
+    expect(mapped.text.startsWith('00 10 20')).toBe(true);
+    expect(slice(original, mapped, 3, 5)).toBe('d0');
+    expect(slice(original, mapped, mapped.length - 1, mapped.length)).toBe('5');
+  });
+
+  test('should keep offsets across line operations', () => {
+    const original = 'Ana\n\n   \n05 con 1';
+    const mapped = MappedText.identity(original)
+      .mapLines(line => line.trim())
+      .filterLines(line => line.length > 0);
+
+    expect(mapped.text).toBe('Ana\n05 con 1');
+    expect(slice(original, mapped, 4, 6)).toBe('05');
+  });
+
+  test('should return zero-width spans for empty ranges', () => {
+    const mapped = MappedText.identity('05 con 1');
+
+    expect(mapped.originalSpan(3, 3)).toEqual({ start: 3, end: 3 });
+    expect(mapped.originalSpan(8, 8)).toEqual({ start: 8, end: 8 });
+  });
+});
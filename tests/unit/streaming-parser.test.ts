@@ -0,0 +1,91 @@
+import { StreamingParser, createParser } from '../../src';
+
+describe('Unit Tests - StreamingParser', () => {
+  const config = { timeout: 0, cache: { enabled: false, ttl: 0, maxSize: 0 } };
+  const text = 'Juan\n05 10 con 20\nTotal: 40\nMaria\n10v con 5\n\nPedro\n25*33 parle 2\n15 con 3';
+
+  const sinTiempos = (jugadas: any[]) =>
+    jugadas.map(j => ({ ...j, metadata: { ...j.metadata, timestamp: 0, processingTime: 0 } }));
+
+  test('should emit a jugada when its total line arrives', () => {
+    const stream = new StreamingParser(config);
+
+    expect(stream.write('Juan\n05 10 con 20\n')).toHaveLength(0);
+    const [jugada] = stream.write('Total: 40\n');
+
+    expect(jugada.jugador).toBe('Juan');
+    expect(jugada.totalDeclarado).toBe(40);
+  });
+
+  test('should emit a jugada on a blank line or another player name', () => {
+    const stream = new StreamingParser(config);
+    stream.write('Juan\n05 con 10\n');
+
+    expect(stream.write('Maria\n').map(j => j.jugador)).toEqual(['Juan']);
+    expect(stream.write('10 con 20\n\n').map(j => j.jugador)).toEqual(['Maria']);
+  });
+
+  test('should wait for complete lines', () => {
+    const stream = new StreamingParser(config);
+
+    expect(stream.write('Juan\n05 con 10\nTot')).toHaveLength(0);
+    expect(stream.write('al: 10\n')).toHaveLength(1);
+  });
+
+  test('should flush the last block on end', () => {
+    const onJugada = jest.fn();
+    const stream = new StreamingParser(config, { onJugada });
+    stream.write('Juan\n05 con 10');
+
+    expect(stream.end().map(j => j.jugador)).toEqual(['Juan']);
+    expect(onJugada).toHaveBeenCalledTimes(1);
+  });
+
+  test('should keep a running total', () => {
+    const stream = new StreamingParser(config);
+    stream.write('Juan\n05 con 10\n\n');
+    expect(stream.runningTotal).toBe(10);
+
+    stream.write('Maria\n10 20 con 5\n\n');
+    expect(stream.runningTotal).toBe(20);
+  });
+
+  test('should agree with batch parsing for any chunking', () => {
+    const batch = createParser(config).parse(text);
+
+    for (const size of [1, 4, text.length]) {
+      const stream = new StreamingParser(config);
+      for (let i = 0; i < text.length; i += size) {
+        stream.write(text.slice(i, i + size));
+      }
+      stream.end();
+
+      expect(sinTiempos(stream.jugadas)).toEqual(sinTiempos(batch.jugadas));
+      expect(stream.runningTotal).toBe(batch.summary.totalCalculado);
+    }
+  });
+
+  test('should split blocks at symbol-only lines like batch parsing', () => {
+    const simbolos = 'Juan\n25 con 5\n$$$\n33 con 2';
+    const batch = createParser(config).parse(simbolos);
+    const stream = new StreamingParser(config);
+    stream.write(simbolos);
+    stream.end();
+
+    expect(stream.jugadas.map(j => [j.jugador, j.totalCalculado])).toEqual(
+      batch.jugadas.map(j => [j.jugador, j.totalCalculado])
+    );
+    expect(sinTiempos(stream.jugadas)).toEqual(sinTiempos(batch.jugadas));
+    expect(stream.runningTotal).toBe(batch.summary.totalCalculado);
+  });
+
+  test('should map spans to the whole stream', () => {
+    const stream = new StreamingParser(config);
+    stream.write('Juan\n05 con 10\n\n');
+    stream.write('Maria\n10 con 20\n');
+    const [maria] = stream.end();
+    const span = maria.detalles[0].span!;
+
+    expect('Juan\n05 con 10\n\nMaria\n10 con 20\n'.slice(span.start, span.end)).toBe('10 con 20');
+  });
+});
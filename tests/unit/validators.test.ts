@@ -1,5 +1,7 @@
 import { Validator } from '../../src/validators';
 import { ParserConfig, Jugada, DetalleApuesta } from '../../src/types';
+import { Deadline } from '../../src/utils/deadline';
+import { TimeoutError } from '../../src/utils/errors';
 
 describe('Unit Tests - Validator', () => {
   let validator: Validator;
@@ -57,6 +59,15 @@ describe('Unit Tests - Validator', () => {
       expect(result.warnings).toContain('No se encontraron montos');
     });
 
+    test('should stop at a cancelled deadline', () => {
+      const controller = new AbortController();
+      controller.abort();
+      
+      expect(() =>
+        validator.validateSyntax('05 10 con 20', Deadline.start({ signal: controller.signal }))
+      ).toThrow(TimeoutError);
+    });
+
     test('should validate line numbers correctly', () => {
       const text = 'Line 1\nInvalid Line\n05 10 con 20';
       const result = validator.validateSyntax(text);
@@ -234,6 +245,37 @@ describe('Unit Tests - Validator', () => {
     });
   });
 
+  describe('Diagnostics', () => {
+    test('should attach stable codes and spans to line diagnostics', () => {
+      const text = '05 10 con 20\n05 10';
+      const result = validator.validateSyntax(text);
+      const diagnostic = result.diagnostics?.find(d => d.code === 'LP1001_NO_AMOUNT');
+
+      expect(diagnostic?.severity).toBe('warning');
+      expect(diagnostic?.message).toBe('Línea 2: No se encontraron montos');
+      expect(diagnostic?.span).toEqual({ start: 13, end: 18 });
+      expect(diagnostic?.fix?.description).toContain('con X');
+    });
+
+    test('should point amount diagnostics at the amount', () => {
+      const text = '05 10 con 2000000';
+      const result = validator.validateSyntax(text);
+      const diagnostic = result.diagnostics?.find(d => d.code === 'LP1005_EXCESSIVE_AMOUNT');
+
+      expect(diagnostic?.severity).toBe('warning');
+      expect(text.slice(diagnostic!.span!.start, diagnostic!.span!.end)).toBe('2000000');
+    });
+
+    test('should keep text lists in sync with diagnostics', () => {
+      const result = validator.validateSyntax('05 10\nabc\n05 10 con 0');
+      const messages = (severity: string) =>
+        (result.diagnostics ?? []).filter(d => d.severity === severity).map(d => d.message);
+
+      expect(result.errors).toEqual(messages('error'));
+      expect(result.warnings).toEqual(messages('warning'));
+    });
+  });
+
   describe('Jugada Validation', () => {
     const createTestJugada = (overrides: Partial<Jugada> = {}): Jugada => ({
       jugador: 'Test Player',